@@ -24,21 +24,69 @@ export type SwapStatus =
   | "refund_pending"
   | "refunded";
 
+/** "sell" sells the whole deposit; "buy" buys an exact amount and refunds the rest */
+export type SwapKind = "sell" | "buy";
+
+export type CowOrderStatus =
+  | "OPEN"
+  | "PRESIGNATURE_PENDING"
+  | "FULFILLED"
+  | "CANCELLED"
+  | "EXPIRED";
+
 // ============================================================================
 // Request Types
 // ============================================================================
 
 export interface QuoteRequest {
   chainId: SupportedChainId;
+  /** A registered sell token (defaults to CBBTC) */
+  sellToken?: Token;
   buyToken: Token;
-  sellAmount: string;
+  /** Defaults to "sell" */
+  kind?: SwapKind;
+  /** Amount to sell (sell quotes) */
+  sellAmount?: string;
+  /** Exact amount to buy (buy quotes) */
+  buyAmount?: string;
 }
 
 export interface CreateSwapRequest {
   chainId: SupportedChainId;
+  /** A registered sell token (defaults to CBBTC) */
+  sellToken?: Token;
   buyToken: Token;
+  /** Defaults to "sell" */
+  kind?: SwapKind;
+  /** Required for buy swaps: the exact amount of buyToken to buy */
+  buyAmount?: string;
   recipientAddress: TokenAddress;
-  refundAddress: TokenAddress;
+  /**
+   * Defaults to the depositor, if every deposit came from one wallet; other
+   * refunds are handled manually (required when selling native ETH)
+   */
+  refundAddress?: TokenAddress;
+  /** Receives a signed POST on every status change */
+  webhookUrl?: string;
+  /** Required with webhookUrl (min 16 chars); HMAC-SHA256 key for X-Webhook-Signature */
+  webhookSecret?: string;
+  /** Let orders fill in parts; an unfilled remainder is re-ordered or refunded (default false) */
+  partiallyFillable?: boolean;
+  /** Caps the recommended slippage tolerance (0-9999 bps) */
+  maxSlippageBps?: number;
+  /**
+   * Minimum buy token base units per whole sell token. Orders never sign
+   * for less, and the swap is refunded if the market can't meet it.
+   */
+  minBuyAmountPerUnit?: string;
+  /**
+   * Limit price in the same units. The swap waits for it until expiresAt,
+   * then the deposit is refunded. Not combinable with buy swaps,
+   * minBuyAmountPerUnit or quoteId.
+   */
+  limitBuyAmountPerUnit?: string;
+  /** Binds the swap to an unexpired quote's price, within the server's tolerance */
+  quoteId?: string;
 }
 
 // ============================================================================
@@ -53,8 +101,13 @@ export interface HealthResponse {
 export interface QuoteResponse {
   quoteId: string;
   chainId: SupportedChainId;
+  sellToken: Token;
   buyToken: Token;
+  kind: SwapKind;
+  /** Buy quotes: the amount needed to buy buyAmountEstimate */
   sellAmount: string;
+  /** Buy quotes: sellAmount plus slippage, the amount to deposit */
+  sellAmountMax?: string;
   buyAmountEstimate: string;
   expiresAt: number;
   canFill: boolean;
@@ -69,32 +122,180 @@ export interface CreateSwapResponse {
   swapId: string;
   vaultAddress: TokenAddress;
   chainId: SupportedChainId;
+  sellToken: Token;
   buyToken: Token;
+  kind: SwapKind;
+  buyAmount?: string;
+  /** Venue the swap's orders are placed on (e.g. "cow") */
+  venue: string;
   recipientAddress: TokenAddress;
-  refundAddress: TokenAddress;
+  refundAddress?: TokenAddress;
+  webhookUrl?: string;
+  partiallyFillable: boolean;
+  maxSlippageBps?: number;
+  minBuyAmountPerUnit?: string;
+  limitBuyAmountPerUnit?: string;
+  quoteId?: string;
   expiresAt: number;
   status: SwapStatus;
 }
 
+/** "seen" at the chain head, or "confirmed" at the chain's confirmation depth */
+export type DepositStatus = "seen" | "confirmed";
+
+export interface DepositTransfer {
+  txHash: `0x${string}`;
+  logIndex: number;
+  from: TokenAddress;
+  amount: string;
+  blockNumber: number;
+}
+
+export interface BoundQuote {
+  quoteId: string;
+  sellAmount: string;
+  buyAmountEstimate: string;
+  /** The quoted price applied to depositAmount */
+  expectedBuyAmount?: string;
+}
+
+export interface LimitProgress {
+  /** The limit price */
+  buyAmountPerUnit: string;
+  /** Market price at the last check, while the order is open */
+  marketBuyAmountPerUnit?: string;
+  /** How far the market is below the limit, in bps (<= 0: the order can fill) */
+  distanceBps?: number;
+  checkedAt?: number;
+}
+
+export interface TwapProgress {
+  parts: number;
+  partsFilled: number;
+  /** When the next part is submitted, while waiting for it */
+  nextPartAt?: number;
+  /** End of the window; the unsold remainder is refunded after */
+  endsAt?: number;
+}
+
+export interface SwapOrderSummary {
+  orderUid: string;
+  status: CowOrderStatus;
+  /** Quoted buy amount at submission */
+  buyAmount?: string;
+  /** Filled so far, summed over the order's settlement trades */
+  executedSellAmount?: string;
+  executedBuyAmount?: string;
+  createdAt: number;
+}
+
 export interface SwapStatusResponse {
   swapId: string;
   chainId: SupportedChainId;
   vaultAddress: TokenAddress;
+  sellToken: Token;
   buyToken: Token;
+  kind: SwapKind;
+  buyAmount?: string;
+  /** Venue the swap's orders are placed on (e.g. "cow") */
+  venue: string;
   recipientAddress: TokenAddress;
-  refundAddress: TokenAddress;
+  refundAddress?: TokenAddress;
+  partiallyFillable: boolean;
+  maxSlippageBps?: number;
+  minBuyAmountPerUnit?: string;
   status: SwapStatus;
   createdAt: number;
   expiresAt: number;
+  depositStatus?: DepositStatus;
+  depositSeenAt?: number;
+  depositConfirmedAt?: number;
   depositTxHash?: string;
+  depositorAddress?: TokenAddress;
   depositAmount?: string;
+  deposits?: DepositTransfer[];
+  /** Set when the deposit is sold in parts over a window */
+  twap?: TwapProgress;
+  /** Set for limit swaps */
+  limit?: LimitProgress;
+  /** The quote the swap is bound to; compare with actualBuyAmount */
+  quote?: BoundQuote;
+  /** Failed order submissions so far (retried with backoff) */
+  executionAttempts?: number;
+  nextAttemptAt?: number;
+  /** Every order submitted, oldest first (expired orders are replaced) */
+  orders?: SwapOrderSummary[];
   settlementTxHash?: string;
+  /** Bought across all orders */
   actualBuyAmount?: string;
+  /** Sold across all orders; below depositAmount if an order filled only in part */
+  executedSellAmount?: string;
   failureReason?: string;
   refundTxHash?: string;
+  /** Buy swaps: the unspent deposit refunded after settlement */
   refundAmount?: string;
 }
 
+export type SwapEventType =
+  | "created"
+  | "deposit_seen"
+  | "deposit_confirmed"
+  | "status_changed"
+  | "order_submitted"
+  | "order_status_changed"
+  | "order_filled"
+  | "refund_broadcast"
+  | "surplus_refunded"
+  | "surplus_refund_failed";
+
+export interface SwapTimelineEvent {
+  type: SwapEventType;
+  fromStatus?: SwapStatus;
+  toStatus?: SwapStatus;
+  details?: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface SwapTimelineResponse {
+  swapId: string;
+  events: SwapTimelineEvent[];
+}
+
+/**
+ * Body POSTed to a swap's webhookUrl. Verify it by recomputing
+ * `sha256=` + hex(HMAC-SHA256(webhookSecret, `${X-Webhook-Timestamp}.${body}`))
+ * and comparing with the X-Webhook-Signature header.
+ */
+export interface SwapWebhookPayload {
+  event: "swap.status_changed";
+  swapId: string;
+  fromStatus: SwapStatus;
+  toStatus: SwapStatus;
+  timestamp: number;
+  details?: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: number;
+  url: string;
+  payload: SwapWebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+  responseStatus?: number;
+  deliveredAt?: number;
+  createdAt: number;
+}
+
+export interface WebhookDeliveriesResponse {
+  swapId: string;
+  deliveries: WebhookDelivery[];
+}
+
 export interface ErrorResponse {
   error: string;
 }
@@ -145,11 +346,13 @@ export class SwapperClient {
   private async request<T>(
     method: "GET" | "POST",
     path: string,
-    body?: unknown
+    body?: unknown,
+    extraHeaders: Record<string, string> = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
     const headers: Record<string, string> = {
       ...this.headers,
+      ...extraHeaders,
     };
 
     if (body !== undefined) {
@@ -192,7 +395,7 @@ export class SwapperClient {
   }
 
   /**
-   * Get a quote for swapping CBBTC to another token
+   * Get a quote for swapping a sell token (CBBTC by default) to another token
    *
    * @param request - Quote parameters
    * @returns Quote with estimated output amount, or error if quote unavailable
@@ -214,7 +417,7 @@ export class SwapperClient {
    * Create a new swap
    *
    * @param request - Swap parameters including chain, token, and addresses
-   * @returns Swap details including the vault address to deposit CBBTC to
+   * @returns Swap details including the vault address to deposit the sell token to
    */
   async createSwap(request: CreateSwapRequest): Promise<CreateSwapResponse> {
     return this.request<CreateSwapResponse>("POST", "/swap", request);
@@ -232,24 +435,82 @@ export class SwapperClient {
   }
 
   /**
-   * Poll for swap completion
+   * Get the event history of a swap
    *
-   * @param swapId - The swap ID to poll
+   * @param swapId - The swap ID returned from createSwap
+   * @returns Status changes, deposit and order events, oldest first
+   * @throws SwapperClientError with status 404 if swap not found
+   */
+  async getSwapTimeline(swapId: string): Promise<SwapTimelineResponse> {
+    return this.request<SwapTimelineResponse>("GET", `/swap/${swapId}/timeline`);
+  }
+
+  /**
+   * List webhook deliveries for a swap, newest first
+   *
+   * @param swapId - The swap ID returned from createSwap
+   * @param webhookSecret - The webhookSecret the swap was created with
+   * @throws SwapperClientError with status 401 if the secret is wrong, 404 if swap not found
+   */
+  async getWebhookDeliveries(
+    swapId: string,
+    webhookSecret: string
+  ): Promise<WebhookDeliveriesResponse> {
+    return this.request<WebhookDeliveriesResponse>(
+      "GET",
+      `/swap/${swapId}/webhooks`,
+      undefined,
+      { "X-Webhook-Secret": webhookSecret }
+    );
+  }
+
+  /**
+   * Re-send a failed webhook delivery with a fresh retry budget
+   *
+   * @param swapId - The swap ID returned from createSwap
+   * @param deliveryId - ID from getWebhookDeliveries
+   * @param webhookSecret - The webhookSecret the swap was created with
+   * @throws SwapperClientError with status 401 if the secret is wrong,
+   *   404 if delivery not found, 409 if the delivery has not failed
+   */
+  async replayWebhookDelivery(
+    swapId: string,
+    deliveryId: number,
+    webhookSecret: string
+  ): Promise<WebhookDelivery> {
+    return this.request<WebhookDelivery>(
+      "POST",
+      `/swap/${swapId}/webhooks/${deliveryId}/replay`,
+      undefined,
+      { "X-Webhook-Secret": webhookSecret }
+    );
+  }
+
+  /**
+   * Wait for swap completion
+   *
+   * Polls GET /swap/:id by default. With `stream: true`, follows the
+   * GET /swap/:id/events Server-Sent Events stream instead and falls back
+   * to polling if the stream drops.
+   *
+   * @param swapId - The swap ID to wait for
    * @param options - Polling options
    * @returns Final swap status when complete, failed, expired, or refunded
    */
   async waitForSwap(
     swapId: string,
     options: {
+      /** Follow the SSE stream instead of polling (default: false) */
+      stream?: boolean;
       /** Polling interval in milliseconds (default: 5000) */
       intervalMs?: number;
       /** Maximum time to wait in milliseconds (default: 600000 / 10 minutes) */
       timeoutMs?: number;
-      /** Callback on each poll */
+      /** Callback on each poll or streamed update */
       onPoll?: (status: SwapStatusResponse) => void;
     } = {}
   ): Promise<SwapStatusResponse> {
-    const { intervalMs = 5000, timeoutMs = 600000, onPoll } = options;
+    const { stream = false, intervalMs = 5000, timeoutMs = 600000, onPoll } = options;
     const terminalStatuses: SwapStatus[] = [
       "complete",
       "failed",
@@ -259,6 +520,34 @@ export class SwapperClient {
 
     const startTime = Date.now();
 
+    if (stream) {
+      let last: SwapStatusResponse | undefined;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        for await (const status of this.streamSwapStatus(swapId, controller.signal)) {
+          last = status;
+          onPoll?.(status);
+          if (terminalStatuses.includes(status.status)) {
+            return status;
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new SwapperClientError(
+            `Timeout waiting for swap ${swapId} to complete`,
+            408,
+            last
+          );
+        }
+        // Stream failed (e.g. connection dropped) - fall back to polling
+      } finally {
+        clearTimeout(timer);
+        controller.abort();
+      }
+    }
+
     while (true) {
       const status = await this.getSwapStatus(swapId);
       onPoll?.(status);
@@ -278,6 +567,54 @@ export class SwapperClient {
       await new Promise((resolve) => setTimeout(resolve, intervalMs));
     }
   }
+
+  /**
+   * Read status updates from the swap's Server-Sent Events stream
+   *
+   * Yields the current status first, then every change. Ends when the
+   * server closes the stream (terminal status) or `signal` aborts.
+   */
+  private async *streamSwapStatus(
+    swapId: string,
+    signal: AbortSignal
+  ): AsyncGenerator<SwapStatusResponse> {
+    const response = await this.fetch(`${this.baseUrl}/swap/${swapId}/events`, {
+      headers: { ...this.headers, Accept: "text/event-stream" },
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new SwapperClientError(
+        `Failed to stream swap ${swapId}: ${response.status}`,
+        response.status
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; comments (keepalives) have no data
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const frame = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const data = frame
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice("data:".length).trimStart())
+          .join("\n");
+        if (data) {
+          yield JSON.parse(data) as SwapStatusResponse;
+        }
+      }
+    }
+  }
 }
 
 // ============================================================================
@@ -0,0 +1,15 @@
+CREATE TABLE "deposits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"swap_id" text NOT NULL,
+	"tx_hash" text NOT NULL,
+	"log_index" integer NOT NULL,
+	"from_address" text NOT NULL,
+	"amount" text NOT NULL,
+	"block_number" bigint NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "swaps" ALTER COLUMN "refund_address" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "deposits" ADD CONSTRAINT "deposits_swap_id_swaps_swap_id_fk" FOREIGN KEY ("swap_id") REFERENCES "public"."swaps"("swap_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_deposit_tx_log" ON "deposits" USING btree ("tx_hash","log_index");--> statement-breakpoint
+CREATE INDEX "idx_deposits_swap" ON "deposits" USING btree ("swap_id");
\ No newline at end of file
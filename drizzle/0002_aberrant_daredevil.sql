@@ -0,0 +1,5 @@
+CREATE TABLE "chain_cursors" (
+	"chain_id" integer PRIMARY KEY NOT NULL,
+	"last_block" bigint NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "swaps" ADD COLUMN "deposit_seen_at" timestamp;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "deposit_confirmed_at" timestamp;
\ No newline at end of file
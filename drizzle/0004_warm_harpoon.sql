@@ -0,0 +1,13 @@
+CREATE TYPE "public"."swap_event_type" AS ENUM('created', 'deposit_seen', 'deposit_confirmed', 'status_changed', 'order_submitted', 'order_status_changed', 'refund_broadcast');--> statement-breakpoint
+CREATE TABLE "swap_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"swap_id" text NOT NULL,
+	"type" "swap_event_type" NOT NULL,
+	"from_status" "swap_status",
+	"to_status" "swap_status",
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "swap_events" ADD CONSTRAINT "swap_events_swap_id_swaps_swap_id_fk" FOREIGN KEY ("swap_id") REFERENCES "public"."swaps"("swap_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_swap_events_swap" ON "swap_events" USING btree ("swap_id","id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."webhook_delivery_status" AS ENUM('pending', 'delivered', 'failed');--> statement-breakpoint
+CREATE TABLE "webhook_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"swap_id" text NOT NULL,
+	"url" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "webhook_delivery_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"last_attempt_at" timestamp,
+	"last_error" text,
+	"response_status" integer,
+	"delivered_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "webhook_url" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "webhook_secret" text;--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_swap_id_swaps_swap_id_fk" FOREIGN KEY ("swap_id") REFERENCES "public"."swaps"("swap_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_webhook_deliveries_due" ON "webhook_deliveries" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "idx_webhook_deliveries_swap" ON "webhook_deliveries" USING btree ("swap_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "swaps" ADD COLUMN "execution_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "next_attempt_at" timestamp;
\ No newline at end of file
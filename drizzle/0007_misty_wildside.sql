@@ -0,0 +1,13 @@
+CREATE TABLE "swap_orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"swap_id" text NOT NULL,
+	"order_uid" text NOT NULL,
+	"status" text NOT NULL,
+	"buy_amount" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "swap_orders_order_uid_unique" UNIQUE("order_uid")
+);
+--> statement-breakpoint
+ALTER TABLE "swap_orders" ADD CONSTRAINT "swap_orders_swap_id_swaps_swap_id_fk" FOREIGN KEY ("swap_id") REFERENCES "public"."swaps"("swap_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_swap_orders_swap" ON "swap_orders" USING btree ("swap_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TYPE "public"."swap_event_type" ADD VALUE 'order_filled' BEFORE 'refund_broadcast';--> statement-breakpoint
+ALTER TABLE "swap_orders" ADD COLUMN "executed_sell_amount" text;--> statement-breakpoint
+ALTER TABLE "swap_orders" ADD COLUMN "executed_buy_amount" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "partially_fillable" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "executed_sell_amount" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "swaps" ADD COLUMN "twap_parts" integer;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "twap_parts_filled" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "twap_next_part_at" timestamp;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "twap_ends_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "swaps" ADD COLUMN "max_slippage_bps" integer;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "min_buy_amount_per_unit" text;
\ No newline at end of file
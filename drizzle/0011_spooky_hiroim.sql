@@ -0,0 +1,16 @@
+CREATE TABLE "quotes" (
+	"quote_id" text PRIMARY KEY NOT NULL,
+	"cow_quote_id" text,
+	"chain_id" integer NOT NULL,
+	"sell_token" text NOT NULL,
+	"buy_token" text NOT NULL,
+	"sell_amount" text NOT NULL,
+	"buy_amount" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "quote_id" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "quoted_sell_amount" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "quoted_buy_amount" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD CONSTRAINT "swaps_quote_id_quotes_quote_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("quote_id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."swap_kind" AS ENUM('sell', 'buy');--> statement-breakpoint
+ALTER TYPE "public"."swap_event_type" ADD VALUE 'surplus_refunded';--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "kind" "swap_kind" DEFAULT 'sell' NOT NULL;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "buy_amount" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "surplus_refund_pending" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "swaps" ADD COLUMN "limit_buy_amount_per_unit" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "limit_market_buy_amount_per_unit" text;--> statement-breakpoint
+ALTER TABLE "swaps" ADD COLUMN "limit_checked_at" timestamp;
\ No newline at end of file
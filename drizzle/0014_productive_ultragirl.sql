@@ -0,0 +1 @@
+ALTER TABLE "swaps" ADD COLUMN "venue" text DEFAULT 'cow' NOT NULL;
\ No newline at end of file
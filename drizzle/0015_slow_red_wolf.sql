@@ -0,0 +1 @@
+ALTER TABLE "swaps" ADD COLUMN "refund_sent_at" timestamp;
\ No newline at end of file
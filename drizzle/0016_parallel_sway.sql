@@ -0,0 +1 @@
+ALTER TYPE "public"."swap_event_type" ADD VALUE 'surplus_refund_failed';
\ No newline at end of file
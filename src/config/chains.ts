@@ -1,8 +1,12 @@
-import type { ChainConfig, SupportedChainId } from "../types";
+import type { ChainConfig, DepositDetectionMode, SupportedChainId } from "../types";
 
 // Multicall3 is deployed at the same address on all chains via CREATE2
 const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11" as const;
 
+// Deposit detection strategy (multicall balance sweep by default)
+const DEPOSIT_DETECTION: DepositDetectionMode =
+  process.env.DEPOSIT_DETECTION === "events" ? "events" : "multicall";
+
 export const chains: Record<SupportedChainId, ChainConfig> = {
   1: {
     chainId: 1,
@@ -11,6 +15,9 @@ export const chains: Record<SupportedChainId, ChainConfig> = {
     multicall3: MULTICALL3_ADDRESS,
     pollingIntervalMs: 24_000, // ~2 blocks on Ethereum
     swapTtlMs: 12 * 60 * 60 * 1000, // 12 hours
+    blockTimeMs: 12_000,
+    confirmations: 3,
+    depositDetection: DEPOSIT_DETECTION,
   },
   8453: {
     chainId: 8453,
@@ -19,6 +26,9 @@ export const chains: Record<SupportedChainId, ChainConfig> = {
     multicall3: MULTICALL3_ADDRESS,
     pollingIntervalMs: 10_000, // ~5 block on Base
     swapTtlMs: 12 * 60 * 60 * 1000, // 12 hours
+    blockTimeMs: 2_000,
+    confirmations: 10, // ~20s, covers typical Base L2 reorg depth
+    depositDetection: DEPOSIT_DETECTION,
   },
 };
 
@@ -0,0 +1,175 @@
+import { formatUnits, parseUnits } from "viem";
+import type { SupportedChainId, Token } from "../types";
+import { NATIVE_ETH_ADDRESS, getTokenAddress } from "../types";
+import { deserializeToken } from "../utils/token";
+
+/**
+ * Sell token registry
+ *
+ * Every token a swap may sell, per chain. Swaps sell CBBTC unless the
+ * request names another registered token. A token's permit domain decides
+ * how the vault approves COW's vault relayer: tokens with EIP-2612 permits
+ * sign one into the order's pre-hooks, tokens without one (permit: null)
+ * send an on-chain approve paid for by the gas wallet. Native ETH is
+ * registered under the sentinel address; the vault wraps it to WETH and
+ * trades that, paying its own gas from the deposit.
+ *
+ * There is deliberately no Permit2 option: COW's vault relayer pulls sell
+ * tokens with a plain ERC20 transferFrom, and a Permit2 allowance is only
+ * spendable through Permit2 itself, so a Permit2 pre-hook can't authorize
+ * the relayer. Tokens without EIP-2612 use the approve flow instead.
+ */
+
+/**
+ * EIP-712 domain of a token's EIP-2612 permit
+ * (chainId and verifyingContract come from the chain and token address)
+ */
+export interface PermitDomain {
+  name: string;
+  version: string;
+}
+
+export interface SellTokenConfig {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+  permit: PermitDomain | null;
+  native?: boolean;      // Native ETH, wrapped by the vault before trading
+  minSellAmount: bigint; // Smaller deposits are refunded instead of swapped
+  maxSellAmount: bigint; // Larger deposits are refunded instead of swapped
+  twapMinSellAmount?: bigint; // Deposits at least this large are sold as a TWAP
+}
+
+// Sell token used when a request doesn't name one
+export const DEFAULT_SELL_TOKEN_SYMBOL = "CBBTC";
+
+// CBBTC (Coinbase Wrapped BTC) - FiatTokenV2 permits, same address on all chains
+const CBBTC: Omit<SellTokenConfig, "address"> = {
+  symbol: "CBBTC",
+  decimals: 8,
+  permit: { name: "Coinbase Wrapped BTC", version: "2" },
+  minSellAmount: parseUnits("0.0001", 8),
+  maxSellAmount: parseUnits("10", 8),
+  twapMinSellAmount: parseUnits("1", 8),
+};
+
+// USDC (Circle) - FiatTokenV2 permits
+const USDC: Omit<SellTokenConfig, "address"> = {
+  symbol: "USDC",
+  decimals: 6,
+  permit: { name: "USD Coin", version: "2" },
+  minSellAmount: parseUnits("10", 6),
+  maxSellAmount: parseUnits("1000000", 6),
+  twapMinSellAmount: parseUnits("100000", 6),
+};
+
+// USDT (Tether) - no permit
+const USDT: Omit<SellTokenConfig, "address"> = {
+  symbol: "USDT",
+  decimals: 6,
+  permit: null,
+  minSellAmount: parseUnits("10", 6),
+  maxSellAmount: parseUnits("1000000", 6),
+  twapMinSellAmount: parseUnits("100000", 6),
+};
+
+// WBTC (Wrapped BTC) - no permit
+const WBTC: Omit<SellTokenConfig, "address"> = {
+  symbol: "WBTC",
+  decimals: 8,
+  permit: null,
+  minSellAmount: parseUnits("0.0001", 8),
+  maxSellAmount: parseUnits("10", 8),
+  twapMinSellAmount: parseUnits("1", 8),
+};
+
+// Native ETH - traded as WETH
+const ETH: Omit<SellTokenConfig, "address"> = {
+  symbol: "ETH",
+  decimals: 18,
+  permit: null,
+  native: true,
+  minSellAmount: parseUnits("0.01", 18),
+  maxSellAmount: parseUnits("500", 18),
+  twapMinSellAmount: parseUnits("50", 18),
+};
+
+// WETH9-style wrapped native token per chain
+export const WRAPPED_NATIVE_ADDRESSES: Record<SupportedChainId, `0x${string}`> = {
+  1: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",    // Ethereum Mainnet
+  8453: "0x4200000000000000000000000000000000000006", // Base
+};
+
+export const sellTokens: Record<SupportedChainId, SellTokenConfig[]> = {
+  1: [
+    { ...CBBTC, address: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf" },
+    { ...USDC, address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" },
+    { ...USDT, address: "0xdAC17F958D2ee523a2206206994597C13D831ec7" },
+    { ...WBTC, address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599" },
+    { ...ETH, address: NATIVE_ETH_ADDRESS },
+  ],
+  8453: [
+    { ...CBBTC, address: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf" },
+    { ...USDC, address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" },
+    { ...ETH, address: NATIVE_ETH_ADDRESS },
+  ],
+};
+
+/**
+ * Look up a sell token by address (case-insensitive)
+ * Returns undefined for tokens that can't be sold on the chain
+ */
+export function getSellTokenConfig(
+  chainId: SupportedChainId,
+  token: Token
+): SellTokenConfig | undefined {
+  const address = getTokenAddress(token).toLowerCase();
+  return sellTokens[chainId]?.find((config) => config.address.toLowerCase() === address);
+}
+
+/**
+ * Resolve the sell token named in a request (CBBTC when none is named)
+ * Returns undefined for tokens that can't be sold on the chain
+ */
+export function resolveSellToken(
+  chainId: SupportedChainId,
+  token?: Token
+): SellTokenConfig | undefined {
+  if (token) {
+    return getSellTokenConfig(chainId, token);
+  }
+  return sellTokens[chainId]?.find((config) => config.symbol === DEFAULT_SELL_TOKEN_SYMBOL);
+}
+
+/**
+ * Get the Token a registered sell token is stored and reported as
+ */
+export function toSellToken(config: SellTokenConfig): Token {
+  return deserializeToken(config.address);
+}
+
+/**
+ * Get the token a swap's orders actually sell
+ * Native ETH is wrapped before trading, so its orders sell WETH
+ */
+export function getTradedSellToken(chainId: SupportedChainId, token: Token): Token {
+  if (token.type === "ether") {
+    return { type: "erc20", address: WRAPPED_NATIVE_ADDRESSES[chainId] };
+  }
+  return token;
+}
+
+/**
+ * Check an amount against a sell token's limits
+ *
+ * @returns Why the amount can't be sold, or null if it's within limits
+ */
+export function checkSellAmountLimits(config: SellTokenConfig, amount: bigint): string | null {
+  if (amount < config.minSellAmount) {
+    return `Amount below minimum of ${formatUnits(config.minSellAmount, config.decimals)} ${config.symbol}`;
+  }
+  if (amount > config.maxSellAmount) {
+    return `Amount above maximum of ${formatUnits(config.maxSellAmount, config.decimals)} ${config.symbol}`;
+  }
+  return null;
+}
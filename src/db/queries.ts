@@ -1,12 +1,43 @@
-import { and, eq, gt, lt, sql } from "drizzle-orm";
-import { db } from "./client";
-import { swaps, type NewSwap, type Swap } from "./schema";
-import type { SwapStatus, CowOrderStatus } from "../types";
+import { and, asc, desc, eq, gt, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { db, type Database } from "./client";
+import {
+  swaps,
+  deposits,
+  chainCursors,
+  swapEvents,
+  swapOrders,
+  webhookDeliveries,
+  quotes,
+  type NewQuote,
+  type NewSwap,
+  type Quote,
+  type Swap,
+  type Deposit,
+  type SwapEvent,
+  type SwapOrder,
+  type WebhookDelivery,
+} from "./schema";
+import { IllegalTransitionError, isValidTransition } from "./transitions";
+import { recordTransitionRejected } from "../services/metrics";
+import { publishSwapUpdate } from "../services/swap-updates";
+import type {
+  SwapStatus,
+  CowOrderStatus,
+  DepositTransfer,
+  SwapEventType,
+  SwapWebhookPayload,
+} from "../types";
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
 
 /**
  * Get all pending swaps for a chain that haven't expired
+ *
+ * Includes swaps whose execution failed transiently once their retry is
+ * due (they already have a confirmed deposit, so expiry doesn't apply).
  */
 export async function getPendingSwaps(chainId: number): Promise<Swap[]> {
+  const now = new Date();
   return db
     .select()
     .from(swaps)
@@ -14,7 +45,8 @@ export async function getPendingSwaps(chainId: number): Promise<Swap[]> {
       and(
         eq(swaps.chainId, chainId),
         eq(swaps.status, "pending_deposit"),
-        gt(swaps.expiresAt, new Date())
+        or(gt(swaps.expiresAt, now), isNotNull(swaps.depositConfirmedAt)),
+        or(isNull(swaps.nextAttemptAt), lte(swaps.nextAttemptAt, now))
       )
     );
 }
@@ -34,6 +66,22 @@ export async function getRefundPendingSwaps(chainId: number): Promise<Swap[]> {
     );
 }
 
+/**
+ * Get completed buy swaps whose unspent deposit is still to be refunded
+ */
+export async function getSurplusRefundSwaps(chainId: number): Promise<Swap[]> {
+  return db
+    .select()
+    .from(swaps)
+    .where(
+      and(
+        eq(swaps.chainId, chainId),
+        eq(swaps.status, "complete"),
+        eq(swaps.surplusRefundPending, true)
+      )
+    );
+}
+
 /**
  * Get a swap by ID
  */
@@ -64,86 +112,333 @@ export async function getSwapByVaultAddress(
  * Create a new swap
  */
 export async function createSwap(swap: NewSwap): Promise<Swap> {
-  const results = await db.insert(swaps).values(swap).returning();
+  return db.transaction(async (tx) => {
+    const results = await tx.insert(swaps).values(swap).returning();
+    const result = results[0];
+    if (!result) {
+      throw new Error("Failed to create swap");
+    }
+    await tx.insert(swapEvents).values({
+      swapId: result.swapId,
+      type: "created",
+      toStatus: result.status,
+    });
+    return result;
+  });
+}
+
+// ============================================
+// Quote Queries
+// ============================================
+
+/**
+ * Store a quote returned by POST /quote
+ */
+export async function createQuote(quote: NewQuote): Promise<Quote> {
+  const results = await db.insert(quotes).values(quote).returning();
   const result = results[0];
   if (!result) {
-    throw new Error("Failed to create swap");
+    throw new Error("Failed to create quote");
   }
   return result;
 }
 
 /**
- * Update swap status
+ * Get a quote by ID
  */
-export async function updateSwapStatus(
+export async function getQuoteById(quoteId: string): Promise<Quote | undefined> {
+  const results = await db
+    .select()
+    .from(quotes)
+    .where(eq(quotes.quoteId, quoteId))
+    .limit(1);
+  return results[0];
+}
+
+// ============================================
+// Swap Event History Queries
+// ============================================
+
+/**
+ * Convert column updates into event details, dropping empty values
+ */
+function toEventDetails(updates: Record<string, unknown>): Record<string, unknown> | null {
+  const details = Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined && value !== null)
+  );
+  return Object.keys(details).length > 0 ? details : null;
+}
+
+/**
+ * Append an event to a swap's history
+ * Status changes are recorded by transitionSwap; use this for everything else
+ */
+export async function recordSwapEvent(
   swapId: string,
-  status: SwapStatus
+  type: SwapEventType,
+  details: Record<string, unknown> = {}
 ): Promise<void> {
-  await db
+  await db.insert(swapEvents).values({
+    swapId,
+    type,
+    details: toEventDetails(details),
+  });
+  await publishSwapUpdate(swapId);
+}
+
+/**
+ * Queue a webhook notification for a status change, if the swap has a webhook
+ * Runs inside the status change's transaction so no transition is missed
+ */
+async function enqueueStatusWebhook(
+  tx: Transaction,
+  swap: { swapId: string; webhookUrl: string | null },
+  from: SwapStatus,
+  to: SwapStatus,
+  details: Record<string, unknown> | null
+): Promise<void> {
+  if (!swap.webhookUrl) {
+    return;
+  }
+
+  const payload: SwapWebhookPayload = {
+    event: "swap.status_changed",
+    swapId: swap.swapId,
+    fromStatus: from,
+    toStatus: to,
+    timestamp: Date.now(),
+    ...(details ? { details } : {}),
+  };
+
+  await tx.insert(webhookDeliveries).values({
+    swapId: swap.swapId,
+    url: swap.webhookUrl,
+    payload,
+  });
+}
+
+/**
+ * Get a swap's event history, oldest first
+ */
+export async function getSwapEvents(swapId: string): Promise<SwapEvent[]> {
+  return db
+    .select()
+    .from(swapEvents)
+    .where(eq(swapEvents.swapId, swapId))
+    .orderBy(asc(swapEvents.id));
+}
+
+/**
+ * Atomically move a swap from one status to another (compare-and-set)
+ *
+ * The update only applies if the row is still in `from`, so two workers
+ * racing on the same swap can never both win. Returns false if the swap
+ * was no longer in `from` (lost race). Throws IllegalTransitionError if
+ * the state machine does not allow `from -> to`.
+ *
+ * @param swapId - The swap to update
+ * @param from - The status the caller expects the swap to be in
+ * @param to - The new status
+ * @param updates - Additional columns to set in the same write
+ */
+export async function transitionSwap(
+  swapId: string,
+  from: SwapStatus,
+  to: SwapStatus,
+  updates: Partial<Omit<Swap, "swapId" | "status">> = {}
+): Promise<boolean> {
+  if (!isValidTransition(from, to)) {
+    recordTransitionRejected(from, to, "illegal");
+    throw new IllegalTransitionError(swapId, from, to);
+  }
+
+  // Status change and its history event are written together
+  const applied = await db.transaction(async (tx) => {
+    const results = await tx
+      .update(swaps)
+      .set({ ...updates, status: to, updatedAt: new Date() })
+      .where(and(eq(swaps.swapId, swapId), eq(swaps.status, from)))
+      .returning({ swapId: swaps.swapId, webhookUrl: swaps.webhookUrl });
+
+    const updated = results[0];
+    if (!updated) {
+      return false;
+    }
+
+    const details = toEventDetails(updates);
+    await tx.insert(swapEvents).values({
+      swapId,
+      type: "status_changed",
+      fromStatus: from,
+      toStatus: to,
+      details,
+    });
+    await enqueueStatusWebhook(tx, updated, from, to, details);
+    return true;
+  });
+
+  if (!applied) {
+    recordTransitionRejected(from, to, "lost_race");
+    console.warn(`[DB] Swap ${swapId} transition ${from} -> ${to} rejected: no longer ${from}`);
+    return false;
+  }
+
+  await publishSwapUpdate(swapId);
+  return true;
+}
+
+/**
+ * Mark a deposit as seen at the chain head (not yet confirmed)
+ * Only the first sighting is recorded
+ */
+export async function markDepositSeen(swapId: string): Promise<void> {
+  const results = await db
     .update(swaps)
-    .set({ status, updatedAt: new Date() })
-    .where(eq(swaps.swapId, swapId));
+    .set({ depositSeenAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(swaps.swapId, swapId), isNull(swaps.depositSeenAt)))
+    .returning({ swapId: swaps.swapId });
+
+  if (results.length > 0) {
+    await recordSwapEvent(swapId, "deposit_seen");
+  }
 }
 
 /**
- * Record deposit details when detected
+ * Record confirmed deposit details
+ *
+ * Stores each resolved transfer and sets the swap's depositor and deposit
+ * tx hash from the first one. `transfers` may be empty if the transfers
+ * could not be resolved - the amount is still recorded.
  */
 export async function recordDeposit(
   swapId: string,
-  depositorAddress: string,
-  depositTxHash: string,
+  transfers: DepositTransfer[],
   depositAmount: string
 ): Promise<void> {
+  const first = transfers[0];
+
+  if (transfers.length > 0) {
+    await db
+      .insert(deposits)
+      .values(
+        transfers.map((transfer) => ({
+          swapId,
+          txHash: transfer.txHash,
+          logIndex: transfer.logIndex,
+          fromAddress: transfer.from,
+          amount: transfer.amount,
+          blockNumber: transfer.blockNumber,
+        }))
+      )
+      .onConflictDoNothing();
+  }
+
   await db
     .update(swaps)
     .set({
-      depositorAddress,
-      depositTxHash,
+      ...(first && {
+        depositorAddress: first.from,
+        depositTxHash: first.txHash,
+      }),
       depositAmount,
+      depositSeenAt: sql`coalesce(${swaps.depositSeenAt}, now())`,
+      depositConfirmedAt: new Date(),
       updatedAt: new Date(),
     })
     .where(eq(swaps.swapId, swapId));
+
+  await recordSwapEvent(swapId, "deposit_confirmed", {
+    depositAmount,
+    depositTxHash: first?.txHash,
+    depositorAddress: first?.from,
+    transfers: transfers.length,
+  });
 }
 
 /**
- * Mark swap as executing
+ * Get all recorded deposit transfers for a swap, in chain order
  */
-export async function markSwapExecuting(swapId: string): Promise<void> {
-  await updateSwapStatus(swapId, "executing");
+export async function getDepositsForSwap(swapId: string): Promise<Deposit[]> {
+  return db
+    .select()
+    .from(deposits)
+    .where(eq(deposits.swapId, swapId))
+    .orderBy(deposits.blockNumber, deposits.logIndex);
+}
+
+/**
+ * Claim a funded swap for execution
+ * Returns false if another worker already claimed it
+ *
+ * @param from - pending_deposit, or expired for late deposits
+ */
+export async function markSwapExecuting(
+  swapId: string,
+  from: "pending_deposit" | "expired" = "pending_deposit"
+): Promise<boolean> {
+  return transitionSwap(swapId, from, "executing");
 }
 
 /**
- * Mark swap as failed and pending refund
+ * Mark an executing swap as failed and pending refund
  */
 export async function markSwapFailedNeedsRefund(
   swapId: string,
   failureReason: string
-): Promise<void> {
-  await db
-    .update(swaps)
-    .set({
-      status: "refund_pending",
-      failureReason,
-      updatedAt: new Date(),
-    })
-    .where(eq(swaps.swapId, swapId));
+): Promise<boolean> {
+  return transitionSwap(swapId, "executing", "refund_pending", { failureReason });
 }
 
 /**
- * Mark swap as failed (no deposit, no refund needed)
+ * Mark an executing swap as failed (no refund processing)
  */
 export async function markSwapFailed(
   swapId: string,
   failureReason: string
+): Promise<boolean> {
+  return transitionSwap(swapId, "executing", "failed", { failureReason });
+}
+
+/**
+ * Return a swap to pending_deposit after a transient submission failure
+ * The poller picks it up again once nextAttemptAt has passed.
+ */
+export async function scheduleExecutionRetry(
+  swapId: string,
+  executionAttempts: number,
+  nextAttemptAt: Date,
+  failureReason: string
+): Promise<boolean> {
+  return transitionSwap(swapId, "executing", "pending_deposit", {
+    executionAttempts,
+    nextAttemptAt,
+    failureReason,
+  });
+}
+
+/**
+ * Record a broadcast refund transaction before it is confirmed
+ * Lets the refund processor pick up where it left off instead of re-sending.
+ * Pass null to clear a reverted or dropped transaction for a resend.
+ */
+export async function recordRefundTransaction(
+  swapId: string,
+  refundTxHash: string | null,
+  refundAmount: string | null
 ): Promise<void> {
   await db
     .update(swaps)
     .set({
-      status: "failed",
-      failureReason,
+      refundTxHash,
+      refundAmount,
+      refundSentAt: refundTxHash ? new Date() : null,
       updatedAt: new Date(),
     })
     .where(eq(swaps.swapId, swapId));
+
+  if (refundTxHash) {
+    await recordSwapEvent(swapId, "refund_broadcast", { refundTxHash, refundAmount });
+  }
 }
 
 /**
@@ -153,55 +448,193 @@ export async function markSwapRefunded(
   swapId: string,
   refundTxHash: string,
   refundAmount: string
-): Promise<void> {
-  await db
+): Promise<boolean> {
+  return transitionSwap(swapId, "refund_pending", "refunded", {
+    refundTxHash,
+    refundAmount,
+  });
+}
+
+/**
+ * Mark a swap pending refund as failed when it can't be refunded
+ * (an empty vault, or no address to refund to)
+ */
+export async function markRefundFailed(
+  swapId: string,
+  failureReason: string
+): Promise<boolean> {
+  return transitionSwap(swapId, "refund_pending", "failed", { failureReason });
+}
+
+/**
+ * Mark a completed buy swap's surplus as refunded
+ * The swap stays complete. refundTxHash is null if the vault had nothing
+ * left to refund.
+ */
+export async function markSurplusRefunded(
+  swapId: string,
+  refundTxHash: string | null,
+  refundAmount: string
+): Promise<boolean> {
+  const results = await db
     .update(swaps)
     .set({
-      status: "refunded",
+      surplusRefundPending: false,
       refundTxHash,
       refundAmount,
       updatedAt: new Date(),
     })
-    .where(eq(swaps.swapId, swapId));
+    .where(
+      and(
+        eq(swaps.swapId, swapId),
+        eq(swaps.status, "complete"),
+        eq(swaps.surplusRefundPending, true)
+      )
+    )
+    .returning({ swapId: swaps.swapId });
+
+  if (results.length === 0) {
+    return false;
+  }
+
+  await recordSwapEvent(swapId, "surplus_refunded", { refundTxHash, refundAmount });
+  return true;
 }
 
 /**
- * Mark expired swaps - call periodically to clean up
- * Returns swaps that were expired (for refund processing)
+ * Give up on a completed buy swap's surplus refund
+ * The swap stays complete; the surplus stays in the vault for an operator
+ * to refund manually.
  */
-export async function markExpiredSwaps(): Promise<number> {
-  const result = await db
+export async function markSurplusRefundFailed(
+  swapId: string,
+  reason: string
+): Promise<boolean> {
+  const results = await db
     .update(swaps)
-    .set({ status: "expired", updatedAt: new Date() })
+    .set({ surplusRefundPending: false, updatedAt: new Date() })
     .where(
       and(
-        eq(swaps.status, "pending_deposit"),
-        lt(swaps.expiresAt, new Date())
+        eq(swaps.swapId, swapId),
+        eq(swaps.status, "complete"),
+        eq(swaps.surplusRefundPending, true)
       )
-    );
-  return result.count;
+    )
+    .returning({ swapId: swaps.swapId });
+
+  if (results.length === 0) {
+    return false;
+  }
+
+  await recordSwapEvent(swapId, "surplus_refund_failed", { reason });
+  return true;
 }
 
 /**
- * Get expired swaps that have deposits (need refunds)
+ * Mark expired swaps - call periodically to clean up
+ * Returns the number of swaps expired. Deposits that arrive later are
+ * picked up by the late-deposit sweep (see getRecentlyExpiredSwaps).
+ *
+ * This is a bulk pending_deposit -> expired transition; the status
+ * condition in the WHERE clause makes it compare-and-set per row.
  */
-export async function getExpiredSwapsWithDeposits(chainId: number): Promise<Swap[]> {
+export async function markExpiredSwaps(): Promise<number> {
+  const expiredIds = await db.transaction(async (tx) => {
+    const expired = await tx
+      .update(swaps)
+      .set({ status: "expired", updatedAt: new Date() })
+      .where(
+        and(
+          eq(swaps.status, "pending_deposit"),
+          lt(swaps.expiresAt, new Date()),
+          // Swaps awaiting an execution retry already have their deposit
+          isNull(swaps.depositConfirmedAt)
+        )
+      )
+      .returning({ swapId: swaps.swapId, webhookUrl: swaps.webhookUrl });
+
+    if (expired.length > 0) {
+      await tx.insert(swapEvents).values(
+        expired.map(({ swapId }) => ({
+          swapId,
+          type: "status_changed" as const,
+          fromStatus: "pending_deposit" as const,
+          toStatus: "expired" as const,
+        }))
+      );
+    }
+
+    for (const swap of expired) {
+      await enqueueStatusWebhook(tx, swap, "pending_deposit", "expired", null);
+    }
+
+    return expired.map(({ swapId }) => swapId);
+  });
+
+  for (const swapId of expiredIds) {
+    await publishSwapUpdate(swapId);
+  }
+
+  return expiredIds.length;
+}
+
+/**
+ * Get swaps on a chain that expired after `since`
+ * Used by the late-deposit sweep, which checks their vault balances
+ */
+export async function getRecentlyExpiredSwaps(
+  chainId: number,
+  since: Date
+): Promise<Swap[]> {
   return db
     .select()
     .from(swaps)
     .where(
       and(
         eq(swaps.chainId, chainId),
-        eq(swaps.status, "expired")
+        eq(swaps.status, "expired"),
+        gt(swaps.expiresAt, since)
       )
     );
 }
 
 /**
- * Mark expired swap as needing refund (if it has a deposit)
+ * Mark expired swap as needing refund (deposit arrived after expiry)
+ */
+export async function markExpiredForRefund(swapId: string): Promise<boolean> {
+  return transitionSwap(swapId, "expired", "refund_pending", {
+    failureReason: "Deposit received after swap expired",
+  });
+}
+
+// ============================================
+// Deposit Detection Cursor Queries
+// ============================================
+
+/**
+ * Get the last block scanned for deposit Transfer logs on a chain
+ * Returns undefined if the chain has never been scanned
+ */
+export async function getChainCursor(chainId: number): Promise<number | undefined> {
+  const results = await db
+    .select()
+    .from(chainCursors)
+    .where(eq(chainCursors.chainId, chainId))
+    .limit(1);
+  return results[0]?.lastBlock;
+}
+
+/**
+ * Save the last block scanned for deposit Transfer logs on a chain
  */
-export async function markExpiredForRefund(swapId: string): Promise<void> {
-  await updateSwapStatus(swapId, "refund_pending");
+export async function setChainCursor(chainId: number, lastBlock: number): Promise<void> {
+  await db
+    .insert(chainCursors)
+    .values({ chainId, lastBlock })
+    .onConflictDoUpdate({
+      target: chainCursors.chainId,
+      set: { lastBlock, updatedAt: new Date() },
+    });
 }
 
 // ============================================
@@ -220,16 +653,258 @@ export async function getExecutingSwaps(): Promise<Swap[]> {
  */
 export async function saveOrderUid(
   swapId: string,
-  cowOrderUid: string
+  cowOrderUid: string,
+  buyAmount?: string
 ): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(swaps)
+      .set({
+        cowOrderUid,
+        orderStatus: "OPEN",
+        nextAttemptAt: null,
+        failureReason: null,          // Clear the error of an earlier failed attempt
+        updatedAt: new Date(),
+      })
+      .where(eq(swaps.swapId, swapId));
+
+    await tx.insert(swapOrders).values({
+      swapId,
+      orderUid: cowOrderUid,
+      status: "OPEN",
+      buyAmount,
+    });
+  });
+
+  await recordSwapEvent(swapId, "order_submitted", { cowOrderUid });
+}
+
+/**
+ * Swap an expired order for its replacement (compare-and-set on the old UID)
+ * Returns false if the swap moved on (no longer executing that order).
+ */
+export async function replaceSwapOrder(
+  swapId: string,
+  previousOrderUid: string,
+  previousOrderStatus: CowOrderStatus,
+  cowOrderUid: string,
+  buyAmount?: string
+): Promise<boolean> {
+  const applied = await db.transaction(async (tx) => {
+    const results = await tx
+      .update(swaps)
+      .set({ cowOrderUid, orderStatus: "OPEN", updatedAt: new Date() })
+      .where(
+        and(
+          eq(swaps.swapId, swapId),
+          eq(swaps.status, "executing"),
+          eq(swaps.cowOrderUid, previousOrderUid)
+        )
+      )
+      .returning({ swapId: swaps.swapId });
+
+    if (results.length === 0) {
+      return false;
+    }
+
+    await tx
+      .update(swapOrders)
+      .set({ status: previousOrderStatus, updatedAt: new Date() })
+      .where(eq(swapOrders.orderUid, previousOrderUid));
+
+    await tx.insert(swapOrders).values({
+      swapId,
+      orderUid: cowOrderUid,
+      status: "OPEN",
+      buyAmount,
+    });
+    return true;
+  });
+
+  if (applied) {
+    await recordSwapEvent(swapId, "order_submitted", {
+      cowOrderUid,
+      replacesOrderUid: previousOrderUid,
+    });
+  }
+  return applied;
+}
+
+/**
+ * Get all orders submitted for a swap, oldest first
+ */
+export async function getSwapOrders(swapId: string): Promise<SwapOrder[]> {
+  return db
+    .select()
+    .from(swapOrders)
+    .where(eq(swapOrders.swapId, swapId))
+    .orderBy(asc(swapOrders.id));
+}
+
+/**
+ * Record how much of a swap's order has filled, summed over its trades
+ *
+ * Updates the order's history entry and the swap's totals across all of
+ * its orders (a partially filled order may be followed by another).
+ *
+ * @returns The swap's new totals, or null if the fill was already recorded
+ */
+export async function recordOrderFills(
+  swapId: string,
+  orderUid: string,
+  executedSellAmount: string,
+  executedBuyAmount: string
+): Promise<{ executedSellAmount: string; actualBuyAmount: string } | null> {
+  const totals = await db.transaction(async (tx) => {
+    const updated = await tx
+      .update(swapOrders)
+      .set({ executedSellAmount, executedBuyAmount, updatedAt: new Date() })
+      .where(
+        and(
+          eq(swapOrders.swapId, swapId),
+          eq(swapOrders.orderUid, orderUid),
+          sql`${swapOrders.executedSellAmount} IS DISTINCT FROM ${executedSellAmount}`
+        )
+      )
+      .returning({ id: swapOrders.id });
+
+    if (updated.length === 0) {
+      return null;
+    }
+
+    const orders = await tx
+      .select({
+        executedSellAmount: swapOrders.executedSellAmount,
+        executedBuyAmount: swapOrders.executedBuyAmount,
+      })
+      .from(swapOrders)
+      .where(eq(swapOrders.swapId, swapId));
+
+    const sum = (amounts: (string | null)[]) =>
+      amounts.reduce((total, amount) => total + BigInt(amount ?? "0"), 0n).toString();
+    const totals = {
+      executedSellAmount: sum(orders.map((order) => order.executedSellAmount)),
+      actualBuyAmount: sum(orders.map((order) => order.executedBuyAmount)),
+    };
+
+    await tx
+      .update(swaps)
+      .set({ ...totals, updatedAt: new Date() })
+      .where(eq(swaps.swapId, swapId));
+
+    return totals;
+  });
+
+  if (totals) {
+    await recordSwapEvent(swapId, "order_filled", {
+      orderUid,
+      executedSellAmount,
+      executedBuyAmount,
+    });
+  }
+  return totals;
+}
+
+/**
+ * Plan a swap's TWAP execution before its first child order is submitted
+ * No-op if the swap already has a plan (e.g. on a retry).
+ *
+ * @returns The swap with its plan, or null if it is no longer executing
+ */
+export async function startTwap(
+  swapId: string,
+  twapParts: number,
+  twapEndsAt: Date
+): Promise<Swap | null> {
   await db
+    .update(swaps)
+    .set({ twapParts, twapEndsAt, updatedAt: new Date() })
+    .where(
+      and(eq(swaps.swapId, swapId), eq(swaps.status, "executing"), isNull(swaps.twapParts))
+    );
+
+  const [swap] = await db
+    .select()
+    .from(swaps)
+    .where(and(eq(swaps.swapId, swapId), eq(swaps.status, "executing")));
+  return swap ?? null;
+}
+
+/**
+ * Record a filled TWAP child order while later parts are still to come
+ * The swap stays executing; the next part is due at nextPartAt.
+ * Compare-and-set on the child's UID, so each part is only counted once.
+ */
+export async function recordTwapPartFilled(
+  swapId: string,
+  orderUid: string,
+  nextPartAt: Date,
+  settlementTxHash?: string
+): Promise<boolean> {
+  const twapPartsFilled = await db.transaction(async (tx) => {
+    const results = await tx
+      .update(swaps)
+      .set({
+        orderStatus: "FULFILLED",
+        twapPartsFilled: sql`${swaps.twapPartsFilled} + 1`,
+        twapNextPartAt: nextPartAt,
+        ...(settlementTxHash ? { settlementTxHash } : {}),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(swaps.swapId, swapId),
+          eq(swaps.status, "executing"),
+          eq(swaps.cowOrderUid, orderUid),
+          sql`${swaps.orderStatus} IS DISTINCT FROM 'FULFILLED'`
+        )
+      )
+      .returning({ twapPartsFilled: swaps.twapPartsFilled });
+
+    const updated = results[0];
+    if (!updated) {
+      return null;
+    }
+
+    await tx
+      .update(swapOrders)
+      .set({ status: "FULFILLED", updatedAt: new Date() })
+      .where(eq(swapOrders.orderUid, orderUid));
+    return updated.twapPartsFilled;
+  });
+
+  if (twapPartsFilled === null) {
+    return false;
+  }
+
+  await recordSwapEvent(swapId, "order_status_changed", {
+    orderStatus: "FULFILLED",
+    twapPartsFilled,
+  });
+  return true;
+}
+
+/**
+ * Record the market price last seen for an executing limit swap
+ * Not an event: the check runs every few minutes while the order waits.
+ */
+export async function recordLimitMarketPrice(
+  swapId: string,
+  marketBuyAmountPerUnit: string
+): Promise<void> {
+  const results = await db
     .update(swaps)
     .set({
-      cowOrderUid,
-      orderStatus: "OPEN",
+      limitMarketBuyAmountPerUnit: marketBuyAmountPerUnit,
+      limitCheckedAt: new Date(),
       updatedAt: new Date(),
     })
-    .where(eq(swaps.swapId, swapId));
+    .where(and(eq(swaps.swapId, swapId), eq(swaps.status, "executing")))
+    .returning({ swapId: swaps.swapId });
+
+  if (results.length > 0) {
+    await publishSwapUpdate(swapId);
+  }
 }
 
 /**
@@ -237,17 +912,34 @@ export async function saveOrderUid(
  * Automatically transitions swap status based on order status:
  * - FULFILLED → complete
  * - EXPIRED/CANCELLED → refund_pending (with failure reason)
+ *
+ * Only applies while the swap is still executing. Returns false if the
+ * swap was moved on by someone else in the meantime.
+ *
+ * @param failureReason - Overrides the default reason for EXPIRED/CANCELLED orders
+ * @param surplusRefundPending - Refund the vault's unspent deposit once
+ * FULFILLED (buy swaps)
  */
 export async function updateCowOrderStatus(
   swapId: string,
   orderStatus: CowOrderStatus,
   settlementTxHash?: string,
-  actualBuyAmount?: string
-): Promise<void> {
-  const updates: Partial<Swap> & { updatedAt: Date } = {
-    orderStatus,
-    updatedAt: new Date(),
-  };
+  actualBuyAmount?: string,
+  failureReason?: string,
+  surplusRefundPending = false
+): Promise<boolean> {
+  const updates: Partial<Swap> = { orderStatus };
+
+  // Keep the current order's history entry in step
+  await db
+    .update(swapOrders)
+    .set({ status: orderStatus, updatedAt: new Date() })
+    .where(
+      and(
+        eq(swapOrders.swapId, swapId),
+        sql`${swapOrders.orderUid} = (SELECT ${swaps.cowOrderUid} FROM ${swaps} WHERE ${swaps.swapId} = ${swapId})`
+      )
+    );
 
   if (settlementTxHash) {
     updates.settlementTxHash = settlementTxHash;
@@ -259,16 +951,166 @@ export async function updateCowOrderStatus(
 
   // Auto-transition swap status based on order status
   if (orderStatus === "FULFILLED") {
-    updates.status = "complete";
+    return transitionSwap(swapId, "executing", "complete", {
+      ...updates,
+      ...(surplusRefundPending ? { surplusRefundPending } : {}),
+    });
   } else if (orderStatus === "EXPIRED") {
-    updates.status = "refund_pending";
-    updates.failureReason = "COWSwap order expired without being filled";
+    return transitionSwap(swapId, "executing", "refund_pending", {
+      ...updates,
+      failureReason: failureReason ?? "COWSwap order expired without being filled",
+    });
   } else if (orderStatus === "CANCELLED") {
-    updates.status = "refund_pending";
-    updates.failureReason = "COWSwap order was cancelled";
+    return transitionSwap(swapId, "executing", "refund_pending", {
+      ...updates,
+      failureReason: failureReason ?? "COWSwap order was cancelled",
+    });
   }
 
-  await db.update(swaps).set(updates).where(eq(swaps.swapId, swapId));
+  // Non-terminal order status: no swap status change
+  const results = await db
+    .update(swaps)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(swaps.swapId, swapId), eq(swaps.status, "executing")))
+    .returning({ swapId: swaps.swapId });
+
+  if (results.length === 0) {
+    return false;
+  }
+
+  await recordSwapEvent(swapId, "order_status_changed", { orderStatus });
+  return true;
+}
+
+// ============================================
+// Webhook Delivery Queries
+// ============================================
+
+/**
+ * Get pending webhook deliveries whose next attempt is due, oldest first
+ */
+export async function getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      )
+    )
+    .orderBy(asc(webhookDeliveries.id))
+    .limit(limit);
+}
+
+/**
+ * Get the webhook secret for a swap
+ */
+export async function getWebhookSecret(swapId: string): Promise<string | null> {
+  const results = await db
+    .select({ webhookSecret: swaps.webhookSecret })
+    .from(swaps)
+    .where(eq(swaps.swapId, swapId))
+    .limit(1);
+  return results[0]?.webhookSecret ?? null;
+}
+
+/**
+ * Mark a webhook delivery as successfully delivered
+ */
+export async function markWebhookDelivered(
+  deliveryId: number,
+  responseStatus: number
+): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: "delivered",
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      lastAttemptAt: new Date(),
+      lastError: null,
+      responseStatus,
+      deliveredAt: new Date(),
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+}
+
+/**
+ * Record a failed webhook delivery attempt
+ *
+ * @param nextAttemptAt - When to retry, or null to give up (status becomes failed)
+ */
+export async function markWebhookAttemptFailed(
+  deliveryId: number,
+  error: string,
+  responseStatus: number | null,
+  nextAttemptAt: Date | null
+): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: nextAttemptAt ? "pending" : "failed",
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      lastAttemptAt: new Date(),
+      lastError: error,
+      responseStatus,
+      ...(nextAttemptAt ? { nextAttemptAt } : {}),
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+}
+
+/**
+ * Get all webhook deliveries for a swap, newest first
+ */
+export async function getWebhookDeliveriesForSwap(swapId: string): Promise<WebhookDelivery[]> {
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.swapId, swapId))
+    .orderBy(desc(webhookDeliveries.id));
+}
+
+/**
+ * Get a single webhook delivery of a swap
+ */
+export async function getWebhookDelivery(
+  swapId: string,
+  deliveryId: number
+): Promise<WebhookDelivery | undefined> {
+  const results = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.swapId, swapId)))
+    .limit(1);
+  return results[0];
+}
+
+/**
+ * Re-queue a failed webhook delivery for immediate sending with a fresh
+ * retry budget
+ * Returns the updated delivery, or undefined if it does not belong to the
+ * swap or has not failed (pending and delivered ones are left alone)
+ */
+export async function replayWebhookDelivery(
+  swapId: string,
+  deliveryId: number
+): Promise<WebhookDelivery | undefined> {
+  const results = await db
+    .update(webhookDeliveries)
+    .set({
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    })
+    .where(
+      and(
+        eq(webhookDeliveries.id, deliveryId),
+        eq(webhookDeliveries.swapId, swapId),
+        eq(webhookDeliveries.status, "failed")
+      )
+    )
+    .returning();
+  return results[0];
 }
 
 // ============================================
@@ -1,4 +1,17 @@
-import { pgTable, text, integer, timestamp, pgEnum, index } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  integer,
+  bigint,
+  serial,
+  timestamp,
+  pgEnum,
+  index,
+  uniqueIndex,
+  jsonb,
+  boolean,
+} from "drizzle-orm/pg-core";
+import type { SwapWebhookPayload } from "../types";
 
 export const swapStatusEnum = pgEnum("swap_status", [
   "pending_deposit",
@@ -10,6 +23,44 @@ export const swapStatusEnum = pgEnum("swap_status", [
   "refunded",
 ]);
 
+// "sell": sell the whole deposit; "buy": buy an exact amount from it
+export const swapKindEnum = pgEnum("swap_kind", ["sell", "buy"]);
+
+export const swapEventTypeEnum = pgEnum("swap_event_type", [
+  "created",
+  "deposit_seen",
+  "deposit_confirmed",
+  "status_changed",
+  "order_submitted",
+  "order_status_changed",
+  "order_filled",
+  "refund_broadcast",
+  "surplus_refunded",
+  "surplus_refund_failed",
+]);
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "pending",
+  "delivered",
+  "failed",
+]);
+
+// Quotes returned by POST /quote, which a swap may be bound to
+export const quotes = pgTable("quotes", {
+  quoteId: text("quote_id").primaryKey(),
+  cowQuoteId: text("cow_quote_id"),             // COWSwap's quote ID, when it returns one
+  chainId: integer("chain_id").notNull(),
+  sellToken: text("sell_token").notNull(),
+  buyToken: text("buy_token").notNull(),
+  sellAmount: text("sell_amount").notNull(),
+  buyAmount: text("buy_amount").notNull(),      // Buy amount estimate for sellAmount
+  expiresAt: timestamp("expires_at").notNull(), // Swaps can't be bound to it afterward
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type Quote = typeof quotes.$inferSelect;
+export type NewQuote = typeof quotes.$inferInsert;
+
 export const swaps = pgTable(
   "swaps",
   {
@@ -19,22 +70,51 @@ export const swaps = pgTable(
     vaultSalt: text("vault_salt").notNull(),  // Salt for deriving private key (not the key itself)
     sellToken: text("sell_token").notNull(),
     buyToken: text("buy_token").notNull(),
+    kind: swapKindEnum("kind").notNull().default("sell"),
+    buyAmount: text("buy_amount"),                 // Exact amount to buy (buy swaps only)
+    venue: text("venue").notNull().default("cow"), // Venue the swap's orders are placed on
     recipientAddress: text("recipient_address").notNull(),
-    refundAddress: text("refund_address").notNull(),
+    refundAddress: text("refund_address"),         // Falls back to depositorAddress when not set
     status: swapStatusEnum("status").notNull().default("pending_deposit"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     expiresAt: timestamp("expires_at").notNull(),
+
+    // Status change notifications (optional)
+    webhookUrl: text("webhook_url"),
+    webhookSecret: text("webhook_secret"),        // HMAC key for signing webhook payloads
     
     // Deposit tracking
+    depositSeenAt: timestamp("deposit_seen_at"),           // Balance first seen at the chain head
+    depositConfirmedAt: timestamp("deposit_confirmed_at"), // Balance reached confirmation depth
     depositorAddress: text("depositor_address"),
     depositTxHash: text("deposit_tx_hash"),
     depositAmount: text("deposit_amount"),
     
     // Execution tracking
+    executionAttempts: integer("execution_attempts").notNull().default(0), // Failed order submissions
+    nextAttemptAt: timestamp("next_attempt_at"),  // Earliest retry after a transient failure
+    partiallyFillable: boolean("partially_fillable").notNull().default(false), // Orders may fill in parts
+    maxSlippageBps: integer("max_slippage_bps"),  // Caps the recommended slippage tolerance
+    minBuyAmountPerUnit: text("min_buy_amount_per_unit"), // Buy token floor per whole sell token
+    quoteId: text("quote_id").references(() => quotes.quoteId), // Quote whose price the swap is bound to
+    quotedSellAmount: text("quoted_sell_amount"), // The bound quote's amounts (its price)
+    quotedBuyAmount: text("quoted_buy_amount"),
     cowOrderUid: text("cow_order_uid"),           // COWSwap order UID (56 bytes hex)
     orderStatus: text("order_status"),            // COWSwap order status: OPEN, FULFILLED, etc.
     settlementTxHash: text("settlement_tx_hash"), // Transaction that filled the order
-    actualBuyAmount: text("actual_buy_amount"),
+    actualBuyAmount: text("actual_buy_amount"),   // Total bought across all orders
+    executedSellAmount: text("executed_sell_amount"), // Total sold across all orders
+
+    // TWAP execution (large deposits sold as a series of child orders)
+    twapParts: integer("twap_parts"),             // Child orders planned; null unless TWAP
+    twapPartsFilled: integer("twap_parts_filled").notNull().default(0),
+    twapNextPartAt: timestamp("twap_next_part_at"), // Earliest submission of the next child order
+    twapEndsAt: timestamp("twap_ends_at"),        // End of the TWAP window; the remainder is refunded
+
+    // Limit orders (wait for a target price until expiresAt)
+    limitBuyAmountPerUnit: text("limit_buy_amount_per_unit"), // Target price: buy token per whole sell token
+    limitMarketBuyAmountPerUnit: text("limit_market_buy_amount_per_unit"), // Market price at the last check
+    limitCheckedAt: timestamp("limit_checked_at"),  // When the market was last checked against the limit
 
     // Failure tracking
     failureReason: text("failure_reason"),        // Human-readable reason for failure
@@ -42,6 +122,9 @@ export const swaps = pgTable(
     // Refund tracking
     refundTxHash: text("refund_tx_hash"),
     refundAmount: text("refund_amount"),
+    refundSentAt: timestamp("refund_sent_at"),    // When refundTxHash was broadcast
+    // Buy swaps: the unspent deposit is refunded after settlement (refund columns above)
+    surplusRefundPending: boolean("surplus_refund_pending").notNull().default(false),
     
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -56,3 +139,106 @@ export const swaps = pgTable(
 
 export type Swap = typeof swaps.$inferSelect;
 export type NewSwap = typeof swaps.$inferInsert;
+
+// Individual sell token transfers into a swap's vault
+export const deposits = pgTable(
+  "deposits",
+  {
+    id: serial("id").primaryKey(),
+    swapId: text("swap_id")
+      .notNull()
+      .references(() => swaps.swapId, { onDelete: "cascade" }),
+    txHash: text("tx_hash").notNull(),
+    logIndex: integer("log_index").notNull(),
+    fromAddress: text("from_address").notNull(),
+    amount: text("amount").notNull(),
+    blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // A transfer log is uniquely identified by its tx hash and log index
+    uniqueIndex("idx_deposit_tx_log").on(table.txHash, table.logIndex),
+    index("idx_deposits_swap").on(table.swapId),
+  ]
+);
+
+export type Deposit = typeof deposits.$inferSelect;
+export type NewDeposit = typeof deposits.$inferInsert;
+
+// Last block scanned for deposit Transfer logs, per chain (event-driven detection)
+export const chainCursors = pgTable("chain_cursors", {
+  chainId: integer("chain_id").primaryKey(),
+  lastBlock: bigint("last_block", { mode: "number" }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Append-only history of everything that happened to a swap
+export const swapEvents = pgTable(
+  "swap_events",
+  {
+    id: serial("id").primaryKey(),
+    swapId: text("swap_id")
+      .notNull()
+      .references(() => swaps.swapId, { onDelete: "cascade" }),
+    type: swapEventTypeEnum("type").notNull(),
+    fromStatus: swapStatusEnum("from_status"),    // Set for status_changed events
+    toStatus: swapStatusEnum("to_status"),
+    details: jsonb("details").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_swap_events_swap").on(table.swapId, table.id)]
+);
+
+export type SwapEvent = typeof swapEvents.$inferSelect;
+export type NewSwapEvent = typeof swapEvents.$inferInsert;
+
+// Every COWSwap order submitted for a swap, including expired ones that were replaced
+export const swapOrders = pgTable(
+  "swap_orders",
+  {
+    id: serial("id").primaryKey(),
+    swapId: text("swap_id")
+      .notNull()
+      .references(() => swaps.swapId, { onDelete: "cascade" }),
+    orderUid: text("order_uid").notNull().unique(),
+    status: text("status").notNull(),             // COWSwap order status: OPEN, EXPIRED, etc.
+    buyAmount: text("buy_amount"),                // Quoted buy amount at submission
+    executedSellAmount: text("executed_sell_amount"), // Filled so far, summed over its trades
+    executedBuyAmount: text("executed_buy_amount"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_swap_orders_swap").on(table.swapId)]
+);
+
+export type SwapOrder = typeof swapOrders.$inferSelect;
+export type NewSwapOrder = typeof swapOrders.$inferInsert;
+
+// Durable queue of outbound webhook notifications, one row per status change
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    swapId: text("swap_id")
+      .notNull()
+      .references(() => swaps.swapId, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    payload: jsonb("payload").$type<SwapWebhookPayload>().notNull(),
+    status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    lastError: text("last_error"),
+    responseStatus: integer("response_status"),   // HTTP status of the last attempt
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // Index for the webhook worker: WHERE status = 'pending' AND next_attempt_at <= now()
+    index("idx_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+    index("idx_webhook_deliveries_swap").on(table.swapId),
+  ]
+);
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
@@ -0,0 +1,51 @@
+import type { SwapStatus } from "../types";
+
+/**
+ * Swap status state machine
+ *
+ * The single source of truth for which status changes are allowed.
+ * Every status write in queries.ts goes through transitionSwap, which
+ * checks this table and only applies the change if the row is still
+ * in the expected from-status (compare-and-set).
+ */
+export const SWAP_STATUS_TRANSITIONS: Record<SwapStatus, readonly SwapStatus[]> = {
+  pending_deposit: ["executing", "expired"],
+  // Late deposits are either executed or refunded (see LATE_DEPOSIT_POLICY)
+  expired: ["executing", "refund_pending"],
+  // Back to pending_deposit to retry after a transient submission failure
+  executing: ["pending_deposit", "complete", "failed", "refund_pending"],
+  // Failed when there is nothing to refund, or nowhere to send it
+  refund_pending: ["refunded", "failed"],
+  complete: [],
+  failed: [],
+  refunded: [],
+};
+
+/**
+ * Check if a status change is allowed by the state machine
+ */
+export function isValidTransition(from: SwapStatus, to: SwapStatus): boolean {
+  return SWAP_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check if a status is final (no further transitions)
+ */
+export function isTerminalStatus(status: SwapStatus): boolean {
+  return SWAP_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Thrown when code attempts a status change the state machine forbids
+ * This is a programming error, unlike a lost race which is expected
+ */
+export class IllegalTransitionError extends Error {
+  constructor(
+    public readonly swapId: string,
+    public readonly from: SwapStatus,
+    public readonly to: SwapStatus
+  ) {
+    super(`Illegal swap status transition for ${swapId}: ${from} -> ${to}`);
+    this.name = "IllegalTransitionError";
+  }
+}
@@ -2,13 +2,20 @@ import { createApp } from "./app";
 import { runMigrations } from "./db/client";
 import { startAllPollers, stopAllPollers } from "./services/poller";
 import { startSettlementPoller, stopSettlementPoller } from "./services/settlement";
+import { startRefundPoller, stopRefundPoller } from "./services/refund";
+import { startWebhookWorker, stopWebhookWorker } from "./services/webhooks";
+import { startSwapUpdateListener, stopSwapUpdateListener } from "./services/swap-updates";
 import { startMetricsPush, stopMetricsPush } from "./services/metrics";
 import { initCowSdkAdapter } from "./services/cowswap-adapter";
+import { getDefaultVenue } from "./services/venues";
 import { initKeyDerivation } from "./services/key-derivation";
 
 // Initialize the COW SDK adapter before any COW SDK operations
 initCowSdkAdapter();
 
+// Fail fast on an unknown SWAP_VENUE
+getDefaultVenue();
+
 // Initialize the key derivation service (loads server key from file)
 initKeyDerivation();
 
@@ -17,6 +24,9 @@ const PORT = process.env.PORT || 3000;
 // Run migrations before starting the app
 await runMigrations();
 
+// Listen for swap updates from all replicas (for SSE subscribers)
+await startSwapUpdateListener();
+
 // Create and start the app
 const app = createApp().listen(PORT);
 
@@ -28,6 +38,12 @@ startAllPollers();
 // Start settlement poller for order tracking
 startSettlementPoller();
 
+// Start refund poller to return funds for refund_pending swaps
+startRefundPoller();
+
+// Start webhook worker to notify swap webhooks of status changes
+startWebhookWorker();
+
 // Start metrics push to Grafana Cloud (if configured)
 startMetricsPush();
 
@@ -36,6 +52,9 @@ process.on("SIGINT", () => {
   console.log("\n[Server] Shutting down...");
   stopAllPollers();
   stopSettlementPoller();
+  stopRefundPoller();
+  stopWebhookWorker();
+  stopSwapUpdateListener();
   stopMetricsPush();
   process.exit(0);
 });
@@ -44,6 +63,9 @@ process.on("SIGTERM", () => {
   console.log("\n[Server] Shutting down...");
   stopAllPollers();
   stopSettlementPoller();
+  stopRefundPoller();
+  stopWebhookWorker();
+  stopSwapUpdateListener();
   stopMetricsPush();
   process.exit(0);
 });
@@ -1,26 +1,55 @@
 import { Elysia, t } from "elysia";
-import { getQuote } from "../services/cowswap";
+import { getDefaultVenue } from "../services/venues";
+import { applySlippageToSellAmount, getSlippageTolerance } from "../services/slippage";
 import { createVaultWallet } from "../services/wallet";
+import { createQuote } from "../db/queries";
+import { serializeToken } from "../utils/token";
 import { isSupportedChainId } from "../config/chains";
-import { CBBTC_ADDRESSES } from "../config/constants";
+import {
+  checkSellAmountLimits,
+  getTradedSellToken,
+  resolveSellToken,
+  toSellToken,
+} from "../config/tokens";
 import type { QuoteResponse, SupportedChainId, Token } from "../types";
+import { getTokenAddress } from "../types";
 
 // Token schemas for validation - supports ERC20 and native ETH
 const erc20TokenSchema = t.Object({ type: t.Literal("erc20"), address: t.String() });
 const etherTokenSchema = t.Object({ type: t.Literal("ether") });
 const tokenSchema = t.Union([erc20TokenSchema, etherTokenSchema]);
 
-// Request schema - sellToken is always CBBTC (not specified by caller)
+// Request schema - sellToken defaults to CBBTC; sell quotes take a
+// sellAmount, buy quotes a buyAmount
 const quoteRequestSchema = t.Object({
   chainId: t.Number(),
+  sellToken: t.Optional(tokenSchema),
   buyToken: tokenSchema,
-  sellAmount: t.String(),
+  kind: t.Optional(t.Union([t.Literal("sell"), t.Literal("buy")])),
+  sellAmount: t.Optional(t.String()),
+  buyAmount: t.Optional(t.String()),
 });
 
+/**
+ * Parse a positive integer amount, or return null
+ */
+function parseAmount(amount: string | undefined): bigint | null {
+  if (amount === undefined) {
+    return null;
+  }
+  try {
+    const value = BigInt(amount);
+    return value > 0n ? value : null;
+  } catch {
+    return null;
+  }
+}
+
 export const quoteRoutes = new Elysia({ prefix: "/quote" }).post(
   "/",
   async ({ body, set }) => {
-    const { chainId, buyToken, sellAmount } = body;
+    const { chainId, sellToken, buyToken, buyAmount } = body;
+    const kind = body.kind ?? "sell";
 
     // Validate chain ID
     if (!isSupportedChainId(chainId)) {
@@ -28,15 +57,37 @@ export const quoteRoutes = new Elysia({ prefix: "/quote" }).post(
       return { error: `Unsupported chain ID: ${chainId}` };
     }
 
-    // Get CBBTC address for this chain (the only supported input token)
-    const cbbtcAddress = CBBTC_ADDRESSES[chainId];
-    if (!cbbtcAddress) {
+    // Look up the sell token in the registry
+    const sellTokenConfig = resolveSellToken(chainId, sellToken as Token | undefined);
+    if (!sellTokenConfig) {
       set.status = 400;
-      return { error: `CBBTC not supported on chain ${chainId}` };
+      return { error: `Unsupported sell token on chain ${chainId}` };
     }
 
-    // sellToken is always CBBTC
-    const sellTokenTyped: Token = { type: "erc20", address: cbbtcAddress };
+    // Sell quotes fix the sell amount, buy quotes the buy amount
+    let sellAmountValue: bigint | null = null;
+    let buyAmountValue: bigint | null = null;
+    if (kind === "sell") {
+      sellAmountValue = parseAmount(body.sellAmount);
+      if (sellAmountValue === null || buyAmount !== undefined) {
+        set.status = 400;
+        return { error: "Invalid sellAmount" };
+      }
+      // Enforce the token's sell limits
+      const limitError = checkSellAmountLimits(sellTokenConfig, sellAmountValue);
+      if (limitError) {
+        set.status = 400;
+        return { error: limitError };
+      }
+    } else {
+      buyAmountValue = parseAmount(buyAmount);
+      if (buyAmountValue === null || body.sellAmount !== undefined) {
+        set.status = 400;
+        return { error: "Invalid buyAmount" };
+      }
+    }
+
+    const sellTokenTyped = toSellToken(sellTokenConfig);
     const buyTokenTyped = buyToken as Token;
 
     // Create a temporary wallet for the quote (we need a "from" address)
@@ -44,20 +95,61 @@ export const quoteRoutes = new Elysia({ prefix: "/quote" }).post(
 
     try {
 
-      // Get quote from COW Protocol
-      const quote = await getQuote({
+      // Native ETH is quoted as the WETH the vault will sell
+      const tradedSellToken = getTradedSellToken(chainId, sellTokenTyped);
+
+      // Get quote from the venue new swaps trade on
+      const quote = await getDefaultVenue().getQuote({
         chainId: chainId as SupportedChainId,
-        sellToken: sellTokenTyped,
+        sellToken: tradedSellToken,
         buyToken: buyTokenTyped,
-        sellAmount,
+        ...(buyAmountValue !== null
+          ? { kind: "buy" as const, buyAmount: buyAmountValue.toString() }
+          : { sellAmount: String(sellAmountValue) }),
         from: tempWallet.address,
       });
 
+      // A buy quote's sell amount is what the order will need, fee included
+      let quotedSellAmount = quote.sellAmount;
+      let sellAmountMax: string | undefined;
+      if (kind === "buy") {
+        quotedSellAmount = (BigInt(quote.sellAmount) + BigInt(quote.feeAmount)).toString();
+
+        const limitError = checkSellAmountLimits(sellTokenConfig, BigInt(quotedSellAmount));
+        if (limitError) {
+          set.status = 400;
+          return { error: limitError };
+        }
+
+        // Depositing this much leaves room for the order's slippage
+        const slippageBps = await getSlippageTolerance(
+          chainId as SupportedChainId,
+          getTokenAddress(tradedSellToken),
+          getTokenAddress(buyTokenTyped)
+        );
+        sellAmountMax = applySlippageToSellAmount(quotedSellAmount, slippageBps);
+      }
+
+      // Stored so a swap can be bound to its price
+      const stored = await createQuote({
+        quoteId: Bun.randomUUIDv7(),
+        cowQuoteId: quote.venueQuoteId ?? null,
+        chainId,
+        sellToken: serializeToken(sellTokenTyped),
+        buyToken: serializeToken(buyTokenTyped),
+        sellAmount: quotedSellAmount,
+        buyAmount: quote.buyAmount,
+        expiresAt: new Date(quote.validTo * 1000),
+      });
+
       const response: QuoteResponse = {
-        quoteId: quote.quoteId,
+        quoteId: stored.quoteId,
         chainId: chainId as SupportedChainId,
+        sellToken: sellTokenTyped,
         buyToken: buyTokenTyped,
-        sellAmount: quote.sellAmount,
+        kind,
+        sellAmount: quotedSellAmount,
+        sellAmountMax,
         buyAmountEstimate: quote.buyAmount,
         expiresAt: quote.validTo * 1000, // Convert to milliseconds
         canFill: true,
@@ -1,16 +1,41 @@
 import { Elysia, t } from "elysia";
 import { getAddress, isAddress } from "viem";
 import { createVaultWallet } from "../services/wallet";
-import { createSwap, getSwapById } from "../db/queries";
+import {
+  createSwap,
+  getDepositsForSwap,
+  getQuoteById,
+  getSwapById,
+  getSwapEvents,
+  getSwapOrders,
+  getWebhookDeliveriesForSwap,
+  getWebhookDelivery,
+  replayWebhookDelivery,
+} from "../db/queries";
 import { getChainConfig, isSupportedChainId } from "../config/chains";
-import { CBBTC_ADDRESSES } from "../config/constants";
+import { resolveSellToken, toSellToken } from "../config/tokens";
+import { isGasWalletConfigured } from "../services/gas-wallet";
+import { getQuotedBuyAmount } from "../services/quote-binding";
+import { getLimitDistanceBps } from "../services/limit-orders";
+import { getDefaultVenue } from "../services/venues";
+import { checkWebhookUrl, isWebhookSecretValid } from "../services/webhooks";
 import type {
+  CowOrderStatus,
   CreateSwapResponse,
   SupportedChainId,
   SwapStatusResponse,
+  SwapTimelineResponse,
   Token,
+  WebhookDeliveriesResponse,
+  WebhookDeliveryResponse,
 } from "../types";
+import type { Quote, Swap, WebhookDelivery } from "../db/schema";
 import { serializeToken, deserializeToken } from "../utils/token";
+import { isTerminalStatus } from "../db/transitions";
+import { subscribeToSwap } from "../services/swap-updates";
+
+// Comment sent on idle SSE connections so proxies don't close them
+const SSE_KEEPALIVE_MS = 15_000;
 
 /**
  * Validate and normalize an Ethereum address to checksummed format.
@@ -23,17 +48,208 @@ function normalizeAddress(address: string): `0x${string}` | null {
   return getAddress(address);
 }
 
+// Header carrying the swap's webhookSecret on the webhook delivery endpoints
+const WEBHOOK_SECRET_HEADER = "x-webhook-secret";
+
+/**
+ * Convert a webhook delivery row to its API representation
+ */
+function toWebhookDeliveryResponse(delivery: WebhookDelivery): WebhookDeliveryResponse {
+  return {
+    id: delivery.id,
+    url: delivery.url,
+    payload: delivery.payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.status === "pending" ? delivery.nextAttemptAt.getTime() : undefined,
+    lastAttemptAt: delivery.lastAttemptAt?.getTime(),
+    lastError: delivery.lastError || undefined,
+    responseStatus: delivery.responseStatus ?? undefined,
+    deliveredAt: delivery.deliveredAt?.getTime(),
+    createdAt: delivery.createdAt.getTime(),
+  };
+}
+
+/**
+ * Build the API status representation of a swap, including its deposits
+ */
+async function toSwapStatusResponse(swap: Swap): Promise<SwapStatusResponse> {
+  const [deposits, orders] = await Promise.all([
+    getDepositsForSwap(swap.swapId),
+    getSwapOrders(swap.swapId),
+  ]);
+
+  return {
+    swapId: swap.swapId,
+    chainId: swap.chainId as SupportedChainId,
+    vaultAddress: swap.vaultAddress as `0x${string}`,
+    sellToken: deserializeToken(swap.sellToken),
+    buyToken: deserializeToken(swap.buyToken),
+    kind: swap.kind,
+    buyAmount: swap.buyAmount ?? undefined,
+    venue: swap.venue,
+    recipientAddress: swap.recipientAddress as `0x${string}`,
+    refundAddress: (swap.refundAddress as `0x${string}` | null) ?? undefined,
+    partiallyFillable: swap.partiallyFillable,
+    maxSlippageBps: swap.maxSlippageBps ?? undefined,
+    minBuyAmountPerUnit: swap.minBuyAmountPerUnit ?? undefined,
+    status: swap.status,
+    createdAt: swap.createdAt.getTime(),
+    expiresAt: swap.expiresAt.getTime(),
+    depositStatus: swap.depositConfirmedAt
+      ? "confirmed"
+      : swap.depositSeenAt
+        ? "seen"
+        : undefined,
+    depositSeenAt: swap.depositSeenAt?.getTime(),
+    depositConfirmedAt: swap.depositConfirmedAt?.getTime(),
+    depositTxHash: swap.depositTxHash || undefined,
+    depositorAddress: (swap.depositorAddress as `0x${string}` | null) || undefined,
+    depositAmount: swap.depositAmount || undefined,
+    deposits: deposits.length > 0
+      ? deposits.map((deposit) => ({
+          txHash: deposit.txHash as `0x${string}`,
+          logIndex: deposit.logIndex,
+          from: deposit.fromAddress as `0x${string}`,
+          amount: deposit.amount,
+          blockNumber: deposit.blockNumber,
+        }))
+      : undefined,
+    twap: swap.twapParts !== null
+      ? {
+          parts: swap.twapParts,
+          partsFilled: swap.twapPartsFilled,
+          nextPartAt: swap.orderStatus === "FULFILLED" ? swap.twapNextPartAt?.getTime() : undefined,
+          endsAt: swap.twapEndsAt?.getTime(),
+        }
+      : undefined,
+    limit: swap.limitBuyAmountPerUnit !== null
+      ? {
+          buyAmountPerUnit: swap.limitBuyAmountPerUnit,
+          marketBuyAmountPerUnit: swap.limitMarketBuyAmountPerUnit ?? undefined,
+          distanceBps: swap.limitMarketBuyAmountPerUnit !== null
+            ? getLimitDistanceBps(
+                BigInt(swap.limitBuyAmountPerUnit),
+                BigInt(swap.limitMarketBuyAmountPerUnit)
+              )
+            : undefined,
+          checkedAt: swap.limitCheckedAt?.getTime(),
+        }
+      : undefined,
+    quote: swap.quoteId && swap.quotedSellAmount && swap.quotedBuyAmount
+      ? {
+          quoteId: swap.quoteId,
+          sellAmount: swap.quotedSellAmount,
+          buyAmountEstimate: swap.quotedBuyAmount,
+          expectedBuyAmount: swap.depositAmount
+            ? getQuotedBuyAmount(swap, BigInt(swap.depositAmount))?.toString()
+            : undefined,
+        }
+      : undefined,
+    executionAttempts: swap.executionAttempts || undefined,
+    nextAttemptAt: swap.nextAttemptAt?.getTime(),
+    orders: orders.length > 0
+      ? orders.map((order) => ({
+          orderUid: order.orderUid,
+          status: order.status as CowOrderStatus,
+          buyAmount: order.buyAmount || undefined,
+          executedSellAmount: order.executedSellAmount || undefined,
+          executedBuyAmount: order.executedBuyAmount || undefined,
+          createdAt: order.createdAt.getTime(),
+        }))
+      : undefined,
+    settlementTxHash: swap.settlementTxHash || undefined,
+    actualBuyAmount: swap.actualBuyAmount || undefined,
+    executedSellAmount: swap.executedSellAmount || undefined,
+    failureReason: swap.failureReason || undefined,
+    refundTxHash: swap.refundTxHash || undefined,
+    refundAmount: swap.refundAmount || undefined,
+  };
+}
+
+/**
+ * Stream a swap's status as Server-Sent Events
+ *
+ * Sends the current SwapStatusResponse as a `status` event, then a new one
+ * whenever the swap is updated, and closes once the status is terminal.
+ */
+function createSwapStatusStream(swapId: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let keepalive: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const cleanup = () => {
+    closed = true;
+    unsubscribe?.();
+    if (keepalive) clearInterval(keepalive);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastSent = "";
+      // Refreshes run one at a time so events go out in order
+      let queue = Promise.resolve();
+
+      const refresh = async () => {
+        if (closed) return;
+        const swap = await getSwapById(swapId);
+        if (!swap || closed) return;
+
+        const data = JSON.stringify(await toSwapStatusResponse(swap));
+        if (closed) return;
+        if (data !== lastSent) {
+          lastSent = data;
+          controller.enqueue(encoder.encode(`event: status\ndata: ${data}\n\n`));
+        }
+
+        if (isTerminalStatus(swap.status)) {
+          cleanup();
+          controller.close();
+        }
+      };
+
+      const scheduleRefresh = () => {
+        queue = queue.then(refresh).catch((error) => {
+          console.error(`[Swap] Error streaming swap ${swapId}:`, error);
+        });
+      };
+
+      // Subscribe before the first read so no update is missed in between
+      unsubscribe = subscribeToSwap(swapId, scheduleRefresh);
+      keepalive = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": keepalive\n\n"));
+      }, SSE_KEEPALIVE_MS);
+      scheduleRefresh();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
+
 // Token schemas for validation - supports ERC20 and native ETH
 const erc20TokenSchema = t.Object({ type: t.Literal("erc20"), address: t.String() });
 const etherTokenSchema = t.Object({ type: t.Literal("ether") });
 const tokenSchema = t.Union([erc20TokenSchema, etherTokenSchema]);
 
-// Request schema - sellToken is always CBBTC, amount is determined by deposit
+// Request schema - sellToken defaults to CBBTC, amount is determined by deposit
+// (buy swaps fix the amount bought instead)
 const createSwapRequestSchema = t.Object({
   chainId: t.Number(),
+  sellToken: t.Optional(tokenSchema),
   buyToken: tokenSchema,
+  kind: t.Optional(t.Union([t.Literal("sell"), t.Literal("buy")])),
+  buyAmount: t.Optional(t.String()),
   recipientAddress: t.String(),
-  refundAddress: t.String(),
+  refundAddress: t.Optional(t.String()), // Defaults to the depositor, if a single wallet
+  webhookUrl: t.Optional(t.String()),
+  webhookSecret: t.Optional(t.String({ minLength: 16 })),
+  partiallyFillable: t.Optional(t.Boolean()),
+  maxSlippageBps: t.Optional(t.Number()),
+  minBuyAmountPerUnit: t.Optional(t.String()),
+  limitBuyAmountPerUnit: t.Optional(t.String()),
+  quoteId: t.Optional(t.String()),
 });
 
 export const swapRoutes = new Elysia({ prefix: "/swap" })
@@ -41,7 +257,22 @@ export const swapRoutes = new Elysia({ prefix: "/swap" })
   .post(
     "/",
     async ({ body, set }) => {
-      const { chainId, buyToken, recipientAddress, refundAddress } = body;
+      const {
+        chainId,
+        sellToken,
+        buyToken,
+        buyAmount,
+        recipientAddress,
+        refundAddress,
+        webhookUrl,
+        webhookSecret,
+        partiallyFillable,
+        maxSlippageBps,
+        minBuyAmountPerUnit,
+        limitBuyAmountPerUnit,
+        quoteId,
+      } = body;
+      const kind = body.kind ?? "sell";
 
       // Validate chain ID
       if (!isSupportedChainId(chainId)) {
@@ -49,15 +280,25 @@ export const swapRoutes = new Elysia({ prefix: "/swap" })
         return { error: `Unsupported chain ID: ${chainId}` };
       }
 
-      // Get CBBTC address for this chain (the only supported input token)
-      const cbbtcAddress = CBBTC_ADDRESSES[chainId];
-      if (!cbbtcAddress) {
+      // Look up the sell token in the registry (stored checksummed)
+      const sellTokenConfig = resolveSellToken(chainId, sellToken as Token | undefined);
+      if (!sellTokenConfig) {
+        set.status = 400;
+        return { error: `Unsupported sell token on chain ${chainId}` };
+      }
+      // Tokens without permits are approved on-chain with gas from the gas wallet
+      // (native ETH vaults pay their own gas from the deposit)
+      if (!sellTokenConfig.permit && !sellTokenConfig.native && !isGasWalletConfigured()) {
         set.status = 400;
-        return { error: `CBBTC not supported on chain ${chainId}` };
+        return { error: `Selling ${sellTokenConfig.symbol} requires the gas wallet, which is not configured` };
       }
+      const sellTokenTyped = toSellToken(sellTokenConfig);
 
-      // sellToken is always CBBTC
-      const sellTokenTyped: Token = { type: "erc20", address: cbbtcAddress };
+      // Native deposits have no Transfer logs to identify the depositor by
+      if (sellTokenConfig.native && refundAddress === undefined) {
+        set.status = 400;
+        return { error: "refundAddress is required when selling native ETH" };
+      }
 
       // Handle buyToken - can be ERC20 or native ETH
       let buyTokenTyped: Token;
@@ -80,14 +321,117 @@ export const swapRoutes = new Elysia({ prefix: "/swap" })
         return { error: "Invalid recipient address" };
       }
 
-      // Validate and normalize refund address
-      const normalizedRefund = normalizeAddress(refundAddress);
-      if (!normalizedRefund) {
+      // Validate and normalize refund address (optional - refunds default to the depositor)
+      let normalizedRefund: `0x${string}` | null = null;
+      if (refundAddress !== undefined) {
+        normalizedRefund = normalizeAddress(refundAddress);
+        if (!normalizedRefund) {
+          set.status = 400;
+          return { error: "Invalid refund address" };
+        }
+      }
+
+      // Validate webhook (optional - the secret is required to sign deliveries)
+      if (webhookUrl !== undefined) {
+        if (webhookSecret === undefined) {
+          set.status = 400;
+          return { error: "webhookSecret is required with webhookUrl" };
+        }
+        const webhookUrlError = await checkWebhookUrl(webhookUrl);
+        if (webhookUrlError) {
+          set.status = 400;
+          return { error: webhookUrlError };
+        }
+      } else if (webhookSecret !== undefined) {
+        set.status = 400;
+        return { error: "webhookSecret given without webhookUrl" };
+      }
+
+      // Validate price protection (optional)
+      if (
+        maxSlippageBps !== undefined &&
+        (!Number.isInteger(maxSlippageBps) || maxSlippageBps < 0 || maxSlippageBps >= 10_000)
+      ) {
+        set.status = 400;
+        return { error: "maxSlippageBps must be an integer from 0 to 9999" };
+      }
+      let minBuyAmountPerUnitValue: bigint | null = null;
+      if (minBuyAmountPerUnit !== undefined) {
+        try {
+          minBuyAmountPerUnitValue = BigInt(minBuyAmountPerUnit);
+        } catch {
+          minBuyAmountPerUnitValue = null;
+        }
+        if (minBuyAmountPerUnitValue === null || minBuyAmountPerUnitValue <= 0n) {
+          set.status = 400;
+          return { error: "Invalid minBuyAmountPerUnit" };
+        }
+      }
+
+      // Limit swaps wait for their own price instead of taking the market's
+      let limitBuyAmountPerUnitValue: bigint | null = null;
+      if (limitBuyAmountPerUnit !== undefined) {
+        try {
+          limitBuyAmountPerUnitValue = BigInt(limitBuyAmountPerUnit);
+        } catch {
+          limitBuyAmountPerUnitValue = null;
+        }
+        if (limitBuyAmountPerUnitValue === null || limitBuyAmountPerUnitValue <= 0n) {
+          set.status = 400;
+          return { error: "Invalid limitBuyAmountPerUnit" };
+        }
+        if (kind === "buy" || minBuyAmountPerUnit !== undefined || quoteId !== undefined) {
+          set.status = 400;
+          return {
+            error: "limitBuyAmountPerUnit can't be combined with buy swaps, minBuyAmountPerUnit or quoteId",
+          };
+        }
+      }
+
+      // Buy swaps buy an exact amount, in a single fill-or-kill order
+      let buyAmountValue: bigint | null = null;
+      if (kind === "buy") {
+        try {
+          buyAmountValue = buyAmount !== undefined ? BigInt(buyAmount) : null;
+        } catch {
+          buyAmountValue = null;
+        }
+        if (buyAmountValue === null || buyAmountValue <= 0n) {
+          set.status = 400;
+          return { error: "Invalid buyAmount" };
+        }
+        if (partiallyFillable || minBuyAmountPerUnit !== undefined) {
+          set.status = 400;
+          return { error: "Buy swaps can't be partially fillable or set minBuyAmountPerUnit" };
+        }
+      } else if (buyAmount !== undefined) {
         set.status = 400;
-        return { error: "Invalid refund address" };
+        return { error: "buyAmount is only allowed for buy swaps" };
       }
 
       try {
+        // Bind the swap to a quote's price (optional)
+        let quote: Quote | undefined;
+        if (quoteId !== undefined) {
+          quote = await getQuoteById(quoteId);
+          if (!quote) {
+            set.status = 400;
+            return { error: "Unknown quoteId" };
+          }
+          if (
+            quote.chainId !== chainId ||
+            quote.sellToken.toLowerCase() !== serializeToken(sellTokenTyped).toLowerCase() ||
+            quote.buyToken.toLowerCase() !== serializeToken(buyTokenTyped).toLowerCase()
+          ) {
+            set.status = 400;
+            return { error: "Quote is for a different chain or tokens" };
+          }
+          if (quote.expiresAt.getTime() <= Date.now()) {
+            set.status = 400;
+            return { error: "Quote has expired" };
+          }
+        }
+
         // Get chain config for TTL
         const chainConfig = getChainConfig(chainId as SupportedChainId);
 
@@ -112,8 +456,20 @@ export const swapRoutes = new Elysia({ prefix: "/swap" })
           vaultSalt: vaultWallet.salt,
           sellToken: serializeToken(sellTokenTyped),
           buyToken: serializeToken(buyTokenTyped),
+          kind,
+          buyAmount: buyAmountValue?.toString() ?? null,
+          venue: getDefaultVenue().id,
           recipientAddress: normalizedRecipient,
           refundAddress: normalizedRefund,
+          webhookUrl: webhookUrl ?? null,
+          webhookSecret: webhookSecret ?? null,
+          partiallyFillable: partiallyFillable ?? false,
+          maxSlippageBps: maxSlippageBps ?? null,
+          minBuyAmountPerUnit: minBuyAmountPerUnitValue?.toString() ?? null,
+          limitBuyAmountPerUnit: limitBuyAmountPerUnitValue?.toString() ?? null,
+          quoteId: quote?.quoteId ?? null,
+          quotedSellAmount: quote?.sellAmount ?? null,
+          quotedBuyAmount: quote?.buyAmount ?? null,
           status: "pending_deposit",
           expiresAt,
         });
@@ -122,9 +478,19 @@ export const swapRoutes = new Elysia({ prefix: "/swap" })
           swapId: swap.swapId,
           vaultAddress: swap.vaultAddress as `0x${string}`,
           chainId: swap.chainId as SupportedChainId,
+          sellToken: deserializeToken(swap.sellToken),
           buyToken: deserializeToken(swap.buyToken),
+          kind: swap.kind,
+          buyAmount: swap.buyAmount ?? undefined,
+          venue: swap.venue,
           recipientAddress: swap.recipientAddress as `0x${string}`,
-          refundAddress: swap.refundAddress as `0x${string}`,
+          refundAddress: (swap.refundAddress as `0x${string}` | null) ?? undefined,
+          webhookUrl: swap.webhookUrl ?? undefined,
+          partiallyFillable: swap.partiallyFillable,
+          maxSlippageBps: swap.maxSlippageBps ?? undefined,
+          minBuyAmountPerUnit: swap.minBuyAmountPerUnit ?? undefined,
+          limitBuyAmountPerUnit: swap.limitBuyAmountPerUnit ?? undefined,
+          quoteId: swap.quoteId ?? undefined,
           expiresAt: swap.expiresAt.getTime(),
           status: swap.status,
         };
@@ -152,29 +518,139 @@ export const swapRoutes = new Elysia({ prefix: "/swap" })
         return { error: "Swap not found" };
       }
 
-      const response: SwapStatusResponse = {
+      return await toSwapStatusResponse(swap);
+    } catch (error) {
+      console.error("[Swap] Error getting swap:", error);
+      set.status = 500;
+      return { error: "Failed to get swap" };
+    }
+  })
+  // Stream swap status updates (Server-Sent Events) until a terminal status
+  .get("/:id/events", async ({ params, set }) => {
+    const { id } = params;
+
+    try {
+      const swap = await getSwapById(id);
+
+      if (!swap) {
+        set.status = 404;
+        return { error: "Swap not found" };
+      }
+
+      return new Response(createSwapStatusStream(swap.swapId), {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
+      });
+    } catch (error) {
+      console.error("[Swap] Error streaming swap:", error);
+      set.status = 500;
+      return { error: "Failed to stream swap" };
+    }
+  })
+  // Get a swap's event history, oldest first
+  .get("/:id/timeline", async ({ params, set }) => {
+    const { id } = params;
+
+    try {
+      const swap = await getSwapById(id);
+
+      if (!swap) {
+        set.status = 404;
+        return { error: "Swap not found" };
+      }
+
+      const events = await getSwapEvents(swap.swapId);
+
+      const response: SwapTimelineResponse = {
         swapId: swap.swapId,
-        chainId: swap.chainId as SupportedChainId,
-        vaultAddress: swap.vaultAddress as `0x${string}`,
-        buyToken: deserializeToken(swap.buyToken),
-        recipientAddress: swap.recipientAddress as `0x${string}`,
-        refundAddress: swap.refundAddress as `0x${string}`,
-        status: swap.status,
-        createdAt: swap.createdAt.getTime(),
-        expiresAt: swap.expiresAt.getTime(),
-        depositTxHash: swap.depositTxHash || undefined,
-        depositAmount: swap.depositAmount || undefined,
-        settlementTxHash: swap.settlementTxHash || undefined,
-        actualBuyAmount: swap.actualBuyAmount || undefined,
-        failureReason: swap.failureReason || undefined,
-        refundTxHash: swap.refundTxHash || undefined,
-        refundAmount: swap.refundAmount || undefined,
+        events: events.map((event) => ({
+          type: event.type,
+          fromStatus: event.fromStatus ?? undefined,
+          toStatus: event.toStatus ?? undefined,
+          details: event.details ?? undefined,
+          timestamp: event.createdAt.getTime(),
+        })),
       };
 
       return response;
     } catch (error) {
-      console.error("[Swap] Error getting swap:", error);
+      console.error("[Swap] Error getting swap timeline:", error);
       set.status = 500;
-      return { error: "Failed to get swap" };
+      return { error: "Failed to get swap timeline" };
+    }
+  })
+  // List webhook deliveries for a swap, newest first (webhook secret required)
+  .get("/:id/webhooks", async ({ params, headers, set }) => {
+    const { id } = params;
+
+    try {
+      const swap = await getSwapById(id);
+
+      if (!swap) {
+        set.status = 404;
+        return { error: "Swap not found" };
+      }
+
+      if (!isWebhookSecretValid(swap.webhookSecret, headers[WEBHOOK_SECRET_HEADER])) {
+        set.status = 401;
+        return { error: "Invalid webhook secret" };
+      }
+
+      const deliveries = await getWebhookDeliveriesForSwap(swap.swapId);
+
+      const response: WebhookDeliveriesResponse = {
+        swapId: swap.swapId,
+        deliveries: deliveries.map(toWebhookDeliveryResponse),
+      };
+
+      return response;
+    } catch (error) {
+      console.error("[Swap] Error getting webhook deliveries:", error);
+      set.status = 500;
+      return { error: "Failed to get webhook deliveries" };
+    }
+  })
+  // Re-send a failed webhook delivery (webhook secret required)
+  .post("/:id/webhooks/:deliveryId/replay", async ({ params, headers, set }) => {
+    const { id } = params;
+    const deliveryId = Number(params.deliveryId);
+
+    if (!Number.isInteger(deliveryId)) {
+      set.status = 400;
+      return { error: "Invalid delivery ID" };
+    }
+
+    try {
+      const swap = await getSwapById(id);
+      const delivery = swap ? await getWebhookDelivery(swap.swapId, deliveryId) : undefined;
+
+      if (!swap || !delivery) {
+        set.status = 404;
+        return { error: "Webhook delivery not found" };
+      }
+
+      if (!isWebhookSecretValid(swap.webhookSecret, headers[WEBHOOK_SECRET_HEADER])) {
+        set.status = 401;
+        return { error: "Invalid webhook secret" };
+      }
+
+      // Only deliveries that exhausted their retries; pending ones are
+      // already being retried and delivered ones would be sent again
+      const replayed = await replayWebhookDelivery(swap.swapId, deliveryId);
+      if (!replayed) {
+        set.status = 409;
+        return {
+          error: `Webhook delivery is ${delivery.status}; only failed deliveries can be replayed`,
+        };
+      }
+
+      return toWebhookDeliveryResponse(replayed);
+    } catch (error) {
+      console.error("[Swap] Error replaying webhook delivery:", error);
+      set.status = 500;
+      return { error: "Failed to replay webhook delivery" };
     }
   });
@@ -0,0 +1,20 @@
+import { createPublicClient, http, type Chain, type PublicClient } from "viem";
+import { mainnet, base } from "viem/chains";
+import type { ChainConfig, SupportedChainId } from "../types";
+
+// Map chain IDs to viem chain configs
+export const viemChains: Record<SupportedChainId, Chain> = {
+  1: mainnet,
+  8453: base,
+};
+
+/**
+ * Create a viem public client for a chain
+ */
+export function createChainClient(config: ChainConfig): PublicClient {
+  const chain = viemChains[config.chainId];
+  return createPublicClient({
+    chain,
+    transport: http(config.rpcUrl),
+  }) as PublicClient;
+}
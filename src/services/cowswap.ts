@@ -1,17 +1,19 @@
 import {
   OrderBookApi,
+  OrderQuoteSideKindBuy,
   OrderQuoteSideKindSell,
   SupportedChainId as CowChainId,
   OrderKind,
   SigningScheme,
   SellTokenSource,
   BuyTokenDestination,
+  EcdsaSigningScheme,
   type OrderQuoteRequest,
   type OrderQuoteResponse,
 } from "@cowprotocol/cow-sdk";
 import { type Address } from "viem";
 import { signTypedData } from "viem/accounts";
-import type { SupportedChainId, TokenAddress, CowOrderStatus, Token } from "../types";
+import type { SupportedChainId, TokenAddress, CowOrderStatus, SwapKind, Token } from "../types";
 import { getTokenAddress } from "../types";
 import { getAccountFromPrivateKey } from "./wallet";
 import { ORDER_VALIDITY_SECONDS } from "../config/constants";
@@ -47,6 +49,11 @@ const COW_ORDER_TYPES = {
   ],
 } as const;
 
+// EIP712 types for COW Protocol off-chain order cancellation
+const COW_CANCELLATION_TYPES = {
+  OrderCancellations: [{ name: "orderUids", type: "bytes[]" }],
+} as const;
+
 // Type for EIP712 order message (used for signing)
 interface OrderMessage {
   sellToken: Address;
@@ -91,13 +98,15 @@ function getOrderBookApi(chainId: SupportedChainId): OrderBookApi {
   return new OrderBookApi({ chainId: toCowChainId(chainId) });
 }
 
-export interface QuoteParams {
+export type QuoteParams = {
   chainId: SupportedChainId;
   sellToken: Token;
   buyToken: Token;
-  sellAmount: string;
   from: Address;
-}
+} & (
+  | { kind?: "sell"; sellAmount: string } // Amount to sell, fee included
+  | { kind: "buy"; buyAmount: string }    // Exact amount to buy
+);
 
 export interface QuoteResult {
   quoteId: string;
@@ -123,8 +132,9 @@ export async function getQuote(params: QuoteParams): Promise<QuoteResult> {
     buyToken: buyTokenAddress,
     from: params.from,
     receiver: params.from, // Will be updated when creating actual order
-    sellAmountBeforeFee: params.sellAmount,
-    kind: OrderQuoteSideKindSell.SELL,
+    ...(params.kind === "buy"
+      ? { kind: OrderQuoteSideKindBuy.BUY, buyAmountAfterFee: params.buyAmount }
+      : { kind: OrderQuoteSideKindSell.SELL, sellAmountBeforeFee: params.sellAmount }),
   };
 
   const quote = await orderBookApi.getQuote(quoteRequest);
@@ -147,12 +157,16 @@ export interface SwapOrderParams {
   buyAmountMin: string;
   receiver: Address;
   vaultPrivateKey: `0x${string}`;
+  partiallyFillable?: boolean; // Allow solvers to fill the order in parts (default false)
   // validTo is intentionally omitted - we use MAX_VALID_TO so orders never expire
 }
 
 export interface SwapOrderWithAppDataParams extends SwapOrderParams {
   appDataHex: `0x${string}`;
   fullAppData: string;
+  validTo?: number; // Unix seconds (defaults to ORDER_VALIDITY_SECONDS from now)
+  // "buy" orders buy exactly buyAmountMin, selling at most sellAmount (default "sell")
+  kind?: SwapKind;
 }
 
 export interface SwapOrderResult {
@@ -238,7 +252,7 @@ export async function createSwapOrderWithAppData(
   // Get the account from the deposit wallet's private key
   const account = getAccountFromPrivateKey(params.vaultPrivateKey);
 
-  const validTo = getOrderValidTo();
+  const validTo = params.validTo ?? getOrderValidTo();
 
   // Create the order message for EIP712 signing
   const orderMessage: OrderMessage = {
@@ -250,8 +264,8 @@ export async function createSwapOrderWithAppData(
     validTo,
     appData: params.appDataHex,
     feeAmount: "0",
-    kind: OrderKind.SELL,
-    partiallyFillable: false,
+    kind: params.kind === "buy" ? OrderKind.BUY : OrderKind.SELL,
+    partiallyFillable: params.partiallyFillable ?? false,
     sellTokenBalance: SellTokenSource.ERC20,
     buyTokenBalance: BuyTokenDestination.ERC20,
   };
@@ -280,8 +294,8 @@ export async function createSwapOrderWithAppData(
     validTo,
     appData: params.appDataHex,
     feeAmount: "0",
-    kind: OrderKind.SELL,
-    partiallyFillable: false,
+    kind: params.kind === "buy" ? OrderKind.BUY : OrderKind.SELL,
+    partiallyFillable: params.partiallyFillable ?? false,
     sellTokenBalance: SellTokenSource.ERC20,
     buyTokenBalance: BuyTokenDestination.ERC20,
     signature,
@@ -311,6 +325,9 @@ export interface OrderStatusResult {
   status: CowOrderStatus;
   executedBuyAmount?: string;
   executedSellAmount?: string;
+  sellAmount?: string;
+  buyAmount?: string;     // Minimum buy amount (the order's limit)
+  creationDate?: string;  // ISO timestamp of order creation
 }
 
 export async function getOrderStatus(
@@ -327,6 +344,9 @@ export async function getOrderStatus(
       status: order.status.toUpperCase() as CowOrderStatus,
       executedBuyAmount: order.executedBuyAmount,
       executedSellAmount: order.executedSellAmount,
+      sellAmount: order.sellAmount,
+      buyAmount: order.buyAmount,
+      creationDate: order.creationDate,
     };
   } catch (error) {
     // Order not found - could be expired or invalid UID
@@ -334,6 +354,35 @@ export async function getOrderStatus(
   }
 }
 
+/**
+ * Cancel an open COWSwap order off-chain
+ *
+ * Signs an EIP712 OrderCancellations message with the order owner's (vault)
+ * key. Off-chain cancellation is best-effort: a settlement already in
+ * flight can still fill the order.
+ */
+export async function cancelOrder(
+  chainId: SupportedChainId,
+  orderUid: string,
+  vaultPrivateKey: `0x${string}`
+): Promise<void> {
+  const orderBookApi = getOrderBookApi(chainId);
+
+  const signature = await signTypedData({
+    privateKey: vaultPrivateKey,
+    domain: getCowDomain(chainId),
+    types: COW_CANCELLATION_TYPES,
+    primaryType: "OrderCancellations",
+    message: { orderUids: [orderUid as `0x${string}`] },
+  });
+
+  await orderBookApi.sendSignedOrderCancellations({
+    orderUids: [orderUid],
+    signature,
+    signingScheme: EcdsaSigningScheme.EIP712,
+  });
+}
+
 /**
  * Trade information from a filled order
  */
@@ -0,0 +1,167 @@
+/**
+ * Deposit Resolution
+ *
+ * Balance polling only tells us how much sits in a vault. To record who
+ * deposited and in which transaction, we look up the sell token's
+ * Transfer logs into the vault since the swap was created.
+ */
+
+import { type Address, type PublicClient, erc20Abi } from "viem";
+import { getTokenAddress, isEtherToken } from "../types";
+import { deserializeToken } from "../utils/token";
+import type { Swap } from "../db/schema";
+import type { ChainConfig, DepositTransfer } from "../types";
+
+// Maximum block range per eth_getLogs request (most RPCs cap this)
+const LOG_BLOCK_RANGE = 5_000n;
+
+// Extra blocks scanned before the estimated creation block (block time jitter)
+const CREATION_BLOCK_MARGIN = 100n;
+
+// Vault addresses per eth_getLogs request in event-driven detection, passed
+// as an OR filter on Transfer's indexed `to` topic
+const VAULT_TOPIC_CHUNK = 100;
+
+/**
+ * Estimate the block a swap was created at from its timestamp
+ */
+function estimateCreationBlock(
+  swap: Swap,
+  config: ChainConfig,
+  latestBlock: bigint
+): bigint {
+  const elapsedMs = Math.max(0, Date.now() - swap.createdAt.getTime());
+  const elapsedBlocks = BigInt(Math.ceil(elapsedMs / config.blockTimeMs));
+  const estimate = latestBlock - elapsedBlocks - CREATION_BLOCK_MARGIN;
+  return estimate > 0n ? estimate : 0n;
+}
+
+/**
+ * Find all sell token transfers into a swap's vault
+ *
+ * Scans from the (estimated) creation block to `toBlock` in chunks of
+ * LOG_BLOCK_RANGE. Returns transfers in chain order. Native ETH deposits
+ * emit no logs, so an empty list is returned for ether sell tokens.
+ *
+ * @param client - Viem public client for the chain
+ * @param config - Chain configuration (for block time)
+ * @param swap - The swap whose vault to inspect
+ * @param toBlock - Last block to scan (defaults to latest)
+ */
+export async function findDepositTransfers(
+  client: PublicClient,
+  config: ChainConfig,
+  swap: Swap,
+  toBlock?: bigint
+): Promise<DepositTransfer[]> {
+  const sellToken = deserializeToken(swap.sellToken);
+  if (isEtherToken(sellToken)) {
+    return [];
+  }
+
+  const lastBlock = toBlock ?? (await client.getBlockNumber());
+  const firstBlock = estimateCreationBlock(swap, config, lastBlock);
+  const transfers: DepositTransfer[] = [];
+
+  for (let from = firstBlock; from <= lastBlock; from += LOG_BLOCK_RANGE) {
+    const to = from + LOG_BLOCK_RANGE - 1n < lastBlock ? from + LOG_BLOCK_RANGE - 1n : lastBlock;
+
+    const logs = await client.getContractEvents({
+      address: getTokenAddress(sellToken) as Address,
+      abi: erc20Abi,
+      eventName: "Transfer",
+      args: { to: swap.vaultAddress as Address },
+      fromBlock: from,
+      toBlock: to,
+    });
+
+    for (const log of logs) {
+      if (!log.transactionHash || log.logIndex === null || log.blockNumber === null) {
+        continue;
+      }
+      transfers.push({
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        from: log.args.from as `0x${string}`,
+        amount: (log.args.value as bigint).toString(),
+        blockNumber: Number(log.blockNumber),
+      });
+    }
+  }
+
+  return transfers;
+}
+
+/**
+ * Resolve deposit transfers without letting an RPC failure block execution
+ *
+ * The transfer details are informational; the swap is driven by the vault
+ * balance. On error the deposit is recorded without tx hash or depositor.
+ */
+export async function tryFindDepositTransfers(
+  client: PublicClient,
+  config: ChainConfig,
+  swap: Swap
+): Promise<DepositTransfer[]> {
+  try {
+    return await findDepositTransfers(client, config, swap);
+  } catch (error) {
+    console.error(`[Deposits] Failed to resolve transfers for swap ${swap.swapId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Find sell token transfers into open vaults within a block range
+ *
+ * Used by event-driven detection. Each token's logs are filtered on the
+ * indexed `to` topic by the vaults selling that token, VAULT_TOPIC_CHUNK
+ * vaults per request, so responses hold only transfers of a swap's own
+ * sell token into its vault rather than every transfer of the token.
+ *
+ * @param client - Viem public client for the chain
+ * @param vaultsByToken - Lowercased vault addresses, keyed by the sell token they sell
+ * @param fromBlock - First block to scan (inclusive)
+ * @param toBlock - Last block to scan (inclusive)
+ * @returns Transfers keyed by lowercased vault address
+ */
+export async function findTransfersToVaults(
+  client: PublicClient,
+  vaultsByToken: Map<Address, string[]>,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<Map<string, DepositTransfer[]>> {
+  const byVault = new Map<string, DepositTransfer[]>();
+
+  for (const [tokenAddress, vaults] of vaultsByToken) {
+    for (let i = 0; i < vaults.length; i += VAULT_TOPIC_CHUNK) {
+      const chunk = vaults.slice(i, i + VAULT_TOPIC_CHUNK);
+      const logs = await client.getContractEvents({
+        address: tokenAddress,
+        abi: erc20Abi,
+        eventName: "Transfer",
+        args: { to: chunk as Address[] },
+        fromBlock,
+        toBlock,
+      });
+
+      for (const log of logs) {
+        const to = (log.args.to as string | undefined)?.toLowerCase();
+        if (!to || !chunk.includes(to)) continue;
+        if (!log.transactionHash || log.logIndex === null || log.blockNumber === null) continue;
+
+        const transfers = byVault.get(to) ?? [];
+        transfers.push({
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          from: log.args.from as `0x${string}`,
+          amount: (log.args.value as bigint).toString(),
+          blockNumber: Number(log.blockNumber),
+        });
+        byVault.set(to, transfers);
+      }
+    }
+  }
+
+  return byVault;
+}
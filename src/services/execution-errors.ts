@@ -0,0 +1,113 @@
+/**
+ * Execution Error Classification
+ *
+ * Decides whether a failed order submission is worth retrying. Order book
+ * rejections that depend only on the order itself (amount too small,
+ * unsupported token, ...) fail the same way every time and are permanent,
+ * as is a permit domain that doesn't match the token's, a pre-hook that
+ * fails simulation, a market below the swap's minimum output, a buy
+ * swap whose deposit no longer covers its buy amount, a native ETH
+ * deposit that doesn't cover the vault's gas reserve, or a limit swap
+ * past its deadline. A market too far below a bound quote is permanent
+ * or transient per the quote deviation policy.
+ * Everything else - timeouts, 5xx and 429 responses, RPC errors, stale
+ * quotes - is treated as transient and retried on a bounded schedule.
+ */
+
+import { OrderBookApiError } from "@cowprotocol/cow-sdk";
+import { PermitDomainMismatchError } from "./permit-domain";
+import { PreHookSimulationError } from "./hook-simulation";
+import { InsufficientSellAmountError, MinBuyAmountNotMetError } from "./slippage";
+import { QuoteDeviationError } from "./quote-binding";
+import { LimitDeadlinePassedError } from "./limit-orders";
+import { InsufficientGasReserveError } from "./flows/wrap";
+
+export type ExecutionErrorKind = "permanent" | "transient";
+
+// COW order book / quote error types that no retry can fix
+const PERMANENT_ERROR_TYPES: ReadonlySet<string> = new Set([
+  "SellAmountDoesNotCoverFee",
+  "UnsupportedToken",
+  "ZeroAmount",
+  "SameBuyAndSellToken",
+  "SellAmountOverflow",
+  "UnsupportedBuyTokenDestination",
+  "UnsupportedSellTokenSource",
+  "UnsupportedOrderType",
+  "InvalidNativeSellToken",
+  "IncompatibleSigningScheme",
+  "WrongOwner",
+  "InvalidSignature",
+  "InvalidEip1271Signature",
+  "InvalidAppData",
+  "AppDataHashMismatch",
+]);
+
+/**
+ * Get the order book error type (e.g. "SellAmountDoesNotCoverFee"), if any
+ */
+export function getOrderBookErrorType(error: unknown): string | undefined {
+  if (!(error instanceof OrderBookApiError)) {
+    return undefined;
+  }
+  const body = error.body as { errorType?: unknown } | undefined;
+  return typeof body?.errorType === "string" ? body.errorType : undefined;
+}
+
+/**
+ * Classify an error thrown while quoting, signing or submitting an order
+ */
+export function classifyExecutionError(error: unknown): ExecutionErrorKind {
+  // The registry's permit domain is wrong; retrying signs the same bad permit
+  if (error instanceof PermitDomainMismatchError) {
+    return "permanent";
+  }
+
+  // The order's pre-hooks can't let the relayer pull the vault's funds
+  if (error instanceof PreHookSimulationError) {
+    return "permanent";
+  }
+
+  // The user's price floor isn't reachable; refund rather than sell below it
+  if (error instanceof MinBuyAmountNotMetError) {
+    return "permanent";
+  }
+
+  // A buy swap's deposit can't cover its buy amount at the market price
+  if (error instanceof InsufficientSellAmountError) {
+    return "permanent";
+  }
+
+  // Gas would eat the whole native ETH deposit; a retry can't add to it
+  if (error instanceof InsufficientGasReserveError) {
+    return "permanent";
+  }
+
+  // A limit order can't be valid past the swap's deadline
+  if (error instanceof LimitDeadlinePassedError) {
+    return "permanent";
+  }
+
+  // "reprice" waits for the market on the retry schedule, "refund" doesn't
+  if (error instanceof QuoteDeviationError) {
+    return error.policy === "refund" ? "permanent" : "transient";
+  }
+
+  const errorType = getOrderBookErrorType(error);
+  if (errorType && PERMANENT_ERROR_TYPES.has(errorType)) {
+    return "permanent";
+  }
+  return "transient";
+}
+
+/**
+ * Human-readable failure reason, including the order book's description
+ */
+export function describeExecutionError(error: unknown): string {
+  const errorType = getOrderBookErrorType(error);
+  if (errorType) {
+    const description = (error as OrderBookApiError<{ description?: string }>).body?.description;
+    return description ? `${errorType}: ${description}` : errorType;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,15 +1,23 @@
 import type { PublicClient } from "viem";
 import type { Swap } from "../db/schema";
-import type { ExecutionResult } from "../types";
+import type { ExecutionResult, SupportedChainId } from "../types";
+import { getSellTokenConfig } from "../config/tokens";
+import { deserializeToken } from "../utils/token";
 import { executePermitFlow } from "./flows/permit";
+import { executeApproveFlow } from "./flows/approve";
+import { executeWrapFlow } from "./flows/wrap";
 
 /**
- * Execute a swap using the permit flow (EIP-2612)
+ * Execute a swap using the flow its sell token supports
  *
- * This service only supports ERC20 tokens with permit capability (like CBBTC).
+ * Tokens with a registered permit domain use the permit flow (EIP-2612,
+ * gasless). Native ETH uses the wrap flow, which wraps it to WETH with
+ * gas from the deposit. Other tokens use the approve flow, which pays for
+ * an on-chain approval from the gas wallet. Every flow ends by placing
+ * the order on the swap's venue.
  *
  * @param swap - The swap record
- * @param sellAmount - The actual amount of CBBTC to sell (vault balance)
+ * @param sellAmount - The actual amount of the sell token to sell (vault balance)
  * @param client - Viem public client for the chain
  */
 export async function executeSwap(
@@ -17,6 +25,22 @@ export async function executeSwap(
   sellAmount: bigint,
   client: PublicClient
 ): Promise<ExecutionResult> {
-  console.log(`[Executor] Executing swap ${swap.swapId} via permit flow, amount: ${sellAmount}`);
-  return executePermitFlow(swap, sellAmount, client);
+  const chainId = swap.chainId as SupportedChainId;
+  const sellTokenConfig = getSellTokenConfig(chainId, deserializeToken(swap.sellToken));
+  if (!sellTokenConfig) {
+    throw new Error(`Sell token ${swap.sellToken} is not registered on chain ${chainId}`);
+  }
+
+  if (sellTokenConfig.permit) {
+    console.log(`[Executor] Executing swap ${swap.swapId} via permit flow, amount: ${sellAmount}`);
+    return executePermitFlow(swap, sellAmount, client);
+  }
+
+  if (sellTokenConfig.native) {
+    console.log(`[Executor] Executing swap ${swap.swapId} via wrap flow, amount: ${sellAmount}`);
+    return executeWrapFlow(swap, sellAmount, client);
+  }
+
+  console.log(`[Executor] Executing swap ${swap.swapId} via approve flow, amount: ${sellAmount}`);
+  return executeApproveFlow(swap, sellAmount, client);
 }
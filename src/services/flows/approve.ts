@@ -0,0 +1,157 @@
+import {
+  createWalletClient,
+  erc20Abi,
+  http,
+  maxUint256,
+  type Address,
+  type PublicClient,
+} from "viem";
+import type { Swap } from "../../db/schema";
+import type { ChainConfig, ExecutionResult, SupportedChainId } from "../../types";
+import { getTokenAddress } from "../../types";
+import { deserializeToken } from "../../utils/token";
+import { getAccountFromPrivateKey, getVaultWalletFromSalt } from "../wallet";
+import { fundVaultForGas, sweepVaultGas, type GasFees } from "../gas-wallet";
+import { viemChains } from "../chain-client";
+import { GPV2_VAULT_RELAYER } from "../../config/constants";
+import { chains } from "../../config/chains";
+import { submitVaultOrder } from "./order";
+
+// Gas limit for each approve sent by the vault
+export const APPROVE_GAS = 80_000n;
+
+// Number of blocks to wait for an approval before submitting the order
+const APPROVE_CONFIRMATIONS = 1;
+
+/**
+ * Get the vault relayer's allowance over a vault's tokens
+ */
+export async function getVaultRelayerAllowance(
+  client: PublicClient,
+  tokenAddress: Address,
+  vaultAddress: Address
+): Promise<bigint> {
+  return client.readContract({
+    address: tokenAddress,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [vaultAddress, GPV2_VAULT_RELAYER as Address],
+  });
+}
+
+/**
+ * Get the approvals needed to grant the vault relayer an unlimited allowance
+ * Tokens like USDT revert when changing one non-zero allowance to another,
+ * so a non-zero allowance is reset to 0 first.
+ */
+export function getApprovalAmounts(currentAllowance: bigint): bigint[] {
+  return currentAllowance > 0n ? [0n, maxUint256] : [maxUint256];
+}
+
+/**
+ * Send the vault's approvals for COW's vault relayer and wait for each
+ * The vault must already hold gas for APPROVE_GAS per approval.
+ */
+export async function approveVaultRelayer(
+  config: ChainConfig,
+  client: PublicClient,
+  vaultPrivateKey: `0x${string}`,
+  tokenAddress: Address,
+  amounts: bigint[],
+  fees: GasFees
+): Promise<void> {
+  const vaultClient = createWalletClient({
+    account: getAccountFromPrivateKey(vaultPrivateKey),
+    chain: viemChains[config.chainId],
+    transport: http(config.rpcUrl),
+  });
+
+  for (const amount of amounts) {
+    const txHash = await vaultClient.writeContract({
+      address: tokenAddress,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [GPV2_VAULT_RELAYER as Address, amount],
+      gas: APPROVE_GAS,
+      ...fees,
+    });
+
+    const receipt = await client.waitForTransactionReceipt({
+      hash: txHash,
+      confirmations: APPROVE_CONFIRMATIONS,
+    });
+    if (receipt.status !== "success") {
+      throw new Error(`Approve tx ${txHash} reverted`);
+    }
+    console.log(`[ApproveFlow] Approved ${amount} of ${tokenAddress} for vault relayer (tx: ${txHash})`);
+  }
+}
+
+/**
+ * Execute a swap for a sell token without EIP-2612 permits
+ *
+ * This flow:
+ * 1. Checks the vault's allowance for COW's vault relayer
+ * 2. If it doesn't cover the sell amount, funds the vault with just enough
+ *    gas from the gas wallet and sends an on-chain approve (resetting a
+ *    non-zero allowance to 0 first, as USDT requires)
+ * 3. Sweeps the vault's leftover gas back to the gas wallet
+ * 4. Submits the order without hooks
+ *
+ * A retried or resubmitted swap finds the allowance in place and goes
+ * straight to the order.
+ *
+ * @param swap - The swap record
+ * @param sellAmount - The actual amount of the sell token to sell (vault balance)
+ * @param client - Viem public client for the chain
+ */
+export async function executeApproveFlow(
+  swap: Swap,
+  sellAmount: bigint,
+  client: PublicClient
+): Promise<ExecutionResult> {
+  const chainId = swap.chainId as SupportedChainId;
+  const config = chains[chainId];
+
+  // Derive the private key from the stored salt
+  const vaultWallet = getVaultWalletFromSalt(swap.vaultSalt as `0x${string}`);
+  const privateKey = vaultWallet.privateKey;
+  const vaultAddress = swap.vaultAddress as Address;
+  const sellToken = deserializeToken(swap.sellToken);
+  const tokenAddress = getTokenAddress(sellToken) as Address;
+
+  console.log(`[ApproveFlow] Starting approve flow for swap ${swap.swapId}`);
+  console.log(`[ApproveFlow] Vault wallet: ${vaultAddress}, amount: ${sellAmount}`);
+
+  const allowance = await getVaultRelayerAllowance(client, tokenAddress, vaultAddress);
+
+  if (allowance >= sellAmount) {
+    console.log(`[ApproveFlow] Vault relayer already approved (allowance: ${allowance})`);
+  } else {
+    const amounts = getApprovalAmounts(allowance);
+
+    // Top up the vault with enough ETH to pay for the approvals
+    const fees = await fundVaultForGas(
+      config,
+      client,
+      vaultAddress,
+      APPROVE_GAS * BigInt(amounts.length),
+      amounts.length
+    );
+
+    await approveVaultRelayer(config, client, privateKey, tokenAddress, amounts, fees);
+
+    // Best effort - leftover gas is dust and must not block the order
+    try {
+      await sweepVaultGas(config, client, privateKey);
+    } catch (error) {
+      console.warn(`[ApproveFlow] Failed to sweep leftover gas from vault ${vaultAddress}:`, error);
+    }
+  }
+
+  const result = await submitVaultOrder(swap, sellToken, sellAmount, privateKey, [], "ApproveFlow");
+
+  console.log(`[ApproveFlow] Order ${result.orderId} submitted`);
+
+  return result;
+}
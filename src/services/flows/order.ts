@@ -0,0 +1,224 @@
+import type { Address } from "viem";
+import type { Swap } from "../../db/schema";
+import type { ExecutionResult, SupportedChainId, Token } from "../../types";
+import { getTokenAddress } from "../../types";
+import { deserializeToken } from "../../utils/token";
+import { getSwapVenue, type PreHook, type SwapVenue } from "../venues";
+import { getSellTokenConfig } from "../../config/tokens";
+import {
+  getSlippageTolerance,
+  applySlippageToBuyAmount,
+  applySlippageToSellAmount,
+  getMinBuyAmount,
+  InsufficientSellAmountError,
+  MinBuyAmountNotMetError,
+} from "../slippage";
+import { getTwapOrderValidTo } from "../twap";
+import { getLimitBuyAmount, getLimitOrderValidTo, isLimitSwap } from "../limit-orders";
+import { checkBoundQuote } from "../quote-binding";
+
+/**
+ * Quote, sign and submit a vault's order on the swap's venue
+ *
+ * Shared tail of every execution flow once the vault relayer can pull the
+ * sell token (directly, or through the given pre-hooks). Sell swaps sell
+ * sellAmount; buy swaps buy their exact buy amount, selling at most
+ * sellAmount. The swap's own price protection applies: maxSlippageBps caps
+ * the recommended tolerance, and minBuyAmountPerUnit sets a floor on the
+ * order's minimum buy amount. Swaps bound to a quote are checked against
+ * its price first. Limit swaps sign a limit order at their target price,
+ * valid until the swap expires, without quoting the market or fetching a
+ * slippage tolerance.
+ *
+ * @param swap - The swap record
+ * @param sellToken - The token the order sells (WETH for native ETH swaps)
+ * @param sellAmount - The amount of it to sell (buy swaps: the most to sell)
+ * @param vaultPrivateKey - The vault's private key, used to sign the order
+ * @param preHooks - Calls the solver executes before the swap
+ * @param logTag - Log prefix of the calling flow
+ * @throws QuoteDeviationError if the market is too far below the bound quote
+ * @throws MinBuyAmountNotMetError if the quote doesn't reach the swap's floor
+ * @throws InsufficientSellAmountError if a buy swap's deposit can't pay for it
+ * @throws LimitDeadlinePassedError if a limit swap has already expired
+ */
+export async function submitVaultOrder(
+  swap: Swap,
+  sellToken: Token,
+  sellAmount: bigint,
+  vaultPrivateKey: `0x${string}`,
+  preHooks: PreHook[],
+  logTag: string
+): Promise<ExecutionResult> {
+  const chainId = swap.chainId as SupportedChainId;
+  const buyToken = deserializeToken(swap.buyToken);
+  const sellTokenAddress = getTokenAddress(sellToken);
+  const buyTokenAddress = getTokenAddress(buyToken);
+
+  const venue = getSwapVenue(swap);
+  const limit = isLimitSwap(swap);
+
+  // Fetch recommended slippage tolerance for this market, capped by the
+  // swap's. Limit orders sign their exact target price and take none.
+  let slippageBps = 0;
+  if (!limit) {
+    const recommendedSlippageBps = await getSlippageTolerance(
+      chainId,
+      sellTokenAddress,
+      buyTokenAddress
+    );
+    slippageBps = swap.maxSlippageBps !== null
+      ? Math.min(recommendedSlippageBps, swap.maxSlippageBps)
+      : recommendedSlippageBps;
+    console.log(`[${logTag}] Using slippage tolerance: ${slippageBps} bps (${slippageBps / 100}%)`);
+  }
+
+  const amounts = limit
+    ? getLimitOrderAmounts(swap, sellAmount, logTag)
+    : swap.kind === "buy"
+      ? await getBuyOrderAmounts(venue, swap, sellToken, buyToken, sellAmount, slippageBps, logTag)
+      : await getSellOrderAmounts(venue, swap, sellToken, buyToken, sellAmount, slippageBps, logTag);
+
+  // Sign and submit the order, with the hooks for the solver to run first
+  const orderId = await venue.placeOrder({
+    chainId,
+    sellToken: sellTokenAddress,
+    buyToken: buyTokenAddress,
+    sellAmount: amounts.sellAmount,
+    buyAmountMin: amounts.buyAmountMin,
+    receiver: swap.recipientAddress as Address,
+    vaultPrivateKey,
+    kind: swap.kind,
+    orderClass: limit ? "limit" : "market",
+    partiallyFillable: swap.partiallyFillable,
+    validTo: getLimitOrderValidTo(swap) ?? getTwapOrderValidTo(swap),
+    slippageBps,
+    preHooks,
+  });
+
+  return {
+    orderId,
+    buyAmount: amounts.quotedBuyAmount,
+  };
+}
+
+/**
+ * Order amounts from a fresh quote: what is signed, and the quoted buy amount
+ */
+interface OrderAmounts {
+  sellAmount: string;
+  buyAmountMin: string;
+  quotedBuyAmount: string;
+}
+
+/**
+ * Quote a sell order for sellAmount and apply slippage and the swap's floor
+ */
+async function getSellOrderAmounts(
+  venue: SwapVenue,
+  swap: Swap,
+  sellToken: Token,
+  buyToken: Token,
+  sellAmount: bigint,
+  slippageBps: number,
+  logTag: string
+): Promise<OrderAmounts> {
+  const chainId = swap.chainId as SupportedChainId;
+
+  // Get a fresh quote for the actual deposited amount
+  const quote = await venue.getQuote({
+    chainId,
+    sellToken,
+    buyToken,
+    sellAmount: sellAmount.toString(),
+    from: swap.vaultAddress as Address,
+  });
+
+  // Hold the market to the price the swap was bound to, if any
+  checkBoundQuote(swap, BigInt(quote.sellAmount), BigInt(quote.buyAmount));
+
+  // Apply slippage to get minimum acceptable buy amount
+  let buyAmountMin = applySlippageToBuyAmount(quote.buyAmount, slippageBps);
+  console.log(`[${logTag}] Quote buyAmount: ${quote.buyAmount}, after slippage: ${buyAmountMin}`);
+
+  // Never sign for less than the swap's floor, and don't sign at all if
+  // the market is already below it
+  if (swap.minBuyAmountPerUnit !== null) {
+    const sellDecimals = getSellTokenConfig(chainId, deserializeToken(swap.sellToken))?.decimals;
+    if (sellDecimals === undefined) {
+      throw new Error(`Sell token ${swap.sellToken} is not registered on chain ${chainId}`);
+    }
+    const floor = getMinBuyAmount(
+      BigInt(quote.sellAmount),
+      BigInt(swap.minBuyAmountPerUnit),
+      sellDecimals
+    );
+    if (BigInt(quote.buyAmount) < floor) {
+      throw new MinBuyAmountNotMetError(BigInt(quote.buyAmount), floor);
+    }
+    if (BigInt(buyAmountMin) < floor) {
+      buyAmountMin = floor.toString();
+      console.log(`[${logTag}] Minimum buy amount raised to the swap's floor: ${buyAmountMin}`);
+    }
+  }
+
+  return { sellAmount: quote.sellAmount, buyAmountMin, quotedBuyAmount: quote.buyAmount };
+}
+
+/**
+ * Quote a buy order for the swap's buy amount and apply slippage to the
+ * sell side, capped at what the vault holds
+ */
+async function getBuyOrderAmounts(
+  venue: SwapVenue,
+  swap: Swap,
+  sellToken: Token,
+  buyToken: Token,
+  availableSellAmount: bigint,
+  slippageBps: number,
+  logTag: string
+): Promise<OrderAmounts> {
+  if (!swap.buyAmount) {
+    throw new Error(`Buy swap ${swap.swapId} has no buy amount`);
+  }
+
+  const quote = await venue.getQuote({
+    chainId: swap.chainId as SupportedChainId,
+    sellToken,
+    buyToken,
+    kind: "buy",
+    buyAmount: swap.buyAmount,
+    from: swap.vaultAddress as Address,
+  });
+
+  const requiredSellAmount = BigInt(quote.sellAmount) + BigInt(quote.feeAmount);
+  if (requiredSellAmount > availableSellAmount) {
+    throw new InsufficientSellAmountError(requiredSellAmount, availableSellAmount);
+  }
+
+  // Hold the market to the price the swap was bound to, if any
+  checkBoundQuote(swap, requiredSellAmount, BigInt(quote.buyAmount));
+
+  // Apply slippage to get the maximum sell amount, within the deposit
+  const withSlippage = BigInt(applySlippageToSellAmount(requiredSellAmount.toString(), slippageBps));
+  const sellAmountMax = withSlippage < availableSellAmount ? withSlippage : availableSellAmount;
+  console.log(
+    `[${logTag}] Quote sellAmount for ${swap.buyAmount}: ${requiredSellAmount}, ` +
+      `selling at most ${sellAmountMax}`
+  );
+
+  return {
+    sellAmount: sellAmountMax.toString(),
+    buyAmountMin: swap.buyAmount,
+    quotedBuyAmount: swap.buyAmount,
+  };
+}
+
+/**
+ * Sell the whole amount for at least the limit price
+ */
+function getLimitOrderAmounts(swap: Swap, sellAmount: bigint, logTag: string): OrderAmounts {
+  const buyAmountMin = getLimitBuyAmount(swap, sellAmount).toString();
+  console.log(`[${logTag}] Limit order: ${sellAmount} for at least ${buyAmountMin}`);
+
+  return { sellAmount: sellAmount.toString(), buyAmountMin, quotedBuyAmount: buyAmountMin };
+}
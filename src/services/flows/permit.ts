@@ -1,33 +1,22 @@
 import {
   type Address,
   type PublicClient,
-  keccak256,
-  stringToHex,
   encodeFunctionData,
   maxUint256,
 } from "viem";
 import { signTypedData } from "viem/accounts";
-import { stringifyDeterministic } from "@cowprotocol/sdk-app-data";
 import type { Swap } from "../../db/schema";
 import type { ExecutionResult, SupportedChainId, TokenAddress } from "../../types";
 import { getTokenAddress } from "../../types";
 import { deserializeToken } from "../../utils/token";
-import { createSwapOrderWithAppData, getQuote } from "../cowswap";
 import { getVaultWalletFromSalt } from "../wallet";
 import { GPV2_VAULT_RELAYER } from "../../config/constants";
-import { chains } from "../../config/chains";
-import { createPublicClient, http } from "viem";
-import { getSlippageTolerance, applySlippageToBuyAmount } from "../slippage";
-
-/**
- * CBBTC permit configuration
- * CBBTC uses standard EIP-2612 permits with version "2"
- * (from FiatTokenV2 contract)
- */
-const CBBTC_PERMIT_CONFIG = {
-  name: "Coinbase Wrapped BTC",
-  version: "2",
-} as const;
+import { getSellTokenConfig, type PermitDomain } from "../../config/tokens";
+import { submitVaultOrder } from "./order";
+import type { PreHook } from "../venues";
+import { simulatePreHooks } from "../hook-simulation";
+import { verifyPermitDomain } from "../permit-domain";
+import { getVaultRelayerAllowance } from "./approve";
 
 /**
  * EIP-2612 Permit types for EIP-712 signing
@@ -70,16 +59,6 @@ const PERMIT_ABI = [
   },
 ] as const;
 
-/**
- * Get a public client for the given chain
- */
-function getPublicClient(chainId: SupportedChainId): PublicClient {
-  const chainConfig = chains[chainId];
-  return createPublicClient({
-    transport: http(chainConfig.rpcUrl),
-  });
-}
-
 /**
  * Get the current nonce for an address on an EIP-2612 token
  */
@@ -103,6 +82,7 @@ async function getPermitNonce(
 async function signPermit(
   chainId: SupportedChainId,
   tokenAddress: TokenAddress,
+  permitDomain: PermitDomain,
   privateKey: `0x${string}`,
   owner: Address,
   spender: Address,
@@ -111,8 +91,8 @@ async function signPermit(
   deadline: bigint
 ): Promise<{ v: number; r: `0x${string}`; s: `0x${string}` }> {
   const domain = {
-    name: CBBTC_PERMIT_CONFIG.name,
-    version: CBBTC_PERMIT_CONFIG.version,
+    name: permitDomain.name,
+    version: permitDomain.version,
     chainId,
     verifyingContract: tokenAddress as Address,
   };
@@ -161,79 +141,30 @@ function encodePermitCall(
 }
 
 /**
- * Build appData with permit pre-hook and auto slippage configuration
- *
- * COWSwap uses appData to include:
- * - Pre-transaction hooks (like permits)
- * - Order class (market vs limit)
- * - Quote metadata including slippage settings
- *
- * Setting smartSlippage: true enables COWSwap's auto slippage feature
- * where solvers can optimize execution within the slippage tolerance.
- *
- * The appDataHex is the keccak256 hash of the deterministically-stringified JSON.
- */
-async function buildAppDataWithPermitHook(
-  tokenAddress: TokenAddress,
-  permitCalldata: `0x${string}`,
-  slippageBps: number
-): Promise<{ appDataHex: `0x${string}`; fullAppData: string }> {
-  // Build the appData document following COW Protocol appData schema v1.1.0
-  const appDataDoc = {
-    version: "1.1.0",
-    appCode: "rift.trade",
-    metadata: {
-      hooks: {
-        pre: [
-          {
-            target: tokenAddress,
-            callData: permitCalldata,
-            gasLimit: "80000", // Permit calls typically use ~50k gas
-          },
-        ],
-      },
-      // Mark this as a market order (vs limit order)
-      orderClass: {
-        orderClass: "market",
-      },
-      // Include slippage settings for auto slippage
-      quote: {
-        slippageBips: slippageBps,
-        smartSlippage: true,
-      },
-    },
-  };
-
-  // Stringify deterministically (sorted keys, no extra whitespace)
-  const fullAppData = await stringifyDeterministic(appDataDoc);
-
-  // Compute the keccak256 hash of the JSON string
-  const appDataHex = keccak256(stringToHex(fullAppData));
-
-  return {
-    appDataHex,
-    fullAppData,
-  };
-}
-
-/**
- * Execute a swap for CBBTC using EIP-2612 permit
+ * Execute a swap for a registered sell token using EIP-2612 permit
  *
  * This flow:
- * 1. Gets the permit nonce for the vault wallet
- * 2. Signs an EIP-2612 permit authorizing COW's vault relayer
- * 3. Encodes the permit call as a pre-hook
- * 4. Submits the order with the permit hook in appData
- * 5. The solver executes the permit before the swap
+ * 1. Looks up the token's permit domain in the sell token registry and
+ *    checks it against the token's own EIP-712 domain
+ * 2. Gets the permit nonce for the vault wallet
+ * 3. Signs an EIP-2612 permit authorizing COW's vault relayer
+ * 4. Encodes the permit call as a pre-hook
+ * 5. Simulates the hook from the settlement contract and checks the relayer
+ *    can then pull the full amount
+ * 6. Submits the order with the permit hook in appData
+ * 7. The solver executes the permit before the swap
+ *
+ * The permit grants an unlimited allowance, so once one has been executed
+ * (e.g. by an earlier TWAP part) orders are submitted without the hook.
  *
  * @param swap - The swap record
- * @param sellAmount - The actual amount of CBBTC to sell (vault balance)
- * @param _client - Unused, kept for interface compatibility
+ * @param sellAmount - The actual amount of the sell token to sell (vault balance)
+ * @param client - Viem public client for the chain
  */
 export async function executePermitFlow(
   swap: Swap,
   sellAmount: bigint,
-  _client: PublicClient
+  client: PublicClient
 ): Promise<ExecutionResult> {
   const chainId = swap.chainId as SupportedChainId;
 
@@ -242,23 +173,30 @@ export async function executePermitFlow(
   const privateKey = vaultWallet.privateKey;
   const vaultAddress = swap.vaultAddress as Address;
 
-  // Deserialize tokens from DB storage
+  // Deserialize the sell token from DB storage (a registered ERC20)
   const sellToken = deserializeToken(swap.sellToken);
-  const buyToken = deserializeToken(swap.buyToken);
-
-  // Get token addresses
-  // sellToken is always CBBTC (ERC20), buyToken can be ERC20 or native ETH
   const sellTokenAddress = getTokenAddress(sellToken);
-  const buyTokenAddress = getTokenAddress(buyToken);
+
+  const permitDomain = getSellTokenConfig(chainId, sellToken)?.permit;
+  if (!permitDomain) {
+    throw new Error(`Sell token ${sellTokenAddress} has no registered permit on chain ${chainId}`);
+  }
 
   console.log(`[PermitFlow] Starting permit flow for swap ${swap.swapId}`);
   console.log(`[PermitFlow] Vault wallet: ${vaultAddress}, amount: ${sellAmount}`);
 
-  // Create public client for reading nonce
-  const publicClient = getPublicClient(chainId);
+  // An earlier order's permit already approved the relayer
+  const allowance = await getVaultRelayerAllowance(client, sellTokenAddress as Address, vaultAddress);
+  if (allowance >= sellAmount) {
+    console.log(`[PermitFlow] Vault relayer already approved, submitting without permit hook`);
+    return submitVaultOrder(swap, sellToken, sellAmount, privateKey, [], "PermitFlow");
+  }
+
+  // Fail before signing rather than submit an order whose permit hook reverts
+  await verifyPermitDomain(client, chainId, sellTokenAddress as Address, permitDomain);
 
   // Get the current nonce
-  const nonce = await getPermitNonce(publicClient, sellTokenAddress, vaultAddress);
+  const nonce = await getPermitNonce(client, sellTokenAddress, vaultAddress);
   console.log(`[PermitFlow] Current nonce: ${nonce}`);
 
   // Set deadline to max uint256 (never expires)
@@ -271,6 +209,7 @@ export async function executePermitFlow(
   const { v, r, s } = await signPermit(
     chainId,
     sellTokenAddress,
+    permitDomain,
     privateKey,
     vaultAddress,
     GPV2_VAULT_RELAYER as Address,
@@ -294,53 +233,35 @@ export async function executePermitFlow(
 
   console.log(`[PermitFlow] Permit calldata: ${permitCalldata.slice(0, 66)}...`);
 
-  // Fetch recommended slippage tolerance for this market
-  const slippageBps = await getSlippageTolerance(
-    chainId,
-    sellTokenAddress,
-    buyTokenAddress
-  );
-  console.log(`[PermitFlow] Using slippage tolerance: ${slippageBps} bps (${slippageBps / 100}%)`);
-
-  // Build appData with the permit hook and slippage settings
-  const { appDataHex, fullAppData } = await buildAppDataWithPermitHook(
-    sellTokenAddress,
-    permitCalldata,
-    slippageBps
-  );
-
-  console.log(`[PermitFlow] AppData hash: ${appDataHex}`);
+  const preHooks: PreHook[] = [
+    {
+      target: sellTokenAddress as Address,
+      callData: permitCalldata,
+      gasLimit: "80000", // Permit calls typically use ~50k gas
+    },
+  ];
 
-  // Get a fresh quote for the actual deposited amount
-  const quote = await getQuote({
+  // Make sure the permit works and the relayer can pull the full amount
+  await simulatePreHooks(client, {
     chainId,
-    sellToken,
-    buyToken,
-    sellAmount: sellAmount.toString(),
-    from: vaultAddress,
+    owner: vaultAddress,
+    sellToken: sellTokenAddress as Address,
+    sellAmount,
+    preHooks,
   });
+  console.log(`[PermitFlow] Permit hook simulated successfully`);
 
-  // Apply slippage to get minimum acceptable buy amount
-  const buyAmountMin = applySlippageToBuyAmount(quote.buyAmount, slippageBps);
-  console.log(`[PermitFlow] Quote buyAmount: ${quote.buyAmount}, after slippage: ${buyAmountMin}`);
-
-  // Create and submit the swap order with the permit hook in appData
-  const order = await createSwapOrderWithAppData({
-    chainId,
-    sellToken: sellTokenAddress,
-    buyToken: buyTokenAddress,
-    sellAmount: quote.sellAmount,
-    buyAmountMin,
-    receiver: swap.recipientAddress as Address,
-    vaultPrivateKey: privateKey,
-    appDataHex,
-    fullAppData,
-  });
+  // Submit the order with the permit as a pre-hook
+  const result = await submitVaultOrder(
+    swap,
+    sellToken,
+    sellAmount,
+    privateKey,
+    preHooks,
+    "PermitFlow"
+  );
 
-  console.log(`[PermitFlow] Order ${order.orderId} submitted with permit hook`);
+  console.log(`[PermitFlow] Order ${result.orderId} submitted with permit hook`);
 
-  return {
-    orderId: order.orderId,
-    buyAmount: quote.buyAmount,
-  };
+  return result;
 }
@@ -0,0 +1,116 @@
+import type { Address, PublicClient } from "viem";
+import type { Swap } from "../../db/schema";
+import type { ExecutionResult, SupportedChainId, Token } from "../../types";
+import { getVaultWalletFromSalt } from "../wallet";
+import { getBalance } from "../multicall";
+import { wrapVaultEth } from "../weth";
+import { WRAPPED_NATIVE_ADDRESSES } from "../../config/tokens";
+import { chains } from "../../config/chains";
+import { estimateVaultTxCost } from "../gas-wallet";
+import {
+  approveVaultRelayer,
+  getApprovalAmounts,
+  getVaultRelayerAllowance,
+} from "./approve";
+import { submitVaultOrder } from "./order";
+
+// Gas kept back from the deposit: the wrap, the approval, and a possible
+// refund later (unwrap + transfer)
+const GAS_RESERVE_UNITS = 250_000n;
+const GAS_RESERVE_TX_COUNT = 4;
+
+// Headroom on the current max fee for the reserve
+const GAS_RESERVE_FEE_MULTIPLE = 2n;
+
+/**
+ * Thrown when a native ETH deposit doesn't cover the vault's gas reserve,
+ * leaving nothing to wrap and sell. The swap is refunded.
+ */
+export class InsufficientGasReserveError extends Error {
+  constructor(
+    public readonly balance: bigint,
+    public readonly reserve: bigint
+  ) {
+    super(`Deposit of ${balance} wei doesn't cover the vault's gas reserve of ${reserve} wei`);
+    this.name = "InsufficientGasReserveError";
+  }
+}
+
+/**
+ * Execute a swap that sells native ETH
+ *
+ * This flow:
+ * 1. Wraps the vault's ETH, less a gas reserve, into WETH
+ * 2. Approves COW's vault relayer for WETH (once per vault)
+ * 3. Submits an order selling the vault's WETH, up to sellAmount
+ *
+ * The vault pays its own gas from the reserve; no gas wallet is needed.
+ * A retried or resubmitted swap finds its WETH already wrapped and
+ * approved, and sells it as is.
+ *
+ * @param swap - The swap record
+ * @param sellAmount - The amount to sell: the deposit (less the reserve once
+ *   wrapped), or a TWAP part
+ * @param client - Viem public client for the chain
+ */
+export async function executeWrapFlow(
+  swap: Swap,
+  sellAmount: bigint,
+  client: PublicClient
+): Promise<ExecutionResult> {
+  const chainId = swap.chainId as SupportedChainId;
+  const config = chains[chainId];
+
+  // Derive the private key from the stored salt
+  const vaultWallet = getVaultWalletFromSalt(swap.vaultSalt as `0x${string}`);
+  const privateKey = vaultWallet.privateKey;
+  const vaultAddress = swap.vaultAddress as Address;
+  const wethAddress = WRAPPED_NATIVE_ADDRESSES[chainId] as Address;
+  const weth: Token = { type: "erc20", address: wethAddress };
+
+  console.log(`[WrapFlow] Starting wrap flow for swap ${swap.swapId}`);
+  console.log(`[WrapFlow] Vault wallet: ${vaultAddress}, deposit: ${sellAmount}`);
+
+  // Native ETH kept back to pay for the vault's own transactions (L1 data
+  // fees included)
+  const fees = await client.estimateFeesPerGas();
+  const reserve =
+    (await estimateVaultTxCost(
+      config,
+      client,
+      GAS_RESERVE_UNITS,
+      fees.maxFeePerGas,
+      GAS_RESERVE_TX_COUNT
+    )) * GAS_RESERVE_FEE_MULTIPLE;
+
+  // Wrap everything above the reserve (nothing on a retry that already wrapped)
+  const ethBalance = await getBalance(client, vaultAddress, { type: "ether" });
+  if (ethBalance > reserve) {
+    await wrapVaultEth(config, client, privateKey, ethBalance - reserve, fees);
+  }
+
+  const wethBalance = await getBalance(client, vaultAddress, weth);
+  if (wethBalance === 0n) {
+    throw new InsufficientGasReserveError(ethBalance, reserve);
+  }
+
+  const allowance = await getVaultRelayerAllowance(client, wethAddress, vaultAddress);
+  if (allowance < wethBalance) {
+    await approveVaultRelayer(
+      config,
+      client,
+      privateKey,
+      wethAddress,
+      getApprovalAmounts(allowance),
+      fees
+    );
+  }
+
+  // Sell the requested amount (a TWAP part) if the wrapped balance covers it
+  const orderAmount = wethBalance < sellAmount ? wethBalance : sellAmount;
+  const result = await submitVaultOrder(swap, weth, orderAmount, privateKey, [], "WrapFlow");
+
+  console.log(`[WrapFlow] Order ${result.orderId} submitted for ${orderAmount} WETH`);
+
+  return result;
+}
@@ -0,0 +1,223 @@
+/**
+ * Service Gas Wallet
+ *
+ * Vaults only ever receive the sell token, so they hold no native ETH.
+ * Any transaction a vault has to send itself (e.g. a refund transfer or
+ * a token approval) is paid for by topping the vault up from this
+ * service-owned wallet. Gas left over afterward can be swept back.
+ */
+
+import {
+  createWalletClient,
+  http,
+  parseAbi,
+  type Address,
+  type PublicClient,
+} from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { viemChains } from "./chain-client";
+import type { ChainConfig, SupportedChainId } from "../types";
+
+// Number of blocks to wait for a gas funding transfer to land
+const GAS_FUNDING_CONFIRMATIONS = 1;
+
+// Gas limit of a plain native ETH transfer
+export const NATIVE_TRANSFER_GAS = 21_000n;
+
+// Leftover gas is only swept when it exceeds this many times the sweep's
+// own cost; twice the cost stays behind to cover fee spikes
+const SWEEP_MIN_COST_MULTIPLE = 4n;
+const SWEEP_RESERVE_COST_MULTIPLE = 2n;
+
+// OP stack chains, where every transaction also pays an L1 data fee
+const OP_STACK_CHAIN_IDS: ReadonlySet<SupportedChainId> = new Set([8453]);
+
+// OP stack GasPriceOracle predeploy, which prices the L1 data fee
+const GAS_PRICE_ORACLE_ADDRESS = "0x420000000000000000000000000000000000000F" as const;
+
+const GAS_PRICE_ORACLE_ABI = parseAbi([
+  "function getL1FeeUpperBound(uint256 unsignedTxSize) view returns (uint256)",
+]);
+
+// Upper bound on the unsigned size of a vault transaction (a transfer or
+// an ERC20 call), used to price its L1 data fee
+const VAULT_TX_SIZE_BYTES = 200n;
+
+export interface GasFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+let gasWalletAccount: PrivateKeyAccount | null | undefined;
+
+/**
+ * Get the gas wallet account from GAS_WALLET_PRIVATE_KEY
+ * Returns null if the gas wallet is not configured
+ */
+export function getGasWalletAccount(): PrivateKeyAccount | null {
+  if (gasWalletAccount === undefined) {
+    const privateKey = process.env.GAS_WALLET_PRIVATE_KEY;
+    gasWalletAccount = privateKey
+      ? privateKeyToAccount(privateKey as `0x${string}`)
+      : null;
+  }
+  return gasWalletAccount;
+}
+
+/**
+ * Set the gas wallet account (for testing)
+ * Pass undefined to read GAS_WALLET_PRIVATE_KEY again on next use
+ */
+export function setGasWalletAccount(account: PrivateKeyAccount | null | undefined): void {
+  gasWalletAccount = account;
+}
+
+/**
+ * Check if the gas wallet is configured
+ */
+export function isGasWalletConfigured(): boolean {
+  return getGasWalletAccount() !== null;
+}
+
+/**
+ * Estimate the worst-case cost of transactions a vault sends
+ *
+ * Gas is priced at `maxFeePerGas`. On OP stack chains (Base) each
+ * transaction also pays an L1 data fee, priced at the GasPriceOracle's
+ * upper bound for a vault-sized transaction.
+ *
+ * @param config - Chain configuration
+ * @param client - Viem public client for the chain
+ * @param gasUnits - Total gas limit of the transactions
+ * @param maxFeePerGas - Max fee per gas the transactions are sent with
+ * @param txCount - Number of transactions
+ */
+export async function estimateVaultTxCost(
+  config: ChainConfig,
+  client: PublicClient,
+  gasUnits: bigint,
+  maxFeePerGas: bigint,
+  txCount = 1
+): Promise<bigint> {
+  const gasCost = gasUnits * maxFeePerGas;
+  if (!OP_STACK_CHAIN_IDS.has(config.chainId)) {
+    return gasCost;
+  }
+
+  const l1Fee = await client.readContract({
+    address: GAS_PRICE_ORACLE_ADDRESS,
+    abi: GAS_PRICE_ORACLE_ABI,
+    functionName: "getL1FeeUpperBound",
+    args: [VAULT_TX_SIZE_BYTES],
+  });
+  return gasCost + l1Fee * BigInt(txCount);
+}
+
+/**
+ * Make sure a vault holds enough native ETH to pay for `gasUnits` of gas
+ *
+ * Tops up only the shortfall at the current worst-case fee (including L1
+ * data fees), and returns the fees the vault should use so the funded
+ * amount covers its transactions.
+ *
+ * @param config - Chain configuration
+ * @param client - Viem public client for the chain
+ * @param vaultAddress - The vault that needs gas
+ * @param gasUnits - Gas limit of the transaction(s) the vault will send
+ * @param txCount - Number of transactions the vault will send
+ */
+export async function fundVaultForGas(
+  config: ChainConfig,
+  client: PublicClient,
+  vaultAddress: Address,
+  gasUnits: bigint,
+  txCount = 1
+): Promise<GasFees> {
+  const account = getGasWalletAccount();
+  if (!account) {
+    throw new Error("Gas wallet not configured (GAS_WALLET_PRIVATE_KEY)");
+  }
+
+  const { maxFeePerGas, maxPriorityFeePerGas } = await client.estimateFeesPerGas();
+  const gasNeeded = await estimateVaultTxCost(config, client, gasUnits, maxFeePerGas, txCount);
+  const vaultBalance = await client.getBalance({ address: vaultAddress });
+
+  if (vaultBalance < gasNeeded) {
+    const shortfall = gasNeeded - vaultBalance;
+    const walletClient = createWalletClient({
+      account,
+      chain: viemChains[config.chainId],
+      transport: http(config.rpcUrl),
+    });
+
+    console.log(`[GasWallet] Funding vault ${vaultAddress} with ${shortfall} wei for gas`);
+
+    const txHash = await walletClient.sendTransaction({
+      to: vaultAddress,
+      value: shortfall,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    });
+
+    const receipt = await client.waitForTransactionReceipt({
+      hash: txHash,
+      confirmations: GAS_FUNDING_CONFIRMATIONS,
+    });
+    if (receipt.status !== "success") {
+      throw new Error(`Gas funding tx ${txHash} reverted`);
+    }
+  }
+
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Send a vault's leftover native ETH back to the gas wallet
+ *
+ * Only call this for vaults whose sell token is not native ETH.
+ * Dust that isn't worth a transfer stays in the vault.
+ *
+ * @param config - Chain configuration
+ * @param client - Viem public client for the chain
+ * @param vaultPrivateKey - The vault's private key
+ * @returns Amount swept in wei (0 if nothing was swept)
+ */
+export async function sweepVaultGas(
+  config: ChainConfig,
+  client: PublicClient,
+  vaultPrivateKey: `0x${string}`
+): Promise<bigint> {
+  const account = getGasWalletAccount();
+  if (!account) {
+    return 0n;
+  }
+
+  const vaultAccount = privateKeyToAccount(vaultPrivateKey);
+  const [vaultBalance, fees] = await Promise.all([
+    client.getBalance({ address: vaultAccount.address }),
+    client.estimateFeesPerGas(),
+  ]);
+
+  const sweepCost = await estimateVaultTxCost(config, client, NATIVE_TRANSFER_GAS, fees.maxFeePerGas);
+  if (vaultBalance <= sweepCost * SWEEP_MIN_COST_MULTIPLE) {
+    return 0n;
+  }
+
+  const amount = vaultBalance - sweepCost * SWEEP_RESERVE_COST_MULTIPLE;
+  const vaultClient = createWalletClient({
+    account: vaultAccount,
+    chain: viemChains[config.chainId],
+    transport: http(config.rpcUrl),
+  });
+
+  const txHash = await vaultClient.sendTransaction({
+    to: account.address,
+    value: amount,
+    gas: NATIVE_TRANSFER_GAS,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+  });
+
+  console.log(`[GasWallet] Swept ${amount} wei from vault ${vaultAccount.address} (tx: ${txHash})`);
+  return amount;
+}
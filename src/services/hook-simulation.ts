@@ -0,0 +1,147 @@
+/**
+ * Pre-Hook Simulation
+ *
+ * An order whose pre-hook reverts (bad nonce, wrong domain, ...) is never
+ * filled, and nothing says why. Before such an order is submitted, its
+ * pre-hooks are simulated with eth_call from the settlement contract,
+ * through Multicall3 so that the allowance and balance read afterward see
+ * the hooks' effects. The vault relayer must end up able to pull the full
+ * sell amount from the vault.
+ */
+
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  multicall3Abi,
+  type Address,
+  type PublicClient,
+} from "viem";
+import { chains } from "../config/chains";
+import { GPV2_SETTLEMENT_ADDRESS, GPV2_VAULT_RELAYER } from "../config/constants";
+import type { PreHook } from "./venues";
+import type { SupportedChainId } from "../types";
+
+export type PreHookSimulationFailure =
+  | "hook_reverted"
+  | "insufficient_allowance"
+  | "insufficient_balance";
+
+/**
+ * Thrown when an order's pre-hooks wouldn't leave the vault relayer able
+ * to pull the sell amount. Submitting the order would leave it unfillable.
+ */
+export class PreHookSimulationError extends Error {
+  constructor(
+    public readonly failure: PreHookSimulationFailure,
+    message: string
+  ) {
+    super(message);
+    this.name = "PreHookSimulationError";
+  }
+}
+
+export interface PreHookSimulationParams {
+  chainId: SupportedChainId;
+  owner: Address;       // The vault that signs the order
+  sellToken: Address;
+  sellAmount: bigint;
+  preHooks: PreHook[];
+}
+
+/**
+ * Simulate an order's pre-hooks and check the vault relayer can pull the
+ * sell amount afterward
+ *
+ * @throws PreHookSimulationError if a hook reverts, or the resulting
+ * allowance or vault balance doesn't cover the sell amount
+ */
+export async function simulatePreHooks(
+  client: PublicClient,
+  params: PreHookSimulationParams
+): Promise<void> {
+  const { chainId, owner, sellToken, sellAmount, preHooks } = params;
+
+  const calls = [
+    ...preHooks.map((hook) => ({
+      target: hook.target,
+      allowFailure: true,
+      callData: hook.callData,
+    })),
+    {
+      target: sellToken,
+      allowFailure: true,
+      callData: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [owner, GPV2_VAULT_RELAYER as Address],
+      }),
+    },
+    {
+      target: sellToken,
+      allowFailure: true,
+      callData: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [owner],
+      }),
+    },
+  ];
+
+  const { data } = await client.call({
+    account: GPV2_SETTLEMENT_ADDRESS as Address,
+    to: chains[chainId].multicall3,
+    data: encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: "aggregate3",
+      args: [calls],
+    }),
+  });
+  if (!data) {
+    throw new Error("Pre-hook simulation returned no data");
+  }
+
+  const result = decodeFunctionResult({
+    abi: multicall3Abi,
+    functionName: "aggregate3",
+    data,
+  });
+
+  preHooks.forEach((hook, i) => {
+    if (!result[i]?.success) {
+      throw new PreHookSimulationError(
+        "hook_reverted",
+        `Pre-hook ${i} to ${hook.target} reverts in simulation`
+      );
+    }
+  });
+
+  const [allowanceResult, balanceResult] = result.slice(preHooks.length);
+  if (!allowanceResult?.success || !balanceResult?.success) {
+    throw new Error(`Failed to read allowance and balance of ${sellToken} in simulation`);
+  }
+
+  const allowance = decodeFunctionResult({
+    abi: erc20Abi,
+    functionName: "allowance",
+    data: allowanceResult.returnData,
+  });
+  if (allowance < sellAmount) {
+    throw new PreHookSimulationError(
+      "insufficient_allowance",
+      `Vault relayer allowance ${allowance} after pre-hooks is below sell amount ${sellAmount}`
+    );
+  }
+
+  const balance = decodeFunctionResult({
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    data: balanceResult.returnData,
+  });
+  if (balance < sellAmount) {
+    throw new PreHookSimulationError(
+      "insufficient_balance",
+      `Vault balance ${balance} is below sell amount ${sellAmount}`
+    );
+  }
+}
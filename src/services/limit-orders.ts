@@ -0,0 +1,135 @@
+/**
+ * Limit Orders
+ *
+ * A swap created with limitBuyAmountPerUnit only executes at or better than
+ * that price. Its deposit is sold by a single limit-class order for the
+ * whole vault balance, signed for the limit's buy amount and valid until
+ * the swap's expiresAt. No market quote is needed to sign it, and it is
+ * never repriced: an order below the market simply waits. Once the
+ * deadline passes, the order expires and the unfilled balance is refunded.
+ *
+ * While the order is open, the market price is checked every
+ * LIMIT_PRICE_CHECK_INTERVAL_MINUTES and kept on the swap, so the status
+ * response can show how far the market is from the limit.
+ */
+
+import type { Address } from "viem";
+import { getSellTokenConfig, getTradedSellToken } from "../config/tokens";
+import { recordLimitMarketPrice } from "../db/queries";
+import { getSwapVenue, type VenueOrderStatus } from "./venues";
+import { getMinBuyAmount } from "./slippage";
+import { deserializeToken } from "../utils/token";
+import type { Swap } from "../db/schema";
+import type { SupportedChainId } from "../types";
+
+// Minimum time between market checks of an open limit order
+const LIMIT_PRICE_CHECK_INTERVAL_MS =
+  Number(process.env.LIMIT_PRICE_CHECK_INTERVAL_MINUTES ?? 5) * 60 * 1000;
+
+/**
+ * Thrown when a limit swap's deadline has passed before its order could
+ * be submitted. The swap is refunded.
+ */
+export class LimitDeadlinePassedError extends Error {
+  constructor(public readonly expiresAt: Date) {
+    super(`Limit order deadline ${expiresAt.toISOString()} has passed`);
+    this.name = "LimitDeadlinePassedError";
+  }
+}
+
+/**
+ * Check if a swap is a limit swap
+ */
+export function isLimitSwap(swap: Swap): boolean {
+  return swap.limitBuyAmountPerUnit !== null;
+}
+
+/**
+ * Get the decimals of a swap's sell token from the registry
+ */
+function getSellDecimals(swap: Swap): number {
+  const decimals = getSellTokenConfig(
+    swap.chainId as SupportedChainId,
+    deserializeToken(swap.sellToken)
+  )?.decimals;
+  if (decimals === undefined) {
+    throw new Error(`Sell token ${swap.sellToken} is not registered on chain ${swap.chainId}`);
+  }
+  return decimals;
+}
+
+/**
+ * Get the buy amount a limit swap's order must receive for a sell amount
+ */
+export function getLimitBuyAmount(swap: Swap, sellAmount: bigint): bigint {
+  if (swap.limitBuyAmountPerUnit === null) {
+    throw new Error(`Swap ${swap.swapId} has no limit price`);
+  }
+  return getMinBuyAmount(sellAmount, BigInt(swap.limitBuyAmountPerUnit), getSellDecimals(swap));
+}
+
+/**
+ * Get the validTo of a limit swap's order (the swap's deadline),
+ * or undefined for ordinary orders
+ *
+ * @throws LimitDeadlinePassedError if the deadline has already passed
+ */
+export function getLimitOrderValidTo(swap: Swap): number | undefined {
+  if (!isLimitSwap(swap)) {
+    return undefined;
+  }
+  if (swap.expiresAt.getTime() <= Date.now()) {
+    throw new LimitDeadlinePassedError(swap.expiresAt);
+  }
+  return Math.floor(swap.expiresAt.getTime() / 1000);
+}
+
+/**
+ * Get how far the market is from a limit, in bps of the limit price
+ * Positive while the market is below the limit; zero or negative once the
+ * order can fill.
+ */
+export function getLimitDistanceBps(
+  limitBuyAmountPerUnit: bigint,
+  marketBuyAmountPerUnit: bigint
+): number {
+  return Number(((limitBuyAmountPerUnit - marketBuyAmountPerUnit) * 10_000n) / limitBuyAmountPerUnit);
+}
+
+/**
+ * Check the market against an open limit order and record its price
+ *
+ * Quotes the order's sell amount at most every
+ * LIMIT_PRICE_CHECK_INTERVAL_MINUTES per swap.
+ *
+ * @param swap - The executing limit swap
+ * @param order - Current state of the swap's OPEN order
+ */
+export async function checkLimitMarketPrice(
+  swap: Swap,
+  order: VenueOrderStatus
+): Promise<void> {
+  if (!order.sellAmount || BigInt(order.sellAmount) === 0n) {
+    return;
+  }
+  if (
+    swap.limitCheckedAt &&
+    Date.now() - swap.limitCheckedAt.getTime() < LIMIT_PRICE_CHECK_INTERVAL_MS
+  ) {
+    return;
+  }
+
+  const chainId = swap.chainId as SupportedChainId;
+  const quote = await getSwapVenue(swap).getQuote({
+    chainId,
+    sellToken: getTradedSellToken(chainId, deserializeToken(swap.sellToken)),
+    buyToken: deserializeToken(swap.buyToken),
+    sellAmount: order.sellAmount,
+    from: swap.vaultAddress as Address,
+  });
+
+  // Per whole sell token, like the limit (fees included, as the order pays them)
+  const unit = 10n ** BigInt(getSellDecimals(swap));
+  const marketBuyAmountPerUnit = (BigInt(quote.buyAmount) * unit) / BigInt(order.sellAmount);
+  await recordLimitMarketPrice(swap.swapId, marketBuyAmountPerUnit.toString());
+}
@@ -80,6 +80,55 @@ export const swapDurationSeconds = new Histogram({
   registers: [registry],
 });
 
+export const swapsRefundedTotal = new Counter({
+  name: "swaps_refunded_total",
+  help: "Total number of swaps whose deposit was returned to the refund address",
+  labelNames: ["chain_id"] as const,
+  registers: [registry],
+});
+
+export const refundErrorsTotal = new Counter({
+  name: "refund_errors_total",
+  help: "Total number of failed refund attempts",
+  labelNames: ["chain_id"] as const,
+  registers: [registry],
+});
+
+export const swapTransitionRejectionsTotal = new Counter({
+  name: "swap_transition_rejections_total",
+  help: "Total number of rejected swap status transitions (illegal or lost race)",
+  labelNames: ["from", "to", "reason"] as const,
+  registers: [registry],
+});
+
+export const swapExecutionRetriesTotal = new Counter({
+  name: "swap_execution_retries_total",
+  help: "Total number of order submissions scheduled for retry after a transient failure",
+  labelNames: ["chain_id"] as const,
+  registers: [registry],
+});
+
+export const ordersResubmittedTotal = new Counter({
+  name: "orders_resubmitted_total",
+  help: "Total number of replacement orders submitted for expired COWSwap orders",
+  labelNames: ["chain_id"] as const,
+  registers: [registry],
+});
+
+export const staleOrdersCancelledTotal = new Counter({
+  name: "stale_orders_cancelled_total",
+  help: "Total number of OPEN COWSwap orders cancelled because the market moved past their limit",
+  labelNames: ["chain_id"] as const,
+  registers: [registry],
+});
+
+export const webhookDeliveriesTotal = new Counter({
+  name: "webhook_deliveries_total",
+  help: "Total number of webhook delivery attempts by outcome",
+  labelNames: ["result"] as const,
+  registers: [registry],
+});
+
 // =============================================================================
 // External API Metrics
 // =============================================================================
@@ -152,6 +201,64 @@ export function recordSwapCompleted(
   swapDurationSeconds.observe({ chain_id: chainId.toString() }, durationSeconds);
 }
 
+/**
+ * Record a refunded swap
+ */
+export function recordSwapRefunded(chainId: number): void {
+  swapsRefundedTotal.inc({ chain_id: chainId.toString() });
+}
+
+/**
+ * Record a failed refund attempt
+ */
+export function recordRefundError(chainId: number): void {
+  refundErrorsTotal.inc({ chain_id: chainId.toString() });
+}
+
+/**
+ * Record a rejected swap status transition
+ *
+ * @param reason - "illegal" (forbidden by the state machine) or
+ *                 "lost_race" (swap was no longer in the expected status)
+ */
+export function recordTransitionRejected(
+  from: string,
+  to: string,
+  reason: "illegal" | "lost_race"
+): void {
+  swapTransitionRejectionsTotal.inc({ from, to, reason });
+}
+
+/**
+ * Record an order submission scheduled for retry
+ */
+export function recordExecutionRetry(chainId: number): void {
+  swapExecutionRetriesTotal.inc({ chain_id: chainId.toString() });
+}
+
+/**
+ * Record a replacement order submitted for an expired one
+ */
+export function recordOrderResubmitted(chainId: number): void {
+  ordersResubmittedTotal.inc({ chain_id: chainId.toString() });
+}
+
+/**
+ * Record a stale OPEN order cancelled for repricing
+ */
+export function recordStaleOrderCancelled(chainId: number): void {
+  staleOrdersCancelledTotal.inc({ chain_id: chainId.toString() });
+}
+
+/**
+ * Record a webhook delivery attempt
+ *
+ * @param result - "delivered", "retry" (will be retried) or "failed" (gave up)
+ */
+export function recordWebhookDelivery(result: "delivered" | "retry" | "failed"): void {
+  webhookDeliveriesTotal.inc({ result });
+}
+
 /**
  * Record a COWSwap API error
  */
@@ -3,6 +3,7 @@ import {
   type PublicClient,
   erc20Abi,
   getContract,
+  multicall3Abi,
 } from "viem";
 import type { Token } from "../types";
 import { getTokenAddress, isEtherToken } from "../types";
@@ -12,16 +13,34 @@ import type { Swap } from "../db/schema";
 // Maximum addresses to query in a single multicall
 const MULTICALL_BATCH_SIZE = 7500;
 
+/**
+ * Get the Multicall3 address of a client's chain
+ * Native balances are read through Multicall3's getEthBalance
+ */
+function getMulticall3Address(client: PublicClient): Address {
+  const address = client.chain?.contracts?.multicall3?.address;
+  if (!address) {
+    throw new Error(`Multicall3 not configured for chain ${client.chain?.id}`);
+  }
+  return address;
+}
+
 /**
  * Batch get balances for multiple swaps using multicall
  * Returns balances in the same order as input swaps
  *
+ * ERC20 sell tokens are read with balanceOf, native ETH with Multicall3's
+ * getEthBalance, all in the same multicall.
+ *
  * Automatically chunks into batches of MULTICALL_BATCH_SIZE to avoid
  * RPC limits and timeouts.
+ *
+ * @param blockNumber - Block to read balances at (defaults to latest)
  */
 export async function batchGetBalances(
   client: PublicClient,
-  swaps: Swap[]
+  swaps: Swap[],
+  blockNumber?: bigint
 ): Promise<bigint[]> {
   if (swaps.length === 0) return [];
 
@@ -34,7 +53,12 @@ export async function batchGetBalances(
     const contracts = chunk.map((swap) => {
       const sellToken = deserializeToken(swap.sellToken);
       if (isEtherToken(sellToken)) {
-        throw new Error("Ether token not supported for balanceOf");
+        return {
+          address: getMulticall3Address(client),
+          abi: multicall3Abi,
+          functionName: "getEthBalance" as const,
+          args: [swap.vaultAddress as Address] as const,
+        };
       }
       return {
         address: getTokenAddress(sellToken) as Address,
@@ -47,6 +71,7 @@ export async function batchGetBalances(
     const chunkResults = await client.multicall({
       contracts,
       allowFailure: true,
+      blockNumber,
     });
 
     for (const result of chunkResults) {
@@ -69,13 +94,16 @@ export async function getBalance(
   address: Address,
   token: Token
 ): Promise<bigint> {
-  const contract = getContract({
-    address: getTokenAddress(token) as Address,
-    abi: erc20Abi,
-    client,
-  });
-
   try {
+    if (isEtherToken(token)) {
+      return await client.getBalance({ address });
+    }
+
+    const contract = getContract({
+      address: getTokenAddress(token) as Address,
+      abi: erc20Abi,
+      client,
+    });
     return await contract.read.balanceOf([address]);
   } catch {
     return 0n;
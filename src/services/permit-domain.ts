@@ -0,0 +1,159 @@
+/**
+ * Permit Domain Verification
+ *
+ * A permit signed over the wrong EIP-712 domain makes the solver's permit
+ * hook revert, leaving an order that can never fill and no hint as to why.
+ * Before signing, the registry's permit domain is checked against the
+ * token itself: eip712Domain() (EIP-5267) when the token implements it,
+ * otherwise its DOMAIN_SEPARATOR(). Verified domains are cached per chain
+ * and token.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  domainSeparator,
+  type Address,
+  type PublicClient,
+} from "viem";
+import type { PermitDomain } from "../config/tokens";
+import type { SupportedChainId } from "../types";
+
+/**
+ * Thrown when a token's on-chain EIP-712 domain differs from the one we
+ * would sign its permit with. The permit hook would revert, so the swap
+ * can't execute via permit until the registry is fixed.
+ */
+export class PermitDomainMismatchError extends Error {
+  constructor(
+    public readonly chainId: SupportedChainId,
+    public readonly tokenAddress: Address,
+    detail: string
+  ) {
+    super(`Permit domain mismatch for token ${tokenAddress} on chain ${chainId}: ${detail}`);
+    this.name = "PermitDomainMismatchError";
+  }
+}
+
+/**
+ * ABI for the pre-EIP-5267 domain getter
+ */
+const DOMAIN_SEPARATOR_ABI = [
+  {
+    name: "DOMAIN_SEPARATOR",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+] as const;
+
+// Domains already checked against the token, keyed by chain, token and domain
+const verifiedDomains: Set<string> = new Set();
+
+/**
+ * Check if a read failed because the token doesn't implement the function
+ * (as opposed to an RPC failure, which is worth retrying)
+ */
+function isMissingFunction(error: unknown): boolean {
+  if (!(error instanceof BaseError)) {
+    return false;
+  }
+  if (error.name === "Eip712DomainNotFoundError") {
+    return true;
+  }
+  return Boolean(
+    error.walk(
+      (cause) =>
+        cause instanceof ContractFunctionRevertedError ||
+        cause instanceof ContractFunctionZeroDataError
+    )
+  );
+}
+
+/**
+ * Verify that the domain we sign permits with matches the token's own
+ *
+ * Tokens exposing neither eip712Domain() nor DOMAIN_SEPARATOR() can't be
+ * checked; a warning is logged and signing goes ahead.
+ *
+ * @throws PermitDomainMismatchError if the token reports a different domain
+ */
+export async function verifyPermitDomain(
+  client: PublicClient,
+  chainId: SupportedChainId,
+  tokenAddress: Address,
+  permitDomain: PermitDomain
+): Promise<void> {
+  const cacheKey = `${chainId}:${tokenAddress.toLowerCase()}:${permitDomain.name}:${permitDomain.version}`;
+  if (verifiedDomains.has(cacheKey)) {
+    return;
+  }
+
+  const expected = {
+    name: permitDomain.name,
+    version: permitDomain.version,
+    chainId,
+    verifyingContract: tokenAddress,
+  };
+
+  try {
+    const { domain } = await client.getEip712Domain({ address: tokenAddress });
+
+    if (domain.name !== expected.name || domain.version !== expected.version) {
+      throw new PermitDomainMismatchError(
+        chainId,
+        tokenAddress,
+        `token reports name "${domain.name}" version "${domain.version}", ` +
+          `registry has name "${expected.name}" version "${expected.version}"`
+      );
+    }
+    if (
+      domain.chainId !== chainId ||
+      domain.verifyingContract.toLowerCase() !== tokenAddress.toLowerCase()
+    ) {
+      throw new PermitDomainMismatchError(
+        chainId,
+        tokenAddress,
+        `token reports chain ${domain.chainId} and contract ${domain.verifyingContract}`
+      );
+    }
+
+    verifiedDomains.add(cacheKey);
+    return;
+  } catch (error) {
+    if (!isMissingFunction(error)) {
+      throw error;
+    }
+  }
+
+  // No EIP-5267 - fall back to comparing domain separators
+  try {
+    const onChain = await client.readContract({
+      address: tokenAddress,
+      abi: DOMAIN_SEPARATOR_ABI,
+      functionName: "DOMAIN_SEPARATOR",
+    });
+
+    const computed = domainSeparator({ domain: expected });
+    if (onChain.toLowerCase() !== computed.toLowerCase()) {
+      throw new PermitDomainMismatchError(
+        chainId,
+        tokenAddress,
+        `DOMAIN_SEPARATOR ${onChain} does not match ${computed} ` +
+          `(name "${expected.name}", version "${expected.version}")`
+      );
+    }
+  } catch (error) {
+    if (!isMissingFunction(error)) {
+      throw error;
+    }
+    console.warn(
+      `[PermitDomain] Token ${tokenAddress} on chain ${chainId} exposes no EIP-712 domain, ` +
+        `signing with the registry domain unverified`
+    );
+  }
+
+  verifiedDomains.add(cacheKey);
+}
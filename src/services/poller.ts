@@ -1,38 +1,74 @@
-import { createPublicClient, http, type PublicClient } from "viem";
-import { mainnet, base } from "viem/chains";
+import type { Address, PublicClient } from "viem";
 import { chains } from "../config/chains";
+import { checkSellAmountLimits, getSellTokenConfig } from "../config/tokens";
 import {
+  getChainCursor,
   getPendingSwaps,
+  getRecentlyExpiredSwaps,
+  markDepositSeen,
+  markExpiredForRefund,
   markSwapExecuting,
   markSwapFailed,
+  markSwapFailedNeedsRefund,
   recordDeposit,
   saveOrderUid,
+  scheduleExecutionRetry,
+  setChainCursor,
+  startTwap,
 } from "../db/queries";
 import { batchGetBalances } from "./multicall";
 import { executeSwap as executeSwapFlow } from "./executor";
-import { recordCowswapError } from "./metrics";
+import { recordCowswapError, recordExecutionRetry } from "./metrics";
+import { classifyExecutionError, describeExecutionError } from "./execution-errors";
+import { createChainClient } from "./chain-client";
+import { findTransfersToVaults, tryFindDepositTransfers } from "./deposits";
+import { getTwapPartAmount, planTwap, shouldExecuteAsTwap } from "./twap";
+import { isLimitSwap } from "./limit-orders";
+import { deserializeToken } from "../utils/token";
 import type { Swap } from "../db/schema";
-import type { ChainConfig } from "../types";
+import type { ChainConfig, DepositTransfer, SupportedChainId } from "../types";
+import { isEtherToken } from "../types";
 
-// Map chain IDs to viem chain configs
-const viemChains = {
-  1: mainnet,
-  8453: base,
-} as const;
+// How often to check recently expired swaps for deposits that arrived late
+const LATE_DEPOSIT_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
 
-// Store active poller intervals
-const pollerIntervals: Map<number, ReturnType<typeof setInterval>> = new Map();
+// Only sweep swaps that expired within this window (older vaults need manual recovery)
+const LATE_DEPOSIT_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
 
 /**
- * Create a viem public client for a chain
+ * What to do with a deposit that lands after the swap expired:
+ * - "refund": return it to the refund address (default)
+ * - "execute": run the swap anyway
  */
-function createChainClient(config: ChainConfig): PublicClient {
-  const chain = viemChains[config.chainId as keyof typeof viemChains];
-  return createPublicClient({
-    chain,
-    transport: http(config.rpcUrl),
-  }) as PublicClient;
-}
+export type LateDepositPolicy = "refund" | "execute";
+
+const LATE_DEPOSIT_POLICY: LateDepositPolicy =
+  process.env.LATE_DEPOSIT_POLICY === "execute" ? "execute" : "refund";
+
+// Event-driven detection: largest block gap scanned via logs. Larger gaps
+// (first start, downtime) are recovered with a multicall balance sweep.
+const MAX_LOG_BLOCK_RANGE = 2_000;
+
+// Event-driven detection: interval of the safety-net multicall sweep
+const EVENTS_FALLBACK_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Order submission attempts before a swap is routed to refund
+const MAX_EXECUTION_ATTEMPTS = 5;
+
+// Retry backoff after a transient failure: 30s, 1m, 2m, 4m, ... capped at 10m
+const EXECUTION_RETRY_BASE_MS = 30_000;
+const EXECUTION_RETRY_MAX_MS = 10 * 60 * 1000;
+
+// Store active poller intervals
+const pollerIntervals: Map<number, ReturnType<typeof setInterval>> = new Map();
+const sweepIntervals: Map<number, ReturnType<typeof setInterval>> = new Map();
+
+// Store active block watchers (event-driven detection)
+const blockWatchers: Map<number, () => void> = new Map();
+
+// Chains with a block scan in progress (new blocks arriving meanwhile are
+// covered by the next scan, which starts from the persisted cursor)
+const scansInProgress: Set<number> = new Set();
 
 /**
  * Execute a swap after deposit is detected
@@ -40,30 +76,88 @@ function createChainClient(config: ChainConfig): PublicClient {
  * This submits the order to COWSwap and saves the order UID.
  * The settlement poller will track the order until it's filled.
  *
- * If COWSwap rejects the order (e.g., amount too small), the swap is marked
- * as failed and won't be retried. Funds remain in the vault for manual recovery.
+ * Failures are classified (see execution-errors.ts). Transient ones
+ * (timeouts, 5xx, RPC errors) return the swap to pending_deposit with a
+ * backoff until MAX_EXECUTION_ATTEMPTS is reached; permanent ones (e.g.
+ * amount too small) and exhausted retries route the swap to refund, as do
+ * deposits outside the sell token's limits.
  *
  * @param swap - The swap record
- * @param balance - The actual CBBTC balance in the vault to swap
+ * @param balance - The actual sell token balance in the vault to swap
+ * @param config - Chain configuration
  * @param client - Viem public client for the chain
+ * @param knownTransfers - Transfers already seen by the event watcher (skips log lookup)
  */
-async function executeSwap(swap: Swap, balance: bigint, client: PublicClient): Promise<void> {
+async function executeSwap(
+  swap: Swap,
+  balance: bigint,
+  config: ChainConfig,
+  client: PublicClient,
+  knownTransfers?: DepositTransfer[]
+): Promise<void> {
+  // Claim the swap first (compare-and-set). Polls overlap with slow order
+  // submissions, and only one of them may ever sign an order for a vault.
+  const from = swap.status === "expired" ? "expired" : "pending_deposit";
+  if (!(await markSwapExecuting(swap.swapId, from))) {
+    console.log(`[Poller] Swap ${swap.swapId} already claimed, skipping`);
+    return;
+  }
+
   console.log(`[Poller] Executing swap ${swap.swapId} on chain ${swap.chainId}, amount: ${balance}`);
 
+  // Set once COWSwap has accepted the order
+  let orderId: string | undefined;
+
   try {
-    // Record the deposit amount
-    await recordDeposit(swap.swapId, "", "", balance.toString());
+    // Record the deposit amount and the transfers that funded the vault
+    // (already recorded when this is a retry)
+    if (!swap.depositConfirmedAt) {
+      const transfers = knownTransfers ?? (await tryFindDepositTransfers(client, config, swap));
+      await recordDeposit(swap.swapId, transfers, balance.toString());
+    }
 
-    // Mark as executing
-    await markSwapExecuting(swap.swapId);
+    // Deposits outside the sell token's limits are refunded, not swapped
+    const sellTokenConfig = getSellTokenConfig(
+      swap.chainId as SupportedChainId,
+      deserializeToken(swap.sellToken)
+    );
+    const limitError = sellTokenConfig && checkSellAmountLimits(sellTokenConfig, balance);
+    if (limitError) {
+      console.warn(`[Poller] Swap ${swap.swapId} deposit rejected: ${limitError}`);
+      await markSwapFailedNeedsRefund(swap.swapId, `Deposit rejected: ${limitError}`);
+      return;
+    }
+
+    // Large deposits are sold in parts over the TWAP window (buy swaps
+    // buy their amount, and limit swaps wait for their price, in one order)
+    let executing = swap;
+    if (
+      swap.kind === "sell" &&
+      !isLimitSwap(swap) &&
+      swap.twapParts === null &&
+      sellTokenConfig &&
+      shouldExecuteAsTwap(sellTokenConfig, balance)
+    ) {
+      const { twapParts, twapEndsAt } = planTwap();
+      const planned = await startTwap(swap.swapId, twapParts, twapEndsAt);
+      if (!planned) {
+        console.log(`[Poller] Swap ${swap.swapId} no longer executing, skipping`);
+        return;
+      }
+      executing = planned;
+      console.log(
+        `[Poller] Swap ${swap.swapId} executing as a TWAP of ${twapParts} parts until ${twapEndsAt.toISOString()}`
+      );
+    }
 
-    // Execute the swap using the permit flow with the actual balance
-    const result = await executeSwapFlow(swap, balance, client);
+    // Execute the swap with the actual balance (or its first TWAP part)
+    const result = await executeSwapFlow(executing, getTwapPartAmount(executing, balance), client);
+    orderId = result.orderId;
 
     console.log(`[Poller] Swap ${swap.swapId} order submitted: ${result.orderId}`);
 
     // Save the order UID - settlement poller will track until filled
-    await saveOrderUid(swap.swapId, result.orderId);
+    await saveOrderUid(swap.swapId, result.orderId, result.buyAmount);
 
     console.log(
       `[Poller] Swap ${swap.swapId} order saved. ` +
@@ -73,21 +167,58 @@ async function executeSwap(swap: Swap, balance: bigint, client: PublicClient): P
     console.error(`[Poller] Swap ${swap.swapId} failed:`, error);
 
     // Extract error message for storage
-    const failureReason = error instanceof Error ? error.message : String(error);
+    const failureReason = describeExecutionError(error);
+
+    if (orderId) {
+      // The order is live but wasn't saved. Retrying or refunding could
+      // spend the vault twice, so leave it for manual recovery.
+      await markSwapFailed(swap.swapId, `Order ${orderId} submitted but not saved: ${failureReason}`);
+      return;
+    }
 
     // Record COWSwap error metric (most failures are from quote/order submission)
     recordCowswapError(swap.chainId, "createOrder");
 
-    // Mark as failed - won't be retried. Funds remain in vault for manual recovery.
-    await markSwapFailed(swap.swapId, failureReason);
+    const attempts = swap.executionAttempts + 1;
+
+    if (classifyExecutionError(error) === "permanent") {
+      await markSwapFailedNeedsRefund(swap.swapId, failureReason);
+    } else if (attempts >= MAX_EXECUTION_ATTEMPTS) {
+      console.warn(`[Poller] Swap ${swap.swapId} giving up after ${attempts} attempts, routing to refund`);
+      await markSwapFailedNeedsRefund(
+        swap.swapId,
+        `Order submission failed after ${attempts} attempts: ${failureReason}`
+      );
+    } else {
+      const delayMs = Math.min(EXECUTION_RETRY_BASE_MS * 2 ** (attempts - 1), EXECUTION_RETRY_MAX_MS);
+      const nextAttemptAt = new Date(Date.now() + delayMs);
+      console.log(
+        `[Poller] Swap ${swap.swapId} attempt ${attempts}/${MAX_EXECUTION_ATTEMPTS} failed, ` +
+          `retrying at ${nextAttemptAt.toISOString()}`
+      );
+      if (await scheduleExecutionRetry(swap.swapId, attempts, nextAttemptAt, failureReason)) {
+        recordExecutionRetry(swap.chainId);
+      }
+    }
   }
 }
 
+/**
+ * Get the latest block considered final for deposits on a chain
+ */
+function getConfirmedBlock(config: ChainConfig, latestBlock: bigint): bigint {
+  const confirmed = latestBlock - BigInt(config.confirmations);
+  return confirmed > 0n ? confirmed : 0n;
+}
+
 /**
  * Poll for pending swaps on a chain and execute funded ones
  *
- * Any non-zero balance triggers a swap attempt. If COWSwap rejects it
- * (e.g., amount too small), the swap is marked as failed.
+ * Balances are read at the chain head and at `latest - confirmations`.
+ * A balance only at the head marks the deposit as seen; execution waits
+ * until the balance is present at the confirmed block, so a reorged
+ * deposit never leads to a signed order. Swaps awaiting an execution
+ * retry are returned here once due and re-executed the same way.
  */
 async function pollChain(config: ChainConfig, client: PublicClient): Promise<void> {
   try {
@@ -100,23 +231,36 @@ async function pollChain(config: ChainConfig, client: PublicClient): Promise<voi
 
     console.log(`[Poller] Chain ${config.chainId}: Checking ${pending.length} pending swaps`);
 
-    // Batch get all balances
-    const balances = await batchGetBalances(client, pending);
+    const latestBlock = await client.getBlockNumber();
+    const confirmedBlock = getConfirmedBlock(config, latestBlock);
+
+    // Batch get all balances, at the head and at confirmation depth
+    const [latestBalances, confirmedBalances] = await Promise.all([
+      batchGetBalances(client, pending, latestBlock),
+      batchGetBalances(client, pending, confirmedBlock),
+    ]);
 
     // Process swaps that have any balance
     for (let i = 0; i < pending.length; i++) {
       const swap = pending[i];
-      const balance = balances[i];
+      const latestBalance = latestBalances[i];
+      const balance = confirmedBalances[i];
 
-      if (!swap || balance === undefined) continue;
+      if (!swap || latestBalance === undefined || balance === undefined) continue;
 
       if (balance > 0n) {
-        console.log(`[Poller] Swap ${swap.swapId} has balance: ${balance}`);
+        console.log(`[Poller] Swap ${swap.swapId} has confirmed balance: ${balance}`);
         // Execute in background to not block other swaps
         // Pass the actual balance to swap the entire amount
-        executeSwap(swap, balance, client).catch((err) =>
+        executeSwap(swap, balance, config, client).catch((err) =>
           console.error(`[Poller] Error executing swap ${swap.swapId}:`, err)
         );
+      } else if (latestBalance > 0n && !swap.depositSeenAt) {
+        console.log(
+          `[Poller] Swap ${swap.swapId} deposit seen (${latestBalance}), ` +
+            `waiting for ${config.confirmations} confirmations`
+        );
+        await markDepositSeen(swap.swapId);
       }
     }
   } catch (error) {
@@ -124,38 +268,283 @@ async function pollChain(config: ChainConfig, client: PublicClient): Promise<voi
   }
 }
 
+/**
+ * Scan new blocks for sell token transfers into pending vaults
+ *
+ * Event-driven alternative to pollChain: cost scales with block activity
+ * instead of the number of open swaps. Scans from the persisted cursor to
+ * `latestBlock`; if there is no cursor yet, the gap is too large to scan
+ * with eth_getLogs or the log query fails, falls back to a full multicall
+ * sweep and moves the cursor to the confirmed head.
+ *
+ * Transfers above the confirmation depth only mark deposits as seen; the
+ * cursor stays at the confirmed head so they are rescanned until final.
+ */
+export async function scanNewBlocks(
+  config: ChainConfig,
+  client: PublicClient,
+  latestBlock: bigint
+): Promise<void> {
+  if (scansInProgress.has(config.chainId)) {
+    return;
+  }
+  scansInProgress.add(config.chainId);
+
+  try {
+    const confirmedBlock = getConfirmedBlock(config, latestBlock);
+    const head = Number(confirmedBlock);
+    const cursor = await getChainCursor(config.chainId);
+
+    if (cursor !== undefined && head <= cursor) {
+      return;
+    }
+
+    if (cursor === undefined || head - cursor > MAX_LOG_BLOCK_RANGE) {
+      console.log(
+        `[Poller] Chain ${config.chainId}: cursor ${cursor ?? "unset"} too far behind ` +
+          `block ${head}, recovering with multicall sweep`
+      );
+      await pollChain(config, client);
+      await setChainCursor(config.chainId, head);
+      return;
+    }
+
+    const pending = await getPendingSwaps(config.chainId);
+
+    if (pending.length > 0) {
+      const swapsByVault = new Map(pending.map((swap) => [swap.vaultAddress.toLowerCase(), swap]));
+
+      // Watch each ERC20 swap's vault for transfers of its own sell token only
+      const vaultsByToken = new Map<Address, string[]>();
+      for (const swap of pending) {
+        const sellToken = deserializeToken(swap.sellToken);
+        if (sellToken.type === "erc20") {
+          const tokenAddress = sellToken.address.toLowerCase() as Address;
+          const vaults = vaultsByToken.get(tokenAddress) ?? [];
+          vaults.push(swap.vaultAddress.toLowerCase());
+          vaultsByToken.set(tokenAddress, vaults);
+        }
+      }
+
+      let transfersByVault: Map<string, DepositTransfer[]>;
+      try {
+        transfersByVault = await findTransfersToVaults(
+          client,
+          vaultsByToken,
+          BigInt(cursor + 1),
+          latestBlock
+        );
+      } catch (error) {
+        // Some RPCs reject or time out on log queries; balances still work
+        console.error(
+          `[Poller] Chain ${config.chainId}: log query failed, recovering with multicall sweep:`,
+          error
+        );
+        await pollChain(config, client);
+        await setChainCursor(config.chainId, head);
+        return;
+      }
+
+      // Swaps due for an execution retry have no new transfers to find
+      const funded: Swap[] = pending.filter((swap) => swap.depositConfirmedAt !== null);
+
+      // Native ETH deposits emit no logs, so those vaults are checked by balance
+      const etherSwaps = pending.filter(
+        (swap) => !swap.depositConfirmedAt && isEtherToken(deserializeToken(swap.sellToken))
+      );
+      if (etherSwaps.length > 0) {
+        const [latestBalances, confirmedBalances] = await Promise.all([
+          batchGetBalances(client, etherSwaps, latestBlock),
+          batchGetBalances(client, etherSwaps, confirmedBlock),
+        ]);
+        for (let i = 0; i < etherSwaps.length; i++) {
+          const swap = etherSwaps[i];
+          if (!swap) continue;
+          if ((confirmedBalances[i] ?? 0n) > 0n) {
+            funded.push(swap);
+          } else if ((latestBalances[i] ?? 0n) > 0n && !swap.depositSeenAt) {
+            await markDepositSeen(swap.swapId);
+          }
+        }
+      }
+      for (const [vault, transfers] of transfersByVault) {
+        const swap = swapsByVault.get(vault);
+        if (!swap) continue;
+
+        if (swap.depositConfirmedAt) continue;
+
+        if (transfers.some((transfer) => transfer.blockNumber <= head)) {
+          funded.push(swap);
+        } else if (!swap.depositSeenAt) {
+          console.log(
+            `[Poller] Swap ${swap.swapId} deposit seen in logs, ` +
+              `waiting for ${config.confirmations} confirmations`
+          );
+          await markDepositSeen(swap.swapId);
+        }
+      }
+
+      if (funded.length > 0) {
+        // Swap the full confirmed vault balance, not just the newly seen transfers
+        const balances = await batchGetBalances(client, funded, confirmedBlock);
+
+        for (let i = 0; i < funded.length; i++) {
+          const swap = funded[i];
+          const balance = balances[i];
+
+          if (!swap || balance === undefined || balance === 0n) continue;
+
+          console.log(`[Poller] Swap ${swap.swapId} deposit confirmed in logs, balance: ${balance}`);
+          const transfers = transfersByVault
+            .get(swap.vaultAddress.toLowerCase())
+            ?.filter((transfer) => transfer.blockNumber <= head);
+          executeSwap(swap, balance, config, client, transfers).catch((err) =>
+            console.error(`[Poller] Error executing swap ${swap.swapId}:`, err)
+          );
+        }
+      }
+    }
+
+    await setChainCursor(config.chainId, head);
+  } catch (error) {
+    // Cursor is not advanced, so the same range is retried on the next block
+    console.error(`[Poller] Error scanning blocks on chain ${config.chainId}:`, error);
+  } finally {
+    scansInProgress.delete(config.chainId);
+  }
+}
+
+/**
+ * Check recently expired swaps for deposits that arrived after expiry
+ *
+ * markExpiredSwaps only looks at the clock, so a user who deposits after
+ * the TTL would otherwise have their funds stranded. Funded vaults are
+ * routed according to LATE_DEPOSIT_POLICY.
+ *
+ * @param policy - What to do with late deposits (LATE_DEPOSIT_POLICY by default)
+ */
+export async function sweepLateDeposits(
+  config: ChainConfig,
+  client: PublicClient,
+  policy: LateDepositPolicy = LATE_DEPOSIT_POLICY
+): Promise<void> {
+  try {
+    const since = new Date(Date.now() - LATE_DEPOSIT_LOOKBACK_MS);
+    const expired = await getRecentlyExpiredSwaps(config.chainId, since);
+
+    if (expired.length === 0) {
+      return;
+    }
+
+    const latestBlock = await client.getBlockNumber();
+    const balances = await batchGetBalances(
+      client,
+      expired,
+      getConfirmedBlock(config, latestBlock)
+    );
+
+    for (let i = 0; i < expired.length; i++) {
+      const swap = expired[i];
+      const balance = balances[i];
+
+      if (!swap || balance === undefined || balance === 0n) continue;
+
+      console.log(
+        `[Poller] Late deposit of ${balance} for expired swap ${swap.swapId} (policy: ${policy})`
+      );
+
+      if (policy === "execute") {
+        executeSwap(swap, balance, config, client).catch((err) =>
+          console.error(`[Poller] Error executing late swap ${swap.swapId}:`, err)
+        );
+      } else {
+        const transfers = await tryFindDepositTransfers(client, config, swap);
+        await recordDeposit(swap.swapId, transfers, balance.toString());
+        await markExpiredForRefund(swap.swapId);
+      }
+    }
+  } catch (error) {
+    console.error(`[Poller] Error sweeping late deposits on chain ${config.chainId}:`, error);
+  }
+}
+
 /**
  * Start the poller for a specific chain
  */
 export function startPollerForChain(config: ChainConfig): void {
-  console.log(
-    `[Poller] Starting poller for ${config.name} (chain ${config.chainId}) ` +
-    `with interval ${config.pollingIntervalMs}ms`
-  );
-
   const client = createChainClient(config);
 
-  // Run immediately once
-  pollChain(config, client);
+  if (config.depositDetection === "events") {
+    console.log(
+      `[Poller] Starting event-driven deposit detection for ${config.name} (chain ${config.chainId}) ` +
+      `with fallback sweep every ${EVENTS_FALLBACK_SWEEP_INTERVAL_MS}ms`
+    );
+
+    // Follow new blocks and scan their Transfer logs
+    const unwatch = client.watchBlockNumber({
+      pollingInterval: config.blockTimeMs,
+      onBlockNumber: (blockNumber) => {
+        scanNewBlocks(config, client, blockNumber);
+      },
+      onError: (error) =>
+        console.error(`[Poller] Block watcher error on chain ${config.chainId}:`, error),
+    });
+    blockWatchers.set(config.chainId, unwatch);
 
-  // Then run on interval
-  const interval = setInterval(() => {
+    // Safety net for anything the log scan missed
+    const interval = setInterval(() => {
+      pollChain(config, client);
+    }, EVENTS_FALLBACK_SWEEP_INTERVAL_MS);
+
+    pollerIntervals.set(config.chainId, interval);
+  } else {
+    console.log(
+      `[Poller] Starting poller for ${config.name} (chain ${config.chainId}) ` +
+      `with interval ${config.pollingIntervalMs}ms`
+    );
+
+    // Run immediately once
     pollChain(config, client);
-  }, config.pollingIntervalMs);
 
-  pollerIntervals.set(config.chainId, interval);
+    // Then run on interval
+    const interval = setInterval(() => {
+      pollChain(config, client);
+    }, config.pollingIntervalMs);
+
+    pollerIntervals.set(config.chainId, interval);
+  }
+
+  // Sweep expired swaps for late deposits on a slower cadence
+  sweepLateDeposits(config, client);
+  const sweepInterval = setInterval(() => {
+    sweepLateDeposits(config, client);
+  }, LATE_DEPOSIT_SWEEP_INTERVAL_MS);
+
+  sweepIntervals.set(config.chainId, sweepInterval);
 }
 
 /**
  * Stop the poller for a specific chain
  */
 export function stopPollerForChain(chainId: number): void {
+  const unwatch = blockWatchers.get(chainId);
+  if (unwatch) {
+    unwatch();
+    blockWatchers.delete(chainId);
+  }
+
   const interval = pollerIntervals.get(chainId);
   if (interval) {
     clearInterval(interval);
     pollerIntervals.delete(chainId);
     console.log(`[Poller] Stopped poller for chain ${chainId}`);
   }
+
+  const sweepInterval = sweepIntervals.get(chainId);
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepIntervals.delete(chainId);
+  }
 }
 
 /**
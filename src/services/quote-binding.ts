@@ -0,0 +1,87 @@
+/**
+ * Quote Binding
+ *
+ * A swap created with a quoteId is bound to that quote's price. Every
+ * order for it is checked against the price: a fresh quote more than
+ * QUOTE_TOLERANCE_BPS worse than the bound quote (scaled to the amount
+ * actually sold) is handled by QUOTE_DEVIATION_POLICY:
+ * - "execute": submit the order at the market price anyway
+ * - "reprice": don't submit now; re-quote on the execution retry schedule,
+ *   refunding once the retries run out
+ * - "refund": refund the swap
+ */
+
+import type { Swap } from "../db/schema";
+
+/**
+ * What to do when the market has moved past a bound quote's tolerance
+ */
+export type QuoteDeviationPolicy = "execute" | "reprice" | "refund";
+
+function parseQuoteDeviationPolicy(value: string | undefined): QuoteDeviationPolicy {
+  return value === "execute" || value === "refund" ? value : "reprice";
+}
+
+// Tolerated shortfall of a fresh quote against the bound quote (100 bps = 1%)
+const QUOTE_TOLERANCE_BPS = Number(process.env.QUOTE_TOLERANCE_BPS ?? 100);
+
+const QUOTE_DEVIATION_POLICY = parseQuoteDeviationPolicy(process.env.QUOTE_DEVIATION_POLICY);
+
+/**
+ * Thrown when a fresh quote falls short of the swap's bound quote and the
+ * policy is "reprice" or "refund"
+ */
+export class QuoteDeviationError extends Error {
+  constructor(
+    public readonly policy: Exclude<QuoteDeviationPolicy, "execute">,
+    public readonly quotedBuyAmount: bigint,
+    public readonly freshBuyAmount: bigint
+  ) {
+    super(
+      `Market quote ${freshBuyAmount} is more than ${QUOTE_TOLERANCE_BPS} bps below ` +
+        `the bound quote's ${quotedBuyAmount}`
+    );
+    this.name = "QuoteDeviationError";
+  }
+}
+
+/**
+ * Get the buy amount a swap's bound quote implies for a sell amount
+ * (undefined if the swap isn't bound to a quote)
+ */
+export function getQuotedBuyAmount(swap: Swap, sellAmount: bigint): bigint | undefined {
+  if (!swap.quotedSellAmount || !swap.quotedBuyAmount) {
+    return undefined;
+  }
+  return (sellAmount * BigInt(swap.quotedBuyAmount)) / BigInt(swap.quotedSellAmount);
+}
+
+/**
+ * Check a fresh quote against the swap's bound quote
+ *
+ * @param swap - The swap being executed
+ * @param sellAmount - The fresh quote's sell amount
+ * @param buyAmount - The fresh quote's buy amount
+ * @throws QuoteDeviationError if the fresh quote is outside the tolerance
+ * and the policy doesn't allow executing anyway
+ */
+export function checkBoundQuote(swap: Swap, sellAmount: bigint, buyAmount: bigint): void {
+  const quotedBuyAmount = getQuotedBuyAmount(swap, sellAmount);
+  if (quotedBuyAmount === undefined) {
+    return;
+  }
+
+  const tolerated = (quotedBuyAmount * BigInt(10_000 - QUOTE_TOLERANCE_BPS)) / 10_000n;
+  if (buyAmount >= tolerated) {
+    return;
+  }
+
+  if (QUOTE_DEVIATION_POLICY === "execute") {
+    console.warn(
+      `[QuoteBinding] Swap ${swap.swapId} market quote ${buyAmount} is below ` +
+        `its bound quote's ${quotedBuyAmount}, executing anyway`
+    );
+    return;
+  }
+  throw new QuoteDeviationError(QUOTE_DEVIATION_POLICY, quotedBuyAmount, buyAmount);
+}
@@ -0,0 +1,444 @@
+import {
+  createWalletClient,
+  erc20Abi,
+  getAddress,
+  http,
+  TransactionNotFoundError,
+  type Address,
+  type PublicClient,
+} from "viem";
+import { chains } from "../config/chains";
+import { WRAPPED_NATIVE_ADDRESSES } from "../config/tokens";
+import {
+  getDepositsForSwap,
+  getRefundPendingSwaps,
+  getSurplusRefundSwaps,
+  markRefundFailed,
+  markSurplusRefunded,
+  markSurplusRefundFailed,
+  markSwapRefunded,
+  recordRefundTransaction,
+} from "../db/queries";
+import { getBalance } from "./multicall";
+import { getVaultWalletFromSalt, getAccountFromPrivateKey } from "./wallet";
+import {
+  estimateVaultTxCost,
+  fundVaultForGas,
+  isGasWalletConfigured,
+  NATIVE_TRANSFER_GAS,
+} from "./gas-wallet";
+import { unwrapVaultWeth } from "./weth";
+import { createChainClient, viemChains } from "./chain-client";
+import { recordSwapRefunded, recordRefundError } from "./metrics";
+import { deserializeToken } from "../utils/token";
+import { getTokenAddress, isEtherToken } from "../types";
+import type { Swap } from "../db/schema";
+import type { ChainConfig } from "../types";
+
+// Poll every 60 seconds for swaps awaiting refund
+const REFUND_POLL_INTERVAL_MS = 60_000;
+
+// Gas limit for the vault's ERC20 transfer back to the refund address
+const ERC20_TRANSFER_GAS = 65_000n;
+
+// Headroom on the current max fee kept back from native ETH refunds
+const NATIVE_REFUND_FEE_MULTIPLE = 2n;
+
+// Number of blocks to wait before considering a refund final
+const REFUND_CONFIRMATIONS = 2;
+
+// A refund tx the node no longer knows of after this long was dropped
+const REFUND_TX_DROP_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Store the poller interval
+let refundInterval: ReturnType<typeof setInterval> | null = null;
+
+// Guards against overlapping runs while refund transactions are confirming
+let refundInProgress = false;
+
+/**
+ * Get the nonce a vault's refund transfer is sent with
+ *
+ * The confirmed (not pending) nonce: a resend after a dropped transfer
+ * takes its nonce, so the two can never both land.
+ */
+async function getConfirmedNonce(client: PublicClient, vaultAddress: Address): Promise<number> {
+  return client.getTransactionCount({ address: vaultAddress, blockTag: "latest" });
+}
+
+/**
+ * Check if an unmined refund tx will never land
+ *
+ * It won't once the vault's confirmed nonce has moved past it (it was
+ * replaced), or once the node has forgotten it for longer than
+ * REFUND_TX_DROP_TIMEOUT_MS (it was dropped, e.g. evicted as underpriced).
+ */
+async function isRefundTxGone(swap: Swap, client: PublicClient): Promise<boolean> {
+  const txHash = swap.refundTxHash as `0x${string}`;
+
+  const tx = await client.getTransaction({ hash: txHash }).catch((error) => {
+    if (error instanceof TransactionNotFoundError) {
+      return null;
+    }
+    throw error;
+  });
+
+  if (!tx) {
+    const sentAt = swap.refundSentAt ?? swap.updatedAt;
+    return Date.now() - sentAt.getTime() > REFUND_TX_DROP_TIMEOUT_MS;
+  }
+
+  const confirmedNonce = await getConfirmedNonce(client, swap.vaultAddress as Address);
+  if (confirmedNonce <= tx.nonce) {
+    return false;
+  }
+
+  // The tx may have been mined since the receipt lookup
+  const receipt = await client.getTransactionReceipt({ hash: txHash }).catch(() => null);
+  return receipt === null;
+}
+
+/**
+ * Finish a refund whose transaction was broadcast in a previous run
+ *
+ * Returns true if the swap was resolved (refunded, or cleared for a resend)
+ * and false if the transaction is still unconfirmed.
+ */
+async function resumeRefund(swap: Swap, client: PublicClient): Promise<boolean> {
+  const txHash = swap.refundTxHash as `0x${string}`;
+
+  const receipt = await client
+    .getTransactionReceipt({ hash: txHash })
+    .catch(() => null);
+
+  if (!receipt) {
+    if (await isRefundTxGone(swap, client)) {
+      // Clear the dropped or replaced tx so the next run sends a fresh transfer
+      console.error(`[Refund] Swap ${swap.swapId} refund tx ${txHash} was dropped, will retry`);
+      await recordRefundTransaction(swap.swapId, null, null);
+      return true;
+    }
+    console.log(`[Refund] Swap ${swap.swapId} refund tx ${txHash} not yet mined`);
+    return false;
+  }
+
+  if (receipt.status === "success") {
+    // A completed buy swap's surplus refund leaves it complete
+    if (swap.status === "complete") {
+      if (await markSurplusRefunded(swap.swapId, txHash, swap.refundAmount ?? "0")) {
+        console.log(`[Refund] Swap ${swap.swapId} surplus refunded (tx: ${txHash})`);
+      }
+    } else if (await markSwapRefunded(swap.swapId, txHash, swap.refundAmount ?? "0")) {
+      recordSwapRefunded(swap.chainId);
+      console.log(`[Refund] Swap ${swap.swapId} refunded (tx: ${txHash})`);
+    }
+  } else {
+    // Clear the reverted tx so the next run sends a fresh transfer
+    console.error(`[Refund] Swap ${swap.swapId} refund tx ${txHash} reverted, will retry`);
+    await recordRefundTransaction(swap.swapId, null, null);
+  }
+  return true;
+}
+
+/**
+ * Send the vault's ERC20 sell token balance to the refund address
+ *
+ * The vault has no native ETH, so it is first topped up from the gas wallet.
+ *
+ * @returns The broadcast transfer, or null if the vault is empty
+ */
+async function sendTokenRefund(
+  swap: Swap,
+  config: ChainConfig,
+  client: PublicClient,
+  refundAddress: Address
+): Promise<{ txHash: `0x${string}`; amount: bigint } | null> {
+  const vaultWallet = getVaultWalletFromSalt(swap.vaultSalt as `0x${string}`);
+  const vaultAddress = swap.vaultAddress as Address;
+  const sellToken = deserializeToken(swap.sellToken);
+
+  const balance = await getBalance(client, vaultAddress, sellToken);
+  if (balance === 0n) {
+    return null;
+  }
+
+  console.log(
+    `[Refund] Refunding swap ${swap.swapId}: ${balance} to ${refundAddress}`
+  );
+
+  // Top up the vault with enough ETH to pay for the transfer
+  const fees = await fundVaultForGas(config, client, vaultAddress, ERC20_TRANSFER_GAS);
+
+  const vaultClient = createWalletClient({
+    account: getAccountFromPrivateKey(vaultWallet.privateKey),
+    chain: viemChains[config.chainId],
+    transport: http(config.rpcUrl),
+  });
+
+  const txHash = await vaultClient.writeContract({
+    address: getTokenAddress(sellToken) as Address,
+    abi: erc20Abi,
+    functionName: "transfer",
+    args: [refundAddress, balance],
+    gas: ERC20_TRANSFER_GAS,
+    nonce: await getConfirmedNonce(client, vaultAddress),
+    ...fees,
+  });
+
+  return { txHash, amount: balance };
+}
+
+/**
+ * Send a native ETH swap's deposit back to the refund address
+ *
+ * WETH left by the wrap flow (an order that never filled) is unwrapped
+ * first. The vault pays its own gas, so the refund is its ETH balance
+ * less the transfer's cost.
+ *
+ * @returns The broadcast transfer, or null if nothing is left after gas
+ */
+async function sendNativeRefund(
+  swap: Swap,
+  config: ChainConfig,
+  client: PublicClient,
+  refundAddress: Address
+): Promise<{ txHash: `0x${string}`; amount: bigint } | null> {
+  const vaultWallet = getVaultWalletFromSalt(swap.vaultSalt as `0x${string}`);
+  const vaultAddress = swap.vaultAddress as Address;
+  const fees = await client.estimateFeesPerGas();
+
+  const wethBalance = await getBalance(client, vaultAddress, {
+    type: "erc20",
+    address: WRAPPED_NATIVE_ADDRESSES[config.chainId],
+  });
+  if (wethBalance > 0n) {
+    await unwrapVaultWeth(config, client, vaultWallet.privateKey, wethBalance, fees);
+  }
+
+  // Leave headroom for fee changes (L1 data fees included)
+  const transferCost =
+    (await estimateVaultTxCost(config, client, NATIVE_TRANSFER_GAS, fees.maxFeePerGas)) *
+    NATIVE_REFUND_FEE_MULTIPLE;
+  const balance = await getBalance(client, vaultAddress, { type: "ether" });
+  if (balance <= transferCost) {
+    return null;
+  }
+  const amount = balance - transferCost;
+
+  console.log(
+    `[Refund] Refunding swap ${swap.swapId}: ${amount} wei to ${refundAddress}`
+  );
+
+  const vaultClient = createWalletClient({
+    account: getAccountFromPrivateKey(vaultWallet.privateKey),
+    chain: viemChains[config.chainId],
+    transport: http(config.rpcUrl),
+  });
+
+  const txHash = await vaultClient.sendTransaction({
+    to: refundAddress,
+    value: amount,
+    gas: NATIVE_TRANSFER_GAS,
+    nonce: await getConfirmedNonce(client, vaultAddress),
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+  });
+
+  return { txHash, amount };
+}
+
+/**
+ * Get the address a swap's refund goes to
+ *
+ * The refund address given at creation, or else the depositor, but only
+ * when every recorded deposit came from one wallet (not a contract).
+ * Anyone can send dust to a vault first, deposits through an exchange or
+ * router come from that contract, and a vault funded by several senders
+ * can't be split between them: those swaps are left to an operator.
+ *
+ * @returns The refund address, or null if it can't be determined safely
+ */
+async function getRefundAddress(swap: Swap, client: PublicClient): Promise<Address | null> {
+  if (swap.refundAddress) {
+    return swap.refundAddress as Address;
+  }
+
+  const senders = new Set(
+    (await getDepositsForSwap(swap.swapId)).map((deposit) => deposit.fromAddress.toLowerCase())
+  );
+  const [depositor] = senders;
+  if (senders.size !== 1 || !depositor) {
+    return null;
+  }
+
+  const code = await client.getCode({ address: depositor as Address });
+  if (code !== undefined && code !== "0x") {
+    return null;
+  }
+  return getAddress(depositor);
+}
+
+/**
+ * Return the vault's sell token balance to the swap's refund address
+ * (or to the depositor, if the swap was created without one)
+ *
+ * Used both for failed swaps and for the unspent deposit a completed buy
+ * swap leaves behind.
+ *
+ * ERC20 refunds are paid for by the gas wallet, native ETH refunds by the
+ * vault itself. The tx hash is recorded as soon as it is broadcast so a crash
+ * mid-confirmation never leads to a second transfer.
+ */
+async function refundSwap(
+  swap: Swap,
+  config: ChainConfig,
+  client: PublicClient
+): Promise<void> {
+  if (swap.refundTxHash) {
+    await resumeRefund(swap, client);
+    return;
+  }
+
+  const vaultAddress = swap.vaultAddress as Address;
+  const sellToken = deserializeToken(swap.sellToken);
+
+  // Refund to the address given at creation, or back to a sole depositor
+  const refundAddress = await getRefundAddress(swap, client);
+  if (!refundAddress) {
+    // Nowhere safe to send it; hand the vault to an operator instead of polling it
+    console.warn(
+      `[Refund] Swap ${swap.swapId} has no refund address and no single depositor wallet`
+    );
+    const reason =
+      "No refund address and deposits not from a single depositor wallet; " +
+      `refund vault ${vaultAddress} manually`;
+    if (swap.status === "complete") {
+      await markSurplusRefundFailed(swap.swapId, reason);
+    } else {
+      await markRefundFailed(swap.swapId, reason);
+    }
+    return;
+  }
+
+  const refund = isEtherToken(sellToken)
+    ? await sendNativeRefund(swap, config, client, refundAddress)
+    : await sendTokenRefund(swap, config, client, refundAddress);
+  if (!refund) {
+    if (swap.status === "complete") {
+      // The buy order spent the whole deposit
+      await markSurplusRefunded(swap.swapId, null, "0");
+      return;
+    }
+    // Nothing will ever arrive to refund; fail the swap instead of polling it
+    console.warn(
+      `[Refund] Swap ${swap.swapId} vault ${vaultAddress} is empty, nothing to refund`
+    );
+    await markRefundFailed(swap.swapId, `Nothing to refund from vault ${vaultAddress}`);
+    return;
+  }
+  const { txHash, amount: balance } = refund;
+
+  await recordRefundTransaction(swap.swapId, txHash, balance.toString());
+  console.log(`[Refund] Swap ${swap.swapId} refund tx broadcast: ${txHash}`);
+
+  await client.waitForTransactionReceipt({
+    hash: txHash,
+    confirmations: REFUND_CONFIRMATIONS,
+  });
+
+  await resumeRefund(
+    { ...swap, refundTxHash: txHash, refundAmount: balance.toString() },
+    client
+  );
+}
+
+/**
+ * Process all swaps pending refund on a chain, and completed buy swaps
+ * with a surplus to return
+ */
+async function processRefundsForChain(config: ChainConfig): Promise<void> {
+  const pending = [
+    ...(await getRefundPendingSwaps(config.chainId)),
+    ...(await getSurplusRefundSwaps(config.chainId)),
+  ];
+
+  if (pending.length === 0) {
+    return;
+  }
+
+  console.log(`[Refund] Chain ${config.chainId}: ${pending.length} swap(s) pending refund`);
+
+  const client = createChainClient(config);
+
+  for (const swap of pending) {
+    try {
+      await refundSwap(swap, config, client);
+    } catch (error) {
+      // Log error but continue with other swaps - will retry next cycle
+      console.error(`[Refund] Error refunding swap ${swap.swapId}:`, error);
+      recordRefundError(swap.chainId);
+    }
+  }
+}
+
+/**
+ * Process refunds for all configured chains
+ */
+export async function processRefunds(): Promise<void> {
+  if (refundInProgress) {
+    return;
+  }
+
+  refundInProgress = true;
+  try {
+    for (const config of Object.values(chains)) {
+      await processRefundsForChain(config);
+    }
+  } finally {
+    refundInProgress = false;
+  }
+}
+
+/**
+ * Start the refund poller
+ *
+ * Requires GAS_WALLET_PRIVATE_KEY to pay for vault transfers.
+ */
+export function startRefundPoller(): void {
+  if (refundInterval) {
+    console.log("[Refund] Poller already running");
+    return;
+  }
+
+  if (!isGasWalletConfigured()) {
+    console.log(
+      "[Refund] Gas wallet not configured. Set GAS_WALLET_PRIVATE_KEY to enable automated refunds."
+    );
+    return;
+  }
+
+  console.log(`[Refund] Starting refund poller (interval: ${REFUND_POLL_INTERVAL_MS}ms)`);
+
+  // Run immediately once
+  processRefunds().catch((err) =>
+    console.error("[Refund] Initial poll error:", err)
+  );
+
+  // Then run on interval
+  refundInterval = setInterval(() => {
+    processRefunds().catch((err) =>
+      console.error("[Refund] Poll error:", err)
+    );
+  }, REFUND_POLL_INTERVAL_MS);
+}
+
+/**
+ * Stop the refund poller
+ */
+export function stopRefundPoller(): void {
+  if (refundInterval) {
+    clearInterval(refundInterval);
+    refundInterval = null;
+    console.log("[Refund] Poller stopped");
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Order Repricing
+ *
+ * Keeps a funded swap trading when its order can't fill:
+ * - An order that expired (or was cancelled) unfilled is replaced by a
+ *   freshly quoted, signed order for the vault's current balance.
+ * - An order that has sat OPEN longer than STALE_ORDER_AFTER_MINUTES with a
+ *   limit the market no longer reaches is cancelled off-chain with the
+ *   vault key and replaced the same way.
+ *
+ * Both share one budget: ORDER_RESUBMIT_MAX replacement orders until the
+ * swap's resubmission deadline (the end of the window for TWAP swaps,
+ * whose replacements sell the current part, and expiresAt for limit
+ * swaps, whose orders are never stale). Every order UID is kept in
+ * swap_orders.
+ */
+
+import type { Address } from "viem";
+import { chains } from "../config/chains";
+import { getTradedSellToken } from "../config/tokens";
+import { getSwapOrders, replaceSwapOrder } from "../db/queries";
+import { executeSwap as executeSwapFlow } from "./executor";
+import { getSwapVenue, type VenueOrderStatus } from "./venues";
+import { getVaultWalletFromSalt } from "./wallet";
+import { getBalance } from "./multicall";
+import { createChainClient } from "./chain-client";
+import { classifyExecutionError, describeExecutionError } from "./execution-errors";
+import { recordOrderResubmitted, recordStaleOrderCancelled } from "./metrics";
+import { getTwapPartAmount } from "./twap";
+import { isLimitSwap } from "./limit-orders";
+import { deserializeToken } from "../utils/token";
+import type { Swap } from "../db/schema";
+import type { CowOrderStatus, SupportedChainId } from "../types";
+
+// Replacement orders per swap before refunding (0 disables resubmission)
+const ORDER_RESUBMIT_MAX = Number(process.env.ORDER_RESUBMIT_MAX ?? 3);
+
+// Replacement orders are only submitted this long after the deposit confirmed
+const ORDER_RESUBMIT_WINDOW_MS =
+  Number(process.env.ORDER_RESUBMIT_WINDOW_HOURS ?? 24) * 60 * 60 * 1000;
+
+// An OPEN order younger than this is never considered stale
+const STALE_ORDER_AFTER_MS =
+  Number(process.env.STALE_ORDER_AFTER_MINUTES ?? 15) * 60 * 1000;
+
+// Minimum time between market checks of the same open order
+const STALE_ORDER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Last market check per swap (avoids quoting every settlement poll)
+const lastStaleChecks: Map<string, number> = new Map();
+
+/**
+ * Outcome of a resubmission attempt
+ * - "resubmitted": a replacement order is live
+ * - "retry": a transient error occurred, try again next poll
+ * - "give_up": policy exhausted or resubmission impossible, refund the swap
+ */
+export type ResubmitResult =
+  | { outcome: "resubmitted"; orderId: string }
+  | { outcome: "retry" }
+  | { outcome: "give_up"; reason: string };
+
+/**
+ * Get the latest time a replacement order may be submitted for a swap
+ */
+function getResubmitDeadline(swap: Swap): Date {
+  if (swap.twapEndsAt) {
+    return swap.twapEndsAt;
+  }
+  if (isLimitSwap(swap)) {
+    return swap.expiresAt;
+  }
+  const start = swap.depositConfirmedAt ?? swap.createdAt;
+  return new Date(start.getTime() + ORDER_RESUBMIT_WINDOW_MS);
+}
+
+/**
+ * Check the shared replacement budget for a swap
+ *
+ * @returns Number of replacements so far, or the reason no more are allowed
+ */
+async function checkResubmitPolicy(
+  swap: Swap
+): Promise<{ resubmissions: number } | { reason: string }> {
+  // Filled TWAP parts aren't replacements
+  const resubmissions = (await getSwapOrders(swap.swapId)).filter(
+    (order) => order.status === "EXPIRED" || order.status === "CANCELLED"
+  ).length;
+  if (resubmissions >= ORDER_RESUBMIT_MAX) {
+    return { reason: `${resubmissions} replacement order(s) also failed to fill` };
+  }
+
+  if (Date.now() > getResubmitDeadline(swap).getTime()) {
+    return { reason: "resubmission deadline passed" };
+  }
+
+  return { resubmissions };
+}
+
+/**
+ * Replace a swap's dead order with a freshly quoted one
+ *
+ * @param swap - The executing swap whose current order is dead
+ * @param orderStatus - Final status of the current order (EXPIRED or CANCELLED)
+ */
+export async function resubmitOrder(
+  swap: Swap,
+  orderStatus: CowOrderStatus
+): Promise<ResubmitResult> {
+  const previousOrderUid = swap.cowOrderUid;
+  if (!previousOrderUid) {
+    return { outcome: "give_up", reason: "Swap has no order to replace" };
+  }
+
+  const policy = await checkResubmitPolicy(swap);
+  if ("reason" in policy) {
+    return {
+      outcome: "give_up",
+      reason: `COWSwap order ${orderStatus.toLowerCase()} without being filled (${policy.reason})`,
+    };
+  }
+  const { resubmissions } = policy;
+
+  const config = chains[swap.chainId as SupportedChainId];
+  const client = createChainClient(config);
+
+  try {
+    // Sell whatever is in the vault now (an unfilled order moved nothing;
+    // native ETH swaps already hold WETH)
+    const balance = await getBalance(
+      client,
+      swap.vaultAddress as Address,
+      getTradedSellToken(swap.chainId as SupportedChainId, deserializeToken(swap.sellToken))
+    );
+    if (balance === 0n) {
+      return { outcome: "give_up", reason: "Vault is empty, nothing to resubmit" };
+    }
+
+    const result = await executeSwapFlow(swap, getTwapPartAmount(swap, balance), client);
+
+    const replaced = await replaceSwapOrder(
+      swap.swapId,
+      previousOrderUid,
+      orderStatus,
+      result.orderId,
+      result.buyAmount
+    );
+    if (!replaced) {
+      // Swap moved on meanwhile; the new order can't fill twice from one vault
+      console.warn(
+        `[Repricing] Swap ${swap.swapId} changed while resubmitting, order ${result.orderId} not saved`
+      );
+      return { outcome: "retry" };
+    }
+
+    recordOrderResubmitted(swap.chainId);
+    console.log(
+      `[Repricing] Swap ${swap.swapId} order ${previousOrderUid} ${orderStatus.toLowerCase()}, ` +
+        `replaced with ${result.orderId} (replacement ${resubmissions + 1}/${ORDER_RESUBMIT_MAX})`
+    );
+    return { outcome: "resubmitted", orderId: result.orderId };
+  } catch (error) {
+    const reason = describeExecutionError(error);
+    if (classifyExecutionError(error) === "permanent") {
+      return { outcome: "give_up", reason: `Replacement order rejected: ${reason}` };
+    }
+    console.error(`[Repricing] Swap ${swap.swapId} resubmission failed, will retry:`, error);
+    return { outcome: "retry" };
+  }
+}
+
+/**
+ * Cancel and replace an OPEN order whose limit the market no longer reaches
+ *
+ * Quotes the order's sell amount and compares the quoted buy amount with
+ * the order's minimum (buy orders: quotes the order's buy amount and
+ * compares the required sell amount with the order's maximum). Only
+ * orders older than STALE_ORDER_AFTER_MS are checked, each at most every
+ * STALE_ORDER_CHECK_INTERVAL_MS, and only while the replacement budget
+ * allows a new order.
+ *
+ * @param swap - The executing swap
+ * @param order - Current state of the swap's OPEN order
+ * @returns True if the order was cancelled (a replacement may follow)
+ */
+export async function repriceStaleOrder(
+  swap: Swap,
+  order: VenueOrderStatus
+): Promise<boolean> {
+  const orderUid = swap.cowOrderUid;
+  if (!orderUid || !order.sellAmount || !order.buyAmount || !order.creationDate) {
+    return false;
+  }
+
+  const now = Date.now();
+  if (now - new Date(order.creationDate).getTime() < STALE_ORDER_AFTER_MS) {
+    return false;
+  }
+  if (now - (lastStaleChecks.get(swap.swapId) ?? 0) < STALE_ORDER_CHECK_INTERVAL_MS) {
+    return false;
+  }
+  lastStaleChecks.set(swap.swapId, now);
+
+  // Don't cancel an order we aren't allowed to replace
+  if ("reason" in (await checkResubmitPolicy(swap))) {
+    return false;
+  }
+
+  const chainId = swap.chainId as SupportedChainId;
+  const venue = getSwapVenue(swap);
+  const sellToken = getTradedSellToken(chainId, deserializeToken(swap.sellToken));
+  const buyToken = deserializeToken(swap.buyToken);
+
+  if (swap.kind === "buy") {
+    // A buy order is stale when buying its amount now costs more than its
+    // maximum sell amount
+    const quote = await venue.getQuote({
+      chainId,
+      sellToken,
+      buyToken,
+      kind: "buy",
+      buyAmount: order.buyAmount,
+      from: swap.vaultAddress as Address,
+    });
+    const requiredSellAmount = BigInt(quote.sellAmount) + BigInt(quote.feeAmount);
+    if (requiredSellAmount <= BigInt(order.sellAmount)) {
+      return false;
+    }
+
+    console.log(
+      `[Repricing] Swap ${swap.swapId} order ${orderUid} is stale: ` +
+        `limit ${order.sellAmount}, market ${requiredSellAmount}. Cancelling.`
+    );
+  } else {
+    const quote = await venue.getQuote({
+      chainId,
+      sellToken,
+      buyToken,
+      sellAmount: order.sellAmount,
+      from: swap.vaultAddress as Address,
+    });
+    if (BigInt(quote.buyAmount) >= BigInt(order.buyAmount)) {
+      return false;
+    }
+
+    console.log(
+      `[Repricing] Swap ${swap.swapId} order ${orderUid} is stale: ` +
+        `limit ${order.buyAmount}, market ${quote.buyAmount}. Cancelling.`
+    );
+  }
+
+  const vaultWallet = getVaultWalletFromSalt(swap.vaultSalt as `0x${string}`);
+  await venue.cancelOrder(chainId, orderUid, vaultWallet.privateKey);
+  recordStaleOrderCancelled(swap.chainId);
+  lastStaleChecks.delete(swap.swapId);
+
+  // A settlement already in flight may have filled it - leave that to the
+  // settlement poller rather than selling an empty vault again
+  const { status } = await venue.getOrderStatus(chainId, orderUid);
+  if (status !== "CANCELLED") {
+    console.log(`[Repricing] Swap ${swap.swapId} order ${orderUid} is ${status} after cancellation`);
+    return true;
+  }
+
+  const result = await resubmitOrder(swap, status);
+  if (result.outcome !== "resubmitted") {
+    // The cancelled order is picked up (and retried) by the settlement poller
+    console.warn(`[Repricing] Swap ${swap.swapId} replacement not submitted yet (${result.outcome})`);
+  }
+  return true;
+}
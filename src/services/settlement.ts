@@ -1,15 +1,31 @@
+import type { Address } from "viem";
 import {
   getExecutingSwaps,
+  markSwapFailedNeedsRefund,
+  recordOrderFills,
+  recordTwapPartFilled,
+  replaceSwapOrder,
   updateCowOrderStatus,
   markExpiredSwaps,
   getSwapCountsByStatusAndChain,
 } from "../db/queries";
-import { getOrderStatus, getOrderTrades } from "./cowswap";
+import { chains } from "../config/chains";
+import { getTradedSellToken } from "../config/tokens";
+import { getSwapVenue, type VenueOrderStatus } from "./venues";
+import { repriceStaleOrder, resubmitOrder } from "./repricing";
+import { checkLimitMarketPrice, isLimitSwap } from "./limit-orders";
+import { executeSwap as executeSwapFlow } from "./executor";
+import { getBalance } from "./multicall";
+import { createChainClient } from "./chain-client";
+import { classifyExecutionError, describeExecutionError } from "./execution-errors";
+import { getTwapNextPartAt, getTwapPartAmount, hasTwapPartsRemaining } from "./twap";
+import { deserializeToken } from "../utils/token";
 import {
   updateActiveSwapCounts,
   recordSwapCompleted,
   recordCowswapError,
 } from "./metrics";
+import type { Swap } from "../db/schema";
 import type { SupportedChainId } from "../types";
 
 // Poll every 30 seconds for order settlement
@@ -38,6 +54,118 @@ async function updateMetrics(): Promise<void> {
   }
 }
 
+/**
+ * Record an order's fills, summed over its settlement trades
+ *
+ * A partially fillable order may be settled in several transactions; the
+ * order book's executed amounts are used when it reports no trades yet.
+ *
+ * @returns The latest settlement transaction, and the swap's buy total
+ * across all its orders (undefined if nothing has filled)
+ */
+async function syncOrderFills(
+  swap: Swap,
+  orderUid: string,
+  order: VenueOrderStatus
+): Promise<{ settlementTxHash?: string; actualBuyAmount?: string }> {
+  const trades = await getSwapVenue(swap).getOrderFills(swap.chainId as SupportedChainId, orderUid);
+
+  let executedSellAmount = BigInt(order.executedSellAmount ?? "0");
+  let executedBuyAmount = BigInt(order.executedBuyAmount ?? "0");
+  if (trades.length > 0) {
+    executedSellAmount = trades.reduce((total, trade) => total + BigInt(trade.sellAmount), 0n);
+    executedBuyAmount = trades.reduce((total, trade) => total + BigInt(trade.buyAmount), 0n);
+  }
+  const settlementTxHash = trades.at(-1)?.txHash;
+
+  if (executedSellAmount === 0n) {
+    return { settlementTxHash, actualBuyAmount: swap.actualBuyAmount ?? undefined };
+  }
+
+  const totals = await recordOrderFills(
+    swap.swapId,
+    orderUid,
+    executedSellAmount.toString(),
+    executedBuyAmount.toString()
+  );
+  if (totals) {
+    console.log(
+      `[Settlement] Swap ${swap.swapId} order ${orderUid} filled ${executedSellAmount} ` +
+        `(swap total ${totals.executedSellAmount} of ${swap.depositAmount ?? "?"} sold)`
+    );
+  }
+
+  return {
+    settlementTxHash,
+    actualBuyAmount: totals?.actualBuyAmount ?? swap.actualBuyAmount ?? undefined,
+  };
+}
+
+/**
+ * Move a TWAP swap on after one of its child orders filled
+ *
+ * Records the filled part and schedules the next one, then on a later
+ * poll (once it is due) submits the next child for its share of the
+ * vault. If the window has closed or the child is rejected, the unsold
+ * remainder is refunded.
+ */
+async function advanceTwap(swap: Swap, orderUid: string, settlementTxHash?: string): Promise<void> {
+  const progress = `${swap.twapPartsFilled + 1} of ${swap.twapParts} parts filled`;
+
+  if (swap.orderStatus !== "FULFILLED") {
+    const nextPartAt = getTwapNextPartAt(swap);
+    if (await recordTwapPartFilled(swap.swapId, orderUid, nextPartAt, settlementTxHash)) {
+      console.log(
+        `[Settlement] Swap ${swap.swapId} TWAP ${progress}, next part at ${nextPartAt.toISOString()}`
+      );
+    }
+    return;
+  }
+
+  if (swap.twapNextPartAt && Date.now() < swap.twapNextPartAt.getTime()) {
+    return;
+  }
+
+  // twapPartsFilled now includes the child that filled
+  const filled = `${swap.twapPartsFilled} of ${swap.twapParts} parts filled`;
+  if (swap.twapEndsAt && Date.now() >= swap.twapEndsAt.getTime()) {
+    await markSwapFailedNeedsRefund(
+      swap.swapId,
+      `TWAP window ended with ${filled}, refunding the unfilled remainder`
+    );
+    return;
+  }
+
+  const chainId = swap.chainId as SupportedChainId;
+  const client = createChainClient(chains[chainId]);
+
+  try {
+    const balance = await getBalance(
+      client,
+      swap.vaultAddress as Address,
+      getTradedSellToken(chainId, deserializeToken(swap.sellToken))
+    );
+    const result = await executeSwapFlow(swap, getTwapPartAmount(swap, balance), client);
+
+    if (!(await replaceSwapOrder(swap.swapId, orderUid, "FULFILLED", result.orderId, result.buyAmount))) {
+      console.warn(`[Settlement] Swap ${swap.swapId} changed while submitting TWAP part, order ${result.orderId} not saved`);
+      return;
+    }
+    console.log(`[Settlement] Swap ${swap.swapId} TWAP part ${swap.twapPartsFilled + 1} submitted: ${result.orderId}`);
+  } catch (error) {
+    const reason = describeExecutionError(error);
+    if (classifyExecutionError(error) === "permanent") {
+      await markSwapFailedNeedsRefund(
+        swap.swapId,
+        `TWAP part rejected with ${filled}, refunding the unfilled remainder: ${reason}`
+      );
+      return;
+    }
+    console.error(`[Settlement] Swap ${swap.swapId} TWAP part submission failed, will retry:`, error);
+    recordCowswapError(swap.chainId, "createOrder");
+  }
+}
+
 // Store the poller interval
 let settlementInterval: ReturnType<typeof setInterval> | null = null;
 
@@ -65,11 +193,21 @@ export async function pollSettlements(): Promise<void> {
       continue;
     }
 
+    // A TWAP swap between parts has nothing to check until the next is due
+    if (
+      swap.orderStatus === "FULFILLED" &&
+      swap.twapNextPartAt &&
+      Date.now() < swap.twapNextPartAt.getTime()
+    ) {
+      continue;
+    }
+
     try {
-      const { status, executedBuyAmount } = await getOrderStatus(
+      const order = await getSwapVenue(swap).getOrderStatus(
         swap.chainId as SupportedChainId,
         swap.cowOrderUid
       );
+      const { status } = order;
 
       // Log when status changes, or periodically for OPEN orders (debugging)
       if (status !== swap.orderStatus) {
@@ -81,19 +219,31 @@ export async function pollSettlements(): Promise<void> {
       }
 
       if (status === "FULFILLED") {
-        // Get settlement transaction from trades
-        const trades = await getOrderTrades(
-          swap.chainId as SupportedChainId,
-          swap.cowOrderUid
+        // Get settlement transaction and totals from trades
+        const { settlementTxHash, actualBuyAmount } = await syncOrderFills(
+          swap,
+          swap.cowOrderUid,
+          order
         );
-        const settlementTxHash = trades[0]?.txHash;
 
-        await updateCowOrderStatus(
+        // A TWAP part filled with more to come - the swap keeps executing
+        if (hasTwapPartsRemaining(swap)) {
+          await advanceTwap(swap, swap.cowOrderUid, settlementTxHash);
+          continue;
+        }
+
+        // A buy order leaves the unspent deposit in the vault for refund
+        const applied = await updateCowOrderStatus(
           swap.swapId,
           status,
           settlementTxHash,
-          executedBuyAmount
+          actualBuyAmount,
+          undefined,
+          swap.kind === "buy"
         );
+        if (!applied) {
+          continue;
+        }
 
         // Record metrics: completed swap and duration
         const durationSeconds = (Date.now() - swap.createdAt.getTime()) / 1000;
@@ -101,15 +251,55 @@ export async function pollSettlements(): Promise<void> {
 
         console.log(
           `[Settlement] Swap ${swap.swapId} COMPLETE! ` +
-            `Buy amount: ${executedBuyAmount}, Tx: ${settlementTxHash}, Duration: ${durationSeconds.toFixed(1)}s`
+            `Buy amount: ${actualBuyAmount}, Tx: ${settlementTxHash}, Duration: ${durationSeconds.toFixed(1)}s`
         );
       } else if (status === "EXPIRED" || status === "CANCELLED") {
-        await updateCowOrderStatus(swap.swapId, status);
+        // The deposit is still in the vault - try a freshly priced order first.
+        // Only the service holds the vault key, so a cancelled order is one
+        // we cancelled for repricing whose replacement is still due.
+        // A partially filled order (or TWAP) leaves only the unfilled
+        // remainder, which the replacement sells or the refund returns.
+        const fills = swap.partiallyFillable
+          ? await syncOrderFills(swap, swap.cowOrderUid, order)
+          : { settlementTxHash: undefined, actualBuyAmount: swap.actualBuyAmount ?? undefined };
+        const result = await resubmitOrder(swap, status);
+        if (result.outcome !== "give_up") {
+          continue;
+        }
+
+        const reason = fills.actualBuyAmount
+          ? `Swap partially filled, refunding the unfilled remainder: ${result.reason}`
+          : result.reason;
+        const applied = await updateCowOrderStatus(
+          swap.swapId,
+          status,
+          fills.settlementTxHash,
+          fills.actualBuyAmount,
+          reason
+        );
+        if (!applied) {
+          continue;
+        }
 
         console.log(
-          `[Settlement] Swap ${swap.swapId} order ${status.toLowerCase()}. ` +
-            `Will need refund processing.`
+          `[Settlement] Swap ${swap.swapId} order ${status.toLowerCase()}, not resubmitting ` +
+            `(${result.reason}). Will need refund processing.`
         );
+      } else if (status === "OPEN") {
+        // Track progress of an order that fills in parts
+        if (swap.partiallyFillable && BigInt(order.executedSellAmount ?? "0") > 0n) {
+          await syncOrderFills(swap, swap.cowOrderUid, order);
+        }
+        if (isLimitSwap(swap)) {
+          // A limit order waits for its price; track how far off it is
+          await checkLimitMarketPrice(swap, order);
+        } else if (await repriceStaleOrder(swap, order)) {
+          // Replaced: the market has moved past its limit
+          continue;
+        }
+        if (status !== swap.orderStatus) {
+          await updateCowOrderStatus(swap.swapId, status);
+        }
       } else if (status !== swap.orderStatus) {
         // Status changed but not to a terminal state, just update
         await updateCowOrderStatus(swap.swapId, status);
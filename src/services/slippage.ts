@@ -2,7 +2,8 @@
  * Slippage Tolerance Service
  *
  * Fetches recommended slippage from COWSwap's BFF API and caches results
- * with a 30-second TTL to avoid excessive API calls.
+ * with a 30-second TTL to avoid excessive API calls. Swaps may also carry
+ * their own price protection: a slippage cap and a minimum output.
  */
 
 import type { SupportedChainId, TokenAddress } from "../types";
@@ -16,6 +17,37 @@ const CACHE_TTL_MS = 30_000;
 // Default slippage if API fails (50 bps = 0.5%)
 const DEFAULT_SLIPPAGE_BPS = 50;
 
+/**
+ * Thrown when the market can't meet a swap's minimum output. Executing
+ * anyway would sell below the user's floor, so the swap is refunded.
+ */
+export class MinBuyAmountNotMetError extends Error {
+  constructor(
+    public readonly quotedBuyAmount: bigint,
+    public readonly minBuyAmount: bigint
+  ) {
+    super(`Quoted buy amount ${quotedBuyAmount} is below the swap's minimum of ${minBuyAmount}`);
+    this.name = "MinBuyAmountNotMetError";
+  }
+}
+
+/**
+ * Thrown when a buy swap's deposit can't pay for its buy amount at the
+ * market price. The swap is refunded.
+ */
+export class InsufficientSellAmountError extends Error {
+  constructor(
+    public readonly requiredSellAmount: bigint,
+    public readonly availableSellAmount: bigint
+  ) {
+    super(
+      `Buying the swap's amount requires ${requiredSellAmount} of the sell token, ` +
+        `but only ${availableSellAmount} was deposited`
+    );
+    this.name = "InsufficientSellAmountError";
+  }
+}
+
 interface CacheEntry {
   slippageBps: number;
   timestamp: number;
@@ -90,7 +122,7 @@ async function fetchSlippageTolerance(
  * otherwise fetches from COWSwap BFF API and caches the result.
  *
  * @param chainId - The chain ID
- * @param sellToken - The sell token address (always CBBTC for us)
+ * @param sellToken - The sell token address (a registered sell token)
  * @param buyToken - The buy token address
  * @returns Slippage tolerance in basis points (1 bps = 0.01%)
  */
@@ -141,6 +173,43 @@ export function applySlippageToBuyAmount(
   return minAmount.toString();
 }
 
+/**
+ * Apply slippage to a sell amount for a buy order
+ *
+ * For buy orders, we raise the maximum sell amount by the slippage tolerance
+ * to account for price movement.
+ *
+ * @param sellAmount - The quoted sell amount
+ * @param slippageBps - Slippage tolerance in basis points
+ * @returns The maximum acceptable sell amount after slippage
+ */
+export function applySlippageToSellAmount(
+  sellAmount: string,
+  slippageBps: number
+): string {
+  const amount = BigInt(sellAmount);
+  // sellAmountMax = sellAmount * (10000 + slippageBps) / 10000
+  const maxAmount = (amount * BigInt(10000 + slippageBps)) / BigInt(10000);
+  return maxAmount.toString();
+}
+
+/**
+ * Get the minimum buy amount for a sell amount from a per-unit floor
+ *
+ * @param sellAmount - The amount sold, in sell token base units
+ * @param minBuyAmountPerUnit - Buy token base units required per whole sell token
+ * @param sellDecimals - Decimals of the sell token
+ * @returns The minimum buy amount, rounded up
+ */
+export function getMinBuyAmount(
+  sellAmount: bigint,
+  minBuyAmountPerUnit: bigint,
+  sellDecimals: number
+): bigint {
+  const unit = 10n ** BigInt(sellDecimals);
+  return (sellAmount * minBuyAmountPerUnit + unit - 1n) / unit;
+}
+
 /**
  * Clear the slippage cache (useful for testing)
  */
@@ -0,0 +1,90 @@
+/**
+ * Swap Update Notifications
+ *
+ * Lets SSE subscribers (GET /swap/:id/events) know when a swap changed.
+ * Updates are published by the query layer whenever a swap event is
+ * recorded, so every poller publishes without knowing about subscribers.
+ *
+ * With a listener started, updates go through Postgres NOTIFY on the
+ * swap_updates channel so subscribers on every replica hear them.
+ * Without one (tests, or before startup), they are emitted in-process.
+ */
+
+import { EventEmitter } from "events";
+import postgres from "postgres";
+import { sql } from "drizzle-orm";
+import { db } from "../db/client";
+
+const SWAP_UPDATES_CHANNEL = "swap_updates";
+
+// In-process fan-out to subscribers, keyed by swap ID
+const localUpdates = new EventEmitter();
+localUpdates.setMaxListeners(0);
+
+// Dedicated LISTEN connection (null when not started)
+let listener: postgres.Sql | null = null;
+
+/**
+ * Announce that a swap changed
+ * Never throws - a missed notification only delays SSE subscribers
+ */
+export async function publishSwapUpdate(swapId: string): Promise<void> {
+  if (!listener) {
+    localUpdates.emit(swapId);
+    return;
+  }
+
+  try {
+    await db.execute(sql`SELECT pg_notify(${SWAP_UPDATES_CHANNEL}, ${swapId})`);
+  } catch (error) {
+    console.error(`[SwapUpdates] Failed to notify update for swap ${swapId}:`, error);
+  }
+}
+
+/**
+ * Subscribe to updates for a swap
+ *
+ * @returns Function that removes the subscription
+ */
+export function subscribeToSwap(swapId: string, onUpdate: () => void): () => void {
+  localUpdates.on(swapId, onUpdate);
+  return () => {
+    localUpdates.off(swapId, onUpdate);
+  };
+}
+
+/**
+ * Start listening for swap updates published by any replica
+ * Requires DATABASE_URL; without it updates stay in-process.
+ */
+export async function startSwapUpdateListener(): Promise<void> {
+  if (listener) {
+    return;
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.log("[SwapUpdates] DATABASE_URL not set, using in-process updates only");
+    return;
+  }
+
+  const client = postgres(connectionString, { max: 1 });
+  await client.listen(SWAP_UPDATES_CHANNEL, (swapId) => {
+    localUpdates.emit(swapId);
+  });
+  listener = client;
+
+  console.log(`[SwapUpdates] Listening on ${SWAP_UPDATES_CHANNEL}`);
+}
+
+/**
+ * Stop listening for swap updates
+ */
+export async function stopSwapUpdateListener(): Promise<void> {
+  if (listener) {
+    const client = listener;
+    listener = null;
+    await client.end();
+    console.log("[SwapUpdates] Listener stopped");
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * TWAP Execution
+ *
+ * A single market order for a large deposit leaks value to slippage.
+ * Deposits at or above their sell token's twapMinSellAmount are sold as
+ * TWAP_PARTS child orders instead, one every TWAP_PART_INTERVAL_MINUTES.
+ * Each child sells an equal share of what is left in the vault and the
+ * last one sells the rest. Permit tokens grant the vault relayer an
+ * unlimited allowance with the first child, so later children carry no
+ * pre-hook.
+ *
+ * Children are valid for one interval. An expired child is replaced
+ * within the usual resubmission budget until the window ends; whatever is
+ * still in the vault then is refunded and the filled parts stand.
+ */
+
+import type { SellTokenConfig } from "../config/tokens";
+import type { Swap } from "../db/schema";
+
+// Child orders per TWAP swap (1 disables TWAP execution)
+const TWAP_PARTS = Number(process.env.TWAP_PARTS ?? 4);
+
+// Time between child orders, and how long each one is valid
+const TWAP_PART_INTERVAL_MS =
+  Number(process.env.TWAP_PART_INTERVAL_MINUTES ?? 30) * 60 * 1000;
+
+/**
+ * Check if a confirmed deposit should be sold as a TWAP
+ */
+export function shouldExecuteAsTwap(config: SellTokenConfig, amount: bigint): boolean {
+  return (
+    TWAP_PARTS > 1 &&
+    config.twapMinSellAmount !== undefined &&
+    amount >= config.twapMinSellAmount
+  );
+}
+
+/**
+ * Plan a TWAP starting now: its number of parts and the end of its window
+ */
+export function planTwap(now: Date = new Date()): { twapParts: number; twapEndsAt: Date } {
+  return {
+    twapParts: TWAP_PARTS,
+    twapEndsAt: new Date(now.getTime() + TWAP_PARTS * TWAP_PART_INTERVAL_MS),
+  };
+}
+
+/**
+ * Check if a TWAP swap has parts left after its current child order
+ */
+export function hasTwapPartsRemaining(swap: Swap): boolean {
+  if (swap.twapParts === null) {
+    return false;
+  }
+  // A filled child is counted in twapPartsFilled once recorded
+  const filled = swap.orderStatus === "FULFILLED" ? swap.twapPartsFilled : swap.twapPartsFilled + 1;
+  return filled < swap.twapParts;
+}
+
+/**
+ * Get the amount the swap's next order sells: an equal share of the
+ * vault balance over the parts left, or all of it for the last part
+ * (and for swaps that aren't TWAPs)
+ */
+export function getTwapPartAmount(swap: Swap, balance: bigint): bigint {
+  if (swap.twapParts === null) {
+    return balance;
+  }
+  const partsLeft = swap.twapParts - swap.twapPartsFilled;
+  return partsLeft > 1 ? balance / BigInt(partsLeft) : balance;
+}
+
+/**
+ * Get when the part after the current child order is due
+ * Parts are spaced one interval apart, ending with the window.
+ */
+export function getTwapNextPartAt(swap: Swap): Date {
+  if (swap.twapParts === null || !swap.twapEndsAt) {
+    return new Date();
+  }
+  // The next part and every one after it, up to the end of the window
+  const partsFromNext = swap.twapParts - swap.twapPartsFilled - 1;
+  const nextPartAt = swap.twapEndsAt.getTime() - partsFromNext * TWAP_PART_INTERVAL_MS;
+  return new Date(Math.max(Date.now(), nextPartAt));
+}
+
+/**
+ * Get the validTo of a TWAP child order (one interval from now),
+ * or undefined for ordinary orders
+ */
+export function getTwapOrderValidTo(swap: Swap): number | undefined {
+  if (swap.twapParts === null) {
+    return undefined;
+  }
+  return Math.floor((Date.now() + TWAP_PART_INTERVAL_MS) / 1000);
+}
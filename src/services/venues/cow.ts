@@ -0,0 +1,100 @@
+import { keccak256, stringToHex } from "viem";
+import { stringifyDeterministic } from "@cowprotocol/sdk-app-data";
+import {
+  cancelOrder,
+  createSwapOrderWithAppData,
+  getOrderStatus,
+  getOrderTrades,
+  getQuote,
+} from "../cowswap";
+import type { PreHook, SwapVenue } from "./types";
+
+/**
+ * Build appData with optional pre-hooks and auto slippage configuration
+ *
+ * COWSwap uses appData to include:
+ * - Pre-transaction hooks (like permits)
+ * - Order class (market, or limit for limit swaps)
+ * - Quote metadata including slippage settings
+ *
+ * Setting smartSlippage: true enables COWSwap's auto slippage feature
+ * where solvers can optimize execution within the slippage tolerance.
+ *
+ * The appDataHex is the keccak256 hash of the deterministically-stringified JSON.
+ */
+export async function buildAppData(
+  preHooks: PreHook[],
+  slippageBps: number,
+  orderClass: "market" | "limit" = "market"
+): Promise<{ appDataHex: `0x${string}`; fullAppData: string }> {
+  // Build the appData document following COW Protocol appData schema v1.1.0
+  const appDataDoc = {
+    version: "1.1.0",
+    appCode: "rift.trade",
+    metadata: {
+      ...(preHooks.length > 0 ? { hooks: { pre: preHooks } } : {}),
+      // Market order, or a limit order that waits for its price
+      orderClass: {
+        orderClass,
+      },
+      // Include slippage settings for auto slippage
+      quote: {
+        slippageBips: slippageBps,
+        smartSlippage: true,
+      },
+    },
+  };
+
+  // Stringify deterministically (sorted keys, no extra whitespace)
+  const fullAppData = await stringifyDeterministic(appDataDoc);
+
+  // Compute the keccak256 hash of the JSON string
+  const appDataHex = keccak256(stringToHex(fullAppData));
+
+  return {
+    appDataHex,
+    fullAppData,
+  };
+}
+
+/**
+ * COW Protocol, through its order book API
+ *
+ * Pre-hooks and the order class travel in the order's appData.
+ */
+export const cowVenue: SwapVenue = {
+  id: "cow",
+
+  async getQuote(params) {
+    const quote = await getQuote(params);
+    return {
+      venueQuoteId: quote.quote.id?.toString(),
+      sellAmount: quote.sellAmount,
+      buyAmount: quote.buyAmount,
+      feeAmount: quote.feeAmount,
+      validTo: quote.validTo,
+    };
+  },
+
+  async placeOrder(params) {
+    const { preHooks, slippageBps, orderClass, ...order } = params;
+
+    const { appDataHex, fullAppData } = await buildAppData(preHooks, slippageBps, orderClass);
+    console.log(`[CowVenue] AppData hash: ${appDataHex}`);
+
+    const { orderId } = await createSwapOrderWithAppData({ ...order, appDataHex, fullAppData });
+    return orderId;
+  },
+
+  getOrderStatus(chainId, orderId) {
+    return getOrderStatus(chainId, orderId);
+  },
+
+  getOrderFills(chainId, orderId) {
+    return getOrderTrades(chainId, orderId);
+  },
+
+  cancelOrder(chainId, orderId, vaultPrivateKey) {
+    return cancelOrder(chainId, orderId, vaultPrivateKey);
+  },
+};
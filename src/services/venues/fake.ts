@@ -0,0 +1,158 @@
+import type { CowOrderStatus, SupportedChainId } from "../../types";
+import type {
+  SwapVenue,
+  VenueFill,
+  VenueOrderParams,
+  VenueOrderStatus,
+} from "./types";
+
+/**
+ * An order held by the fake venue
+ */
+export interface FakeOrder {
+  orderId: string;
+  chainId: SupportedChainId;
+  params: VenueOrderParams;
+  status: CowOrderStatus;
+  fills: VenueFill[];
+  createdAt: Date;
+}
+
+/**
+ * A venue that trades in memory, for tests
+ *
+ * Quotes at a fixed price and never fills on its own: tests fill, expire
+ * or cancel orders themselves.
+ */
+export interface FakeVenue extends SwapVenue {
+  readonly orders: Map<string, FakeOrder>;
+
+  /**
+   * Set the price quotes are given at (buyAmount per sellAmount)
+   */
+  setPrice(sellAmount: bigint, buyAmount: bigint): void;
+
+  /**
+   * Fill an open order, in full or (if partially fillable) in part
+   */
+  fillOrder(orderId: string, sellAmount?: bigint): VenueFill;
+
+  /**
+   * Move an order to a status (e.g. EXPIRED)
+   */
+  setOrderStatus(orderId: string, status: CowOrderStatus): void;
+}
+
+/**
+ * Create an in-memory venue
+ *
+ * @param id - The venue ID swaps record (register it with registerVenue)
+ */
+export function createFakeVenue(id = "fake"): FakeVenue {
+  const orders: Map<string, FakeOrder> = new Map();
+  let price = { sellAmount: 1n, buyAmount: 1n };
+  let fillCount = 0;
+
+  const getOrder = (orderId: string): FakeOrder => {
+    const order = orders.get(orderId);
+    if (!order) {
+      throw new Error(`Fake venue has no order ${orderId}`);
+    }
+    return order;
+  };
+
+  const sumFills = (order: FakeOrder, side: "sellAmount" | "buyAmount"): bigint =>
+    order.fills.reduce((total, fill) => total + BigInt(fill[side]), 0n);
+
+  return {
+    id,
+    orders,
+
+    setPrice(sellAmount, buyAmount) {
+      price = { sellAmount, buyAmount };
+    },
+
+    async getQuote(params) {
+      const validTo = Math.floor(Date.now() / 1000) + 600;
+      if (params.kind === "buy") {
+        // Round the sell side up, as a venue would
+        const sellAmount =
+          (BigInt(params.buyAmount) * price.sellAmount + price.buyAmount - 1n) / price.buyAmount;
+        return { sellAmount: sellAmount.toString(), buyAmount: params.buyAmount, feeAmount: "0", validTo };
+      }
+      const buyAmount = (BigInt(params.sellAmount) * price.buyAmount) / price.sellAmount;
+      return { sellAmount: params.sellAmount, buyAmount: buyAmount.toString(), feeAmount: "0", validTo };
+    },
+
+    async placeOrder(params) {
+      const orderId = `0x${(orders.size + 1).toString(16).padStart(112, "0")}`;
+      orders.set(orderId, {
+        orderId,
+        chainId: params.chainId,
+        params,
+        status: "OPEN",
+        fills: [],
+        createdAt: new Date(),
+      });
+      return orderId;
+    },
+
+    async getOrderStatus(_chainId, orderId): Promise<VenueOrderStatus> {
+      const order = getOrder(orderId);
+      return {
+        status: order.status,
+        executedSellAmount: sumFills(order, "sellAmount").toString(),
+        executedBuyAmount: sumFills(order, "buyAmount").toString(),
+        sellAmount: order.params.sellAmount,
+        buyAmount: order.params.buyAmountMin,
+        creationDate: order.createdAt.toISOString(),
+      };
+    },
+
+    async getOrderFills(_chainId, orderId) {
+      return [...getOrder(orderId).fills];
+    },
+
+    async cancelOrder(_chainId, orderId) {
+      const order = getOrder(orderId);
+      if (order.status === "OPEN") {
+        order.status = "CANCELLED";
+      }
+    },
+
+    fillOrder(orderId, sellAmount) {
+      const order = getOrder(orderId);
+      if (order.status !== "OPEN") {
+        throw new Error(`Fake venue order ${orderId} is ${order.status}`);
+      }
+
+      const remaining = BigInt(order.params.sellAmount) - sumFills(order, "sellAmount");
+      const filled = sellAmount ?? remaining;
+      if (filled > remaining || (filled < remaining && !order.params.partiallyFillable)) {
+        throw new Error(`Fake venue order ${orderId} can't fill ${filled} of ${remaining}`);
+      }
+
+      // Buy orders receive exactly their amount, sell orders the venue price
+      const buyAmount = order.params.kind === "buy"
+        ? BigInt(order.params.buyAmountMin)
+        : (filled * price.buyAmount) / price.sellAmount;
+
+      fillCount += 1;
+      const fill: VenueFill = {
+        txHash: `0x${fillCount.toString(16).padStart(64, "0")}`,
+        sellAmount: filled.toString(),
+        buyAmount: buyAmount.toString(),
+        blockNumber: fillCount,
+      };
+      order.fills.push(fill);
+      if (filled === remaining) {
+        order.status = "FULFILLED";
+      }
+      return fill;
+    },
+
+    setOrderStatus(orderId, status) {
+      getOrder(orderId).status = status;
+    },
+  };
+}
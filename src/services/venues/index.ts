@@ -0,0 +1,63 @@
+/**
+ * Swap Venues
+ *
+ * Where a vault's deposit is traded. Each venue implements SwapVenue
+ * (quote, place order, order status, fills, cancel), and each swap records
+ * the venue it was created on, so a swap keeps trading on one venue even
+ * if the default changes. New swaps use SWAP_VENUE.
+ *
+ * COW Protocol is the only production venue. The approval flows (permit
+ * pre-hooks, relayer approvals) still grant COW's vault relayer.
+ */
+
+import type { Swap } from "../../db/schema";
+import { cowVenue } from "./cow";
+import type { SwapVenue } from "./types";
+
+export type {
+  PreHook,
+  SwapVenue,
+  VenueFill,
+  VenueOrderParams,
+  VenueOrderStatus,
+  VenueQuote,
+  VenueQuoteParams,
+} from "./types";
+
+// Venue new swaps are created on
+const SWAP_VENUE = process.env.SWAP_VENUE ?? "cow";
+
+// Venues by ID
+const venues: Map<string, SwapVenue> = new Map([[cowVenue.id, cowVenue]]);
+
+/**
+ * Make a venue available to swaps (e.g. an in-memory venue in tests)
+ */
+export function registerVenue(venue: SwapVenue): void {
+  venues.set(venue.id, venue);
+}
+
+/**
+ * Get a venue by ID
+ */
+export function getVenue(id: string): SwapVenue {
+  const venue = venues.get(id);
+  if (!venue) {
+    throw new Error(`Unknown swap venue: ${id}`);
+  }
+  return venue;
+}
+
+/**
+ * Get the venue a swap trades on
+ */
+export function getSwapVenue(swap: Swap): SwapVenue {
+  return getVenue(swap.venue);
+}
+
+/**
+ * Get the venue new swaps and quotes use
+ */
+export function getDefaultVenue(): SwapVenue {
+  return getVenue(SWAP_VENUE);
+}
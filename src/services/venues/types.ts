@@ -0,0 +1,97 @@
+import type { Address } from "viem";
+import type { CowOrderStatus, SupportedChainId, SwapKind, Token, TokenAddress } from "../../types";
+
+/**
+ * A call the solver executes before the swap (e.g. a permit)
+ */
+export interface PreHook {
+  target: Address;
+  callData: `0x${string}`;
+  gasLimit: string;
+}
+
+export type VenueQuoteParams = {
+  chainId: SupportedChainId;
+  sellToken: Token;
+  buyToken: Token;
+  from: Address;
+} & (
+  | { kind?: "sell"; sellAmount: string } // Amount to sell, fee included
+  | { kind: "buy"; buyAmount: string }    // Exact amount to buy
+);
+
+export interface VenueQuote {
+  venueQuoteId?: string; // The venue's own quote ID, when it returns one
+  sellAmount: string;    // Excluding feeAmount
+  buyAmount: string;
+  feeAmount: string;
+  validTo: number;       // Unix seconds
+}
+
+export interface VenueOrderParams {
+  chainId: SupportedChainId;
+  sellToken: TokenAddress;
+  buyToken: TokenAddress;
+  sellAmount: string;
+  buyAmountMin: string;
+  receiver: Address;
+  vaultPrivateKey: `0x${string}`;  // The vault signs its own orders
+  kind: SwapKind;                  // "buy" orders buy exactly buyAmountMin, selling at most sellAmount
+  orderClass: "market" | "limit";
+  partiallyFillable: boolean;
+  validTo?: number;                // Unix seconds (defaults to the venue's order validity)
+  slippageBps: number;             // Tolerance already applied to the amounts
+  preHooks: PreHook[];             // Calls to execute before the swap
+}
+
+export interface VenueOrderStatus {
+  status: CowOrderStatus;  // Venues map their order states onto these
+  executedBuyAmount?: string;
+  executedSellAmount?: string;
+  sellAmount?: string;
+  buyAmount?: string;     // Minimum buy amount (the order's limit)
+  creationDate?: string;  // ISO timestamp of order creation
+}
+
+// A settlement (trade) that filled some or all of an order
+export interface VenueFill {
+  txHash: string;
+  buyAmount: string;
+  sellAmount: string;
+  blockNumber: number;
+}
+
+/**
+ * A place to trade a vault's deposit
+ *
+ * Pollers and flows only reach a venue through this interface; each swap
+ * records the venue its orders were placed on.
+ */
+export interface SwapVenue {
+  readonly id: string;
+
+  getQuote(params: VenueQuoteParams): Promise<VenueQuote>;
+
+  /**
+   * Sign and submit an order
+   * @returns The venue's order ID
+   */
+  placeOrder(params: VenueOrderParams): Promise<string>;
+
+  getOrderStatus(chainId: SupportedChainId, orderId: string): Promise<VenueOrderStatus>;
+
+  /**
+   * Get an order's fills, oldest first (an order can fill across several)
+   */
+  getOrderFills(chainId: SupportedChainId, orderId: string): Promise<VenueFill[]>;
+
+  /**
+   * Cancel an open order, signed with the vault key. Best-effort: a fill
+   * already in flight can still land.
+   */
+  cancelOrder(
+    chainId: SupportedChainId,
+    orderId: string,
+    vaultPrivateKey: `0x${string}`
+  ): Promise<void>;
+}
@@ -0,0 +1,311 @@
+/**
+ * Webhook Delivery
+ *
+ * Status changes are queued in webhook_deliveries in the same transaction
+ * as the change itself (see transitionSwap). This worker POSTs due
+ * deliveries to the swap's webhookUrl and retries failures with
+ * exponential backoff. Delivery is at-least-once; receivers should
+ * deduplicate on the X-Webhook-Id header.
+ *
+ * Each request is signed with the swap's webhookSecret:
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Signature: sha256=hex(HMAC-SHA256(secret, `${timestamp}.${body}`))
+ *
+ * Webhook URLs are caller-supplied, so they must be https and resolve only
+ * to public addresses; the check is repeated before every send, since DNS
+ * can change after the swap is created.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import {
+  getDueWebhookDeliveries,
+  getWebhookSecret,
+  markWebhookAttemptFailed,
+  markWebhookDelivered,
+} from "../db/queries";
+import { recordWebhookDelivery } from "./metrics";
+import type { WebhookDelivery } from "../db/schema";
+
+// Poll every 5 seconds for due deliveries
+const WEBHOOK_POLL_INTERVAL_MS = 5_000;
+
+// Deliveries sent per poll
+const WEBHOOK_BATCH_SIZE = 50;
+
+// Give up on a receiver that does not respond within 10 seconds
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Attempts before a delivery is marked failed (about 11 hours of retrying)
+const WEBHOOK_MAX_ATTEMPTS = 10;
+
+// Backoff: 30s, 1m, 2m, 4m, ... capped at 2h
+const WEBHOOK_BASE_BACKOFF_MS = 30_000;
+const WEBHOOK_MAX_BACKOFF_MS = 2 * 60 * 60 * 1000;
+
+// Allow http and private-network webhook URLs (local development only)
+let allowInsecureWebhookUrls = process.env.WEBHOOK_ALLOW_INSECURE_URLS === "true";
+
+// Store the poller interval
+let webhookInterval: ReturnType<typeof setInterval> | null = null;
+
+// Guards against overlapping runs when receivers are slow
+let webhookInProgress = false;
+
+/**
+ * Compute the signature header value for a webhook body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a webhook secret presented by a caller against the swap's
+ * Swaps without a webhook secret accept none.
+ */
+export function isWebhookSecretValid(
+  expected: string | null,
+  given: string | undefined
+): boolean {
+  if (!expected || given === undefined) {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Allow http and private-network webhook URLs (for tests)
+ */
+export function setAllowInsecureWebhookUrls(allow: boolean): void {
+  allowInsecureWebhookUrls = allow;
+}
+
+/**
+ * Check whether an IPv4 address is in a loopback, private, link-local,
+ * shared, multicast or otherwise non-public range
+ */
+function isPrivateIPv4(address: string): boolean {
+  const [a = 0, b = 0] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+/**
+ * Check whether an IP address (v4 or v6) is not publicly routable
+ */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    return isPrivateIPv4(address);
+  }
+
+  const lower = address.toLowerCase();
+  // IPv4-mapped addresses reach the embedded IPv4 host. URL parsing
+  // normalizes ::ffff:a.b.c.d to ::ffff:hhhh:hhhh
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped?.[1]) {
+    return isPrivateIPv4(mapped[1]);
+  }
+  const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex?.[1] && mappedHex[2]) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    /^f[cd]/.test(lower) ||        // fc00::/7 unique local
+    /^fe[89ab]/.test(lower) ||     // fe80::/10 link-local
+    lower.startsWith("ff")         // ff00::/8 multicast
+  );
+}
+
+/**
+ * Check that a webhook URL is safe to POST to
+ *
+ * Requires https and a host that resolves only to public addresses, so
+ * a swap can't point deliveries at the service's own network.
+ *
+ * @returns Why the URL is rejected, or null if it is allowed
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid webhook URL";
+  }
+
+  if (allowInsecureWebhookUrls) {
+    return parsed.protocol === "https:" || parsed.protocol === "http:"
+      ? null
+      : "Invalid webhook URL";
+  }
+  if (parsed.protocol !== "https:") {
+    return "Webhook URL must use https";
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      return "Webhook URL host does not resolve";
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return "Webhook URL must not point to a private or local address";
+  }
+  return null;
+}
+
+/**
+ * Delay before the next attempt, given the number of attempts made so far
+ */
+function backoffMs(attempts: number): number {
+  return Math.min(WEBHOOK_BASE_BACKOFF_MS * 2 ** (attempts - 1), WEBHOOK_MAX_BACKOFF_MS);
+}
+
+/**
+ * Send a single delivery and record the outcome
+ */
+async function deliverWebhook(delivery: WebhookDelivery): Promise<void> {
+  const secret = await getWebhookSecret(delivery.swapId);
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let error: string;
+  let responseStatus: number | null = null;
+
+  // The host may have been re-pointed since the swap was created
+  const rejected = await checkWebhookUrl(delivery.url);
+  if (rejected) {
+    console.error(
+      `[Webhook] Delivery ${delivery.id} for swap ${delivery.swapId} not sent: ${rejected}`
+    );
+    await markWebhookAttemptFailed(delivery.id, rejected, null, null);
+    recordWebhookDelivery("failed");
+    return;
+  }
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery.id.toString(),
+        "X-Webhook-Timestamp": timestamp.toString(),
+        ...(secret ? { "X-Webhook-Signature": signWebhookPayload(secret, timestamp, body) } : {}),
+      },
+      body,
+      // A redirect could lead to an address checkWebhookUrl would reject
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      await markWebhookDelivered(delivery.id, response.status);
+      recordWebhookDelivery("delivered");
+      return;
+    }
+
+    responseStatus = response.status;
+    error = `HTTP ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    console.error(
+      `[Webhook] Delivery ${delivery.id} for swap ${delivery.swapId} failed after ${attempts} attempts: ${error}`
+    );
+    await markWebhookAttemptFailed(delivery.id, error, responseStatus, null);
+    recordWebhookDelivery("failed");
+    return;
+  }
+
+  const nextAttemptAt = new Date(Date.now() + backoffMs(attempts));
+  console.warn(
+    `[Webhook] Delivery ${delivery.id} for swap ${delivery.swapId} failed (${error}), retrying at ${nextAttemptAt.toISOString()}`
+  );
+  await markWebhookAttemptFailed(delivery.id, error, responseStatus, nextAttemptAt);
+  recordWebhookDelivery("retry");
+}
+
+/**
+ * Send all due webhook deliveries
+ */
+export async function processWebhookDeliveries(): Promise<void> {
+  if (webhookInProgress) {
+    return;
+  }
+
+  webhookInProgress = true;
+  try {
+    const due = await getDueWebhookDeliveries(WEBHOOK_BATCH_SIZE);
+
+    for (const delivery of due) {
+      try {
+        await deliverWebhook(delivery);
+      } catch (error) {
+        // Database error - delivery stays pending and is retried next cycle
+        console.error(`[Webhook] Error processing delivery ${delivery.id}:`, error);
+      }
+    }
+  } finally {
+    webhookInProgress = false;
+  }
+}
+
+/**
+ * Start the webhook delivery worker
+ */
+export function startWebhookWorker(): void {
+  if (webhookInterval) {
+    console.log("[Webhook] Worker already running");
+    return;
+  }
+
+  console.log(`[Webhook] Starting webhook worker (interval: ${WEBHOOK_POLL_INTERVAL_MS}ms)`);
+
+  // Run immediately once
+  processWebhookDeliveries().catch((err) =>
+    console.error("[Webhook] Initial poll error:", err)
+  );
+
+  // Then run on interval
+  webhookInterval = setInterval(() => {
+    processWebhookDeliveries().catch((err) =>
+      console.error("[Webhook] Poll error:", err)
+    );
+  }, WEBHOOK_POLL_INTERVAL_MS);
+}
+
+/**
+ * Stop the webhook delivery worker
+ */
+export function stopWebhookWorker(): void {
+  if (webhookInterval) {
+    clearInterval(webhookInterval);
+    webhookInterval = null;
+    console.log("[Webhook] Worker stopped");
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Vault WETH Handling
+ *
+ * Swaps selling native ETH trade WETH: the vault wraps its deposit before
+ * the order is placed, and unwraps it again if the swap is refunded.
+ * Vaults pay for these transactions from their own ETH.
+ */
+
+import {
+  createWalletClient,
+  http,
+  type Address,
+  type PublicClient,
+} from "viem";
+import { getAccountFromPrivateKey } from "./wallet";
+import { viemChains } from "./chain-client";
+import { WRAPPED_NATIVE_ADDRESSES } from "../config/tokens";
+import type { GasFees } from "./gas-wallet";
+import type { ChainConfig } from "../types";
+
+// Gas limits for WETH9 deposit/withdraw
+export const WRAP_GAS = 60_000n;
+export const UNWRAP_GAS = 60_000n;
+
+// Number of blocks to wait for a wrap/unwrap to land
+const WETH_CONFIRMATIONS = 1;
+
+/**
+ * ABI for WETH9 deposit/withdraw
+ */
+const WETH_ABI = [
+  {
+    name: "deposit",
+    type: "function",
+    inputs: [],
+    outputs: [],
+    stateMutability: "payable",
+  },
+  {
+    name: "withdraw",
+    type: "function",
+    inputs: [{ name: "wad", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+/**
+ * Wrap `amount` of a vault's native ETH into WETH and wait for it to land
+ */
+export async function wrapVaultEth(
+  config: ChainConfig,
+  client: PublicClient,
+  vaultPrivateKey: `0x${string}`,
+  amount: bigint,
+  fees: GasFees
+): Promise<void> {
+  const vaultClient = createWalletClient({
+    account: getAccountFromPrivateKey(vaultPrivateKey),
+    chain: viemChains[config.chainId],
+    transport: http(config.rpcUrl),
+  });
+
+  const txHash = await vaultClient.writeContract({
+    address: WRAPPED_NATIVE_ADDRESSES[config.chainId] as Address,
+    abi: WETH_ABI,
+    functionName: "deposit",
+    value: amount,
+    gas: WRAP_GAS,
+    ...fees,
+  });
+
+  await waitForWethTx(client, txHash);
+  console.log(`[WETH] Wrapped ${amount} wei for vault ${vaultClient.account.address} (tx: ${txHash})`);
+}
+
+/**
+ * Unwrap `amount` of a vault's WETH into native ETH and wait for it to land
+ */
+export async function unwrapVaultWeth(
+  config: ChainConfig,
+  client: PublicClient,
+  vaultPrivateKey: `0x${string}`,
+  amount: bigint,
+  fees: GasFees
+): Promise<void> {
+  const vaultClient = createWalletClient({
+    account: getAccountFromPrivateKey(vaultPrivateKey),
+    chain: viemChains[config.chainId],
+    transport: http(config.rpcUrl),
+  });
+
+  const txHash = await vaultClient.writeContract({
+    address: WRAPPED_NATIVE_ADDRESSES[config.chainId] as Address,
+    abi: WETH_ABI,
+    functionName: "withdraw",
+    args: [amount],
+    gas: UNWRAP_GAS,
+    ...fees,
+  });
+
+  await waitForWethTx(client, txHash);
+  console.log(`[WETH] Unwrapped ${amount} wei for vault ${vaultClient.account.address} (tx: ${txHash})`);
+}
+
+/**
+ * Wait for a wrap/unwrap transaction and fail if it reverted
+ */
+async function waitForWethTx(client: PublicClient, txHash: `0x${string}`): Promise<void> {
+  const receipt = await client.waitForTransactionReceipt({
+    hash: txHash,
+    confirmations: WETH_CONFIRMATIONS,
+  });
+  if (receipt.status !== "success") {
+    throw new Error(`WETH tx ${txHash} reverted`);
+  }
+}
@@ -41,6 +41,20 @@ export type SwapStatus =
   | "refund_pending"
   | "refunded";
 
+/**
+ * What a swap trades:
+ * - "sell": sell the whole deposit for as much of the buy token as possible
+ * - "buy": buy an exact amount of the buy token, refunding the unspent deposit
+ */
+export type SwapKind = "sell" | "buy";
+
+/**
+ * How deposits are detected:
+ * - "multicall": re-read every pending vault's balance each polling interval
+ * - "events": follow new blocks and filter sell token Transfer logs into vaults
+ */
+export type DepositDetectionMode = "multicall" | "events";
+
 // Chain configuration
 export interface ChainConfig {
   chainId: SupportedChainId;
@@ -49,22 +63,31 @@ export interface ChainConfig {
   multicall3: `0x${string}`;
   pollingIntervalMs: number;
   swapTtlMs: number;
+  blockTimeMs: number;
+  confirmations: number; // Blocks a deposit must be buried under before executing
+  depositDetection: DepositDetectionMode;
 }
 
 // API Request/Response types
-// Note: sellToken is always CBBTC - not specified in requests/responses
+// Note: sellToken is optional in requests and defaults to CBBTC
 
 export interface QuoteRequest {
   chainId: SupportedChainId;
+  sellToken?: Token;  // A registered sell token (defaults to CBBTC)
   buyToken: Token;
-  sellAmount: string; // Amount of CBBTC to sell
+  kind?: SwapKind;    // Defaults to "sell"
+  sellAmount?: string; // Amount of sellToken to sell (sell quotes)
+  buyAmount?: string;  // Amount of buyToken to buy (buy quotes)
 }
 
 export interface QuoteResponse {
   quoteId: string;
   chainId: SupportedChainId;
+  sellToken: Token;
   buyToken: Token;
-  sellAmount: string; // Amount of CBBTC
+  kind: SwapKind;
+  sellAmount: string; // Amount of sellToken (buy quotes: required to buy buyAmountEstimate)
+  sellAmountMax?: string; // Buy quotes: sellAmount plus slippage, the amount to deposit
   buyAmountEstimate: string;
   expiresAt: number;
   canFill: boolean;
@@ -72,39 +95,185 @@ export interface QuoteResponse {
 
 export interface CreateSwapRequest {
   chainId: SupportedChainId;
+  sellToken?: Token;             // A registered sell token (defaults to CBBTC)
   buyToken: Token;
+  kind?: SwapKind;               // Defaults to "sell"
+  buyAmount?: string;            // Required for buy swaps: the exact amount of buyToken to buy
   recipientAddress: `0x${string}`;
-  refundAddress: `0x${string}`;
+  refundAddress?: `0x${string}`; // Defaults to the depositor's address (required for native ETH)
+  webhookUrl?: string;           // Receives a signed POST on every status change
+  webhookSecret?: string;        // Required with webhookUrl; HMAC key for signatures
+  partiallyFillable?: boolean;   // Let orders fill in parts (default false)
+  maxSlippageBps?: number;       // Caps the recommended slippage tolerance
+  minBuyAmountPerUnit?: string;  // Buy token base units per whole sell token; refunded if unmet
+  limitBuyAmountPerUnit?: string; // Limit price (same units); waits for it until expiresAt
+  quoteId?: string;              // Binds the swap to an unexpired quote's price
 }
 
 export interface CreateSwapResponse {
   swapId: string;
   vaultAddress: `0x${string}`;
   chainId: SupportedChainId;
+  sellToken: Token;
   buyToken: Token;
+  kind: SwapKind;
+  buyAmount?: string;
+  venue: string;                 // Venue the swap's orders are placed on (e.g. "cow")
   recipientAddress: `0x${string}`;
-  refundAddress: `0x${string}`;
+  refundAddress?: `0x${string}`;
+  webhookUrl?: string;
+  partiallyFillable: boolean;
+  maxSlippageBps?: number;
+  minBuyAmountPerUnit?: string;
+  limitBuyAmountPerUnit?: string;
+  quoteId?: string;
   expiresAt: number;
   status: SwapStatus;
 }
 
+// A COWSwap order submitted for a swap (replaced orders stay in the history)
+export interface SwapOrderSummary {
+  orderUid: string;
+  status: CowOrderStatus;
+  buyAmount?: string;  // Quoted buy amount at submission
+  executedSellAmount?: string; // Filled so far, summed over its trades
+  executedBuyAmount?: string;
+  createdAt: number;
+}
+
 export interface SwapStatusResponse {
   swapId: string;
   chainId: SupportedChainId;
   vaultAddress: `0x${string}`;
+  sellToken: Token;
   buyToken: Token;
+  kind: SwapKind;
+  buyAmount?: string;
+  venue: string;                 // Venue the swap's orders are placed on (e.g. "cow")
   recipientAddress: `0x${string}`;
-  refundAddress: `0x${string}`;
+  refundAddress?: `0x${string}`;
+  partiallyFillable: boolean;
+  maxSlippageBps?: number;
+  minBuyAmountPerUnit?: string;
   status: SwapStatus;
   createdAt: number;
   expiresAt: number;
+  depositStatus?: DepositStatus;
+  depositSeenAt?: number;
+  depositConfirmedAt?: number;
   depositTxHash?: string;
+  depositorAddress?: `0x${string}`;
   depositAmount?: string;
+  deposits?: DepositTransfer[];
+  twap?: TwapProgress;         // Set when the deposit is sold in parts
+  limit?: LimitProgress;       // Set for limit swaps
+  quote?: BoundQuote;          // The quote the swap is bound to (compare with actualBuyAmount)
+  executionAttempts?: number;  // Failed order submissions so far
+  nextAttemptAt?: number;      // When the next submission attempt is due
+  orders?: SwapOrderSummary[];  // Every order submitted, oldest first
   settlementTxHash?: string;
-  actualBuyAmount?: string;
+  actualBuyAmount?: string;     // Bought across all orders
+  executedSellAmount?: string;  // Sold across all orders (may be below depositAmount)
   failureReason?: string;
   refundTxHash?: string;
-  refundAmount?: string;
+  refundAmount?: string;        // Buy swaps: the unspent deposit refunded after settlement
+}
+
+/**
+ * Deposit progress:
+ * - "seen": funds are in the vault at the chain head, awaiting confirmations
+ * - "confirmed": funds survived the chain's confirmation depth and the swap executes
+ */
+export type DepositStatus = "seen" | "confirmed";
+
+// A swap's bound quote, and the output it implies for the actual deposit
+export interface BoundQuote {
+  quoteId: string;
+  sellAmount: string;
+  buyAmountEstimate: string;
+  expectedBuyAmount?: string;  // Quoted price applied to depositAmount
+}
+
+// A limit swap's price against the market's at the last check
+export interface LimitProgress {
+  buyAmountPerUnit: string;         // The limit price
+  marketBuyAmountPerUnit?: string;  // Market price while the order is open
+  distanceBps?: number;             // How far the market is below the limit (<= 0: fillable)
+  checkedAt?: number;
+}
+
+// Progress of a swap sold as a TWAP (a series of child orders)
+export interface TwapProgress {
+  parts: number;
+  partsFilled: number;
+  nextPartAt?: number;  // When the next part is submitted, while waiting for it
+  endsAt?: number;      // End of the window; the unsold remainder is refunded after
+}
+
+// A single sell token transfer into a vault
+export interface DepositTransfer {
+  txHash: `0x${string}`;
+  logIndex: number;
+  from: `0x${string}`;
+  amount: string;
+  blockNumber: number;
+}
+
+// Kinds of entries in a swap's event history
+export type SwapEventType =
+  | "created"
+  | "deposit_seen"
+  | "deposit_confirmed"
+  | "status_changed"
+  | "order_submitted"
+  | "order_status_changed"
+  | "order_filled"
+  | "refund_broadcast"
+  | "surplus_refunded"
+  | "surplus_refund_failed";
+
+export interface SwapTimelineEvent {
+  type: SwapEventType;
+  fromStatus?: SwapStatus;  // Set for status_changed events
+  toStatus?: SwapStatus;
+  details?: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface SwapTimelineResponse {
+  swapId: string;
+  events: SwapTimelineEvent[];
+}
+
+// Body POSTed to a swap's webhookUrl on every status change
+export interface SwapWebhookPayload {
+  event: "swap.status_changed";
+  swapId: string;
+  fromStatus: SwapStatus;
+  toStatus: SwapStatus;
+  timestamp: number;
+  details?: Record<string, unknown>;  // Columns set with the change (e.g. failureReason)
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDeliveryResponse {
+  id: number;
+  url: string;
+  payload: SwapWebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: number;  // Set while pending
+  lastAttemptAt?: number;
+  lastError?: string;
+  responseStatus?: number;
+  deliveredAt?: number;
+  createdAt: number;
+}
+
+export interface WebhookDeliveriesResponse {
+  swapId: string;
+  deliveries: WebhookDeliveryResponse[];
 }
 
 // COWSwap order statuses
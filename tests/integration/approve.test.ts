@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { decodeFunctionData, erc20Abi, maxUint256 } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import { startFakeNode, type FakeNode } from "../rpc";
+import { fixtures } from "../setup";
+import { createSwap } from "../../src/db/queries";
+import { chains } from "../../src/config/chains";
+import { GPV2_VAULT_RELAYER } from "../../src/config/constants";
+import { createChainClient } from "../../src/services/chain-client";
+import { executeApproveFlow } from "../../src/services/flows/approve";
+import { setGasWalletAccount } from "../../src/services/gas-wallet";
+import { registerVenue } from "../../src/services/venues";
+import { createFakeVenue } from "../../src/services/venues/fake";
+import { createVaultWallet } from "../../src/services/wallet";
+import { serializeToken } from "../../src/utils/token";
+import type { Swap } from "../../src/db/schema";
+
+const venue = createFakeVenue("fake-approve");
+
+const GAS_WALLET = privateKeyToAccount(`0x${"33".repeat(32)}`);
+// USDT: no EIP-2612 permit, so vaults approve the relayer on-chain
+const USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const SELL_AMOUNT = 1_000_000_000n;
+
+describe("Approve Flow", () => {
+  let node: FakeNode;
+  let originalRpcUrl: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    registerVenue(venue);
+    venue.setPrice(1_000_000n, 300_000_000_000_000n);
+    node = startFakeNode(1);
+    originalRpcUrl = chains[1].rpcUrl;
+    chains[1].rpcUrl = node.url;
+    setGasWalletAccount(GAS_WALLET);
+  });
+
+  afterAll(async () => {
+    chains[1].rpcUrl = originalRpcUrl;
+    setGasWalletAccount(undefined);
+    node.stop();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+    node.reset();
+    node.setEthBalance(GAS_WALLET.address, 10n ** 18n);
+  });
+
+  // A funded USDT swap on the fake venue
+  async function createUsdtSwap(): Promise<Swap> {
+    const vault = createVaultWallet();
+    const swap = await createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "erc20", address: USDT }),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      venue: venue.id,
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      status: "executing",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    node.setTokenBalance(USDT, swap.vaultAddress, SELL_AMOUNT);
+    return swap;
+  }
+
+  // Amounts of the approve calls the vault sent, in order
+  function sentApprovals(vaultAddress: string): bigint[] {
+    return node
+      .sent(vaultAddress)
+      .filter((tx) => tx.to === USDT.toLowerCase())
+      .map((tx) => {
+        const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: tx.data });
+        expect(functionName).toBe("approve");
+        expect((args[0] as string).toLowerCase()).toBe(GPV2_VAULT_RELAYER.toLowerCase());
+        return args[1] as bigint;
+      });
+  }
+
+  const allowanceOf = (vaultAddress: string) =>
+    node.getAllowance(USDT, vaultAddress, GPV2_VAULT_RELAYER);
+
+  it("approves the relayer from a zero allowance and places the order", async () => {
+    const swap = await createUsdtSwap();
+
+    const result = await executeApproveFlow(swap, SELL_AMOUNT, createChainClient(chains[1]));
+
+    expect(sentApprovals(swap.vaultAddress)).toEqual([maxUint256]);
+    expect(allowanceOf(swap.vaultAddress)).toBe(maxUint256);
+    expect(node.sent(GAS_WALLET.address)).toHaveLength(1);
+    expect(venue.orders.get(result.orderId)?.params.sellAmount).toBe(SELL_AMOUNT.toString());
+  });
+
+  it("resets a non-zero allowance to 0 before approving", async () => {
+    const swap = await createUsdtSwap();
+    node.setAllowance(USDT, swap.vaultAddress, GPV2_VAULT_RELAYER, 5n);
+
+    const result = await executeApproveFlow(swap, SELL_AMOUNT, createChainClient(chains[1]));
+
+    expect(sentApprovals(swap.vaultAddress)).toEqual([0n, maxUint256]);
+    expect(allowanceOf(swap.vaultAddress)).toBe(maxUint256);
+    expect(venue.orders.has(result.orderId)).toBe(true);
+  });
+
+  it("goes straight to the order when the allowance already covers it", async () => {
+    const swap = await createUsdtSwap();
+    node.setAllowance(USDT, swap.vaultAddress, GPV2_VAULT_RELAYER, SELL_AMOUNT);
+
+    const result = await executeApproveFlow(swap, SELL_AMOUNT, createChainClient(chains[1]));
+
+    expect(node.sent()).toHaveLength(0);
+    expect(venue.orders.has(result.orderId)).toBe(true);
+  });
+
+  it("fails without placing an order when an approve reverts", async () => {
+    const swap = await createUsdtSwap();
+    const ordersPlaced = venue.orders.size;
+    node.onSend = (tx) => (tx.to === USDT.toLowerCase() ? "reverted" : "success");
+
+    await expect(
+      executeApproveFlow(swap, SELL_AMOUNT, createChainClient(chains[1]))
+    ).rejects.toThrow("reverted");
+
+    expect(venue.orders.size).toBe(ordersPlaced);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "bun:test";
+import {
+  encodeAbiParameters,
+  encodeFunctionResult,
+  multicall3Abi,
+  type PublicClient,
+} from "viem";
+import {
+  PreHookSimulationError,
+  simulatePreHooks,
+} from "../../src/services/hook-simulation";
+import { classifyExecutionError } from "../../src/services/execution-errors";
+
+const TOKEN = "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf" as const;
+const VAULT = "0x1234567890123456789012345678901234567890" as const;
+const PERMIT_HOOK = { target: TOKEN, callData: "0xd505accf" as const, gasLimit: "80000" };
+
+/**
+ * Client stub answering the simulation's aggregate3 call
+ */
+function stubClient(outcome: { hookSuccess: boolean; allowance: bigint; balance: bigint }): PublicClient {
+  const uint = (value: bigint) => encodeAbiParameters([{ type: "uint256" }], [value]);
+  return {
+    async call() {
+      return {
+        data: encodeFunctionResult({
+          abi: multicall3Abi,
+          functionName: "aggregate3",
+          result: [
+            { success: outcome.hookSuccess, returnData: "0x" },
+            { success: true, returnData: uint(outcome.allowance) },
+            { success: true, returnData: uint(outcome.balance) },
+          ],
+        }),
+      };
+    },
+  } as unknown as PublicClient;
+}
+
+const params = {
+  chainId: 8453 as const,
+  owner: VAULT,
+  sellToken: TOKEN,
+  sellAmount: 10_000n,
+  preHooks: [PERMIT_HOOK],
+};
+
+describe("Pre-Hook Simulation", () => {
+  it("passes when the relayer can pull the sell amount", async () => {
+    const client = stubClient({ hookSuccess: true, allowance: 2n ** 256n - 1n, balance: 10_000n });
+
+    await simulatePreHooks(client, params);
+  });
+
+  it("fails when the permit hook reverts", async () => {
+    const client = stubClient({ hookSuccess: false, allowance: 0n, balance: 10_000n });
+
+    const error = await simulatePreHooks(client, params).catch((e) => e);
+    expect(error).toBeInstanceOf(PreHookSimulationError);
+    expect(error.failure).toBe("hook_reverted");
+    expect(classifyExecutionError(error)).toBe("permanent");
+  });
+
+  it("fails when the allowance or balance is short", async () => {
+    const noAllowance = await simulatePreHooks(
+      stubClient({ hookSuccess: true, allowance: 0n, balance: 10_000n }),
+      params
+    ).catch((e) => e);
+    expect(noAllowance.failure).toBe("insufficient_allowance");
+
+    const noBalance = await simulatePreHooks(
+      stubClient({ hookSuccess: true, allowance: 10_000n, balance: 9_999n }),
+      params
+    ).catch((e) => e);
+    expect(noBalance.failure).toBe("insufficient_balance");
+  });
+});
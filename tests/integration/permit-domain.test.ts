@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { ContractFunctionZeroDataError, domainSeparator, type PublicClient } from "viem";
+import {
+  PermitDomainMismatchError,
+  verifyPermitDomain,
+} from "../../src/services/permit-domain";
+import { classifyExecutionError } from "../../src/services/execution-errors";
+
+const TOKEN = "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf" as const;
+const PERMIT_DOMAIN = { name: "Coinbase Wrapped BTC", version: "2" };
+
+/**
+ * Minimal client stub answering only the domain reads
+ */
+function stubClient(reads: {
+  eip712Domain?: { name: string; version: string; chainId: number };
+  domainSeparator?: `0x${string}`;
+}): PublicClient {
+  return {
+    async getEip712Domain() {
+      if (!reads.eip712Domain) {
+        throw new ContractFunctionZeroDataError({ functionName: "eip712Domain" });
+      }
+      return {
+        domain: { ...reads.eip712Domain, verifyingContract: TOKEN, salt: "0x" },
+        fields: "0x0f",
+        extensions: [],
+      };
+    },
+    async readContract() {
+      if (!reads.domainSeparator) {
+        throw new ContractFunctionZeroDataError({ functionName: "DOMAIN_SEPARATOR" });
+      }
+      return reads.domainSeparator;
+    },
+  } as unknown as PublicClient;
+}
+
+describe("Permit Domain Verification", () => {
+  it("accepts a matching EIP-5267 domain", async () => {
+    const client = stubClient({ eip712Domain: { ...PERMIT_DOMAIN, chainId: 1 } });
+
+    await verifyPermitDomain(client, 1, TOKEN, PERMIT_DOMAIN);
+  });
+
+  it("rejects a registry version the token doesn't report", async () => {
+    const client = stubClient({ eip712Domain: { ...PERMIT_DOMAIN, chainId: 1 } });
+
+    const wrongVersion = { ...PERMIT_DOMAIN, version: "1" };
+    const error = await verifyPermitDomain(client, 1, TOKEN, wrongVersion).catch((e) => e);
+    expect(error).toBeInstanceOf(PermitDomainMismatchError);
+    expect(classifyExecutionError(error)).toBe("permanent");
+  });
+
+  it("falls back to DOMAIN_SEPARATOR", async () => {
+    const separator = domainSeparator({
+      domain: { ...PERMIT_DOMAIN, chainId: 8453, verifyingContract: TOKEN },
+    });
+
+    await verifyPermitDomain(stubClient({ domainSeparator: separator }), 8453, TOKEN, PERMIT_DOMAIN);
+
+    const wrongName = { ...PERMIT_DOMAIN, name: "Wrapped BTC" };
+    const error = await verifyPermitDomain(
+      stubClient({ domainSeparator: separator }),
+      8453,
+      TOKEN,
+      wrongName
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(PermitDomainMismatchError);
+  });
+});
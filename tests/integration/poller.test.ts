@@ -0,0 +1,432 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { OrderBookApiError } from "@cowprotocol/cow-sdk";
+import type { PublicClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps, getTestDb } from "../db";
+import { startFakeNode, type FakeNode } from "../rpc";
+import { fixtures } from "../setup";
+import {
+  createSwap,
+  getChainCursor,
+  getSwapById,
+  getSwapEvents,
+  setChainCursor,
+} from "../../src/db/queries";
+import { chainCursors } from "../../src/db/schema";
+import { chains } from "../../src/config/chains";
+import { createChainClient } from "../../src/services/chain-client";
+import { classifyExecutionError } from "../../src/services/execution-errors";
+import { setGasWalletAccount } from "../../src/services/gas-wallet";
+import { scanNewBlocks, sweepLateDeposits } from "../../src/services/poller";
+import { InsufficientSellAmountError, MinBuyAmountNotMetError } from "../../src/services/slippage";
+import { registerVenue } from "../../src/services/venues";
+import { createFakeVenue } from "../../src/services/venues/fake";
+import { createVaultWallet } from "../../src/services/wallet";
+import { serializeToken } from "../../src/utils/token";
+import type { Swap } from "../../src/db/schema";
+import type { ChainConfig } from "../../src/types";
+
+const venue = createFakeVenue("fake-poller");
+
+const DEPOSITOR = "0x2222222222222222222222222222222222222222";
+const CBBTC = fixtures.cbbtcAddress;
+const USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GAS_WALLET = privateKeyToAccount(`0x${"44".repeat(32)}`);
+
+// An order book rejection, as the COW SDK throws it
+const orderBookError = (status: number, errorType?: string) =>
+  new OrderBookApiError(new Response(null, { status }), { errorType, description: "test" });
+
+/**
+ * Wait until a condition holds (background executions settle asynchronously)
+ */
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await Bun.sleep(20);
+  }
+}
+
+describe("Deposit Poller", () => {
+  let node: FakeNode;
+  let config: ChainConfig;
+  let client: PublicClient;
+  let originalRpcUrl: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    registerVenue(venue);
+    venue.setPrice(1_000_000n, 300_000_000_000_000n);
+    node = startFakeNode(1);
+    originalRpcUrl = chains[1].rpcUrl;
+    chains[1].rpcUrl = node.url;
+    config = chains[1];
+    client = createChainClient(config);
+    setGasWalletAccount(GAS_WALLET);
+  });
+
+  afterAll(async () => {
+    chains[1].rpcUrl = originalRpcUrl;
+    setGasWalletAccount(undefined);
+    node.stop();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+    await getTestDb().delete(chainCursors);
+    node.reset();
+    node.setEthBalance(GAS_WALLET.address, 10n ** 18n);
+  });
+
+  // A swap waiting for its deposit, selling CBBTC unless told otherwise
+  async function createPendingSwap(sellToken: string = CBBTC) {
+    const vault = createVaultWallet();
+    return createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "erc20", address: sellToken as `0x${string}` }),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      expiresAt: new Date(Date.now() + DAY_MS),
+    });
+  }
+
+  // A CBBTC swap that expired `expiredAgoMs` ago
+  async function createExpiredSwap(expiredAgoMs: number) {
+    const vault = createVaultWallet();
+    return createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "erc20", address: CBBTC as `0x${string}` }),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      status: "expired",
+      createdAt: new Date(Date.now() - expiredAgoMs - DAY_MS),
+      expiresAt: new Date(Date.now() - expiredAgoMs),
+    });
+  }
+
+  describe("late deposits", () => {
+    it("routes a late deposit to refund under the refund policy", async () => {
+      const swap = await createExpiredSwap(60 * 60 * 1000);
+      const transfer = node.addTransfer(CBBTC, DEPOSITOR, swap.vaultAddress, 100_000_000n, node.blockNumber - 10n);
+
+      await sweepLateDeposits(config, client, "refund");
+
+      const refunding = await getSwapById(swap.swapId);
+      expect(refunding?.status).toBe("refund_pending");
+      expect(refunding?.failureReason).toBe("Deposit received after swap expired");
+      expect(refunding?.depositAmount).toBe("100000000");
+      expect(refunding?.depositTxHash).toBe(transfer.txHash);
+      expect(refunding?.depositorAddress?.toLowerCase()).toBe(DEPOSITOR);
+    });
+
+    it("executes a late deposit under the execute policy", async () => {
+      const swap = await createExpiredSwap(60 * 60 * 1000);
+      node.addTransfer(CBBTC, DEPOSITOR, swap.vaultAddress, 100_000_000n, node.blockNumber - 10n);
+
+      await sweepLateDeposits(config, client, "execute");
+
+      // Execution runs in the background: wait for it to claim the swap and
+      // finish its attempt (the order itself isn't under test here)
+      await waitFor(async () => {
+        const current = await getSwapById(swap.swapId);
+        return current?.status !== "expired" && current?.status !== "executing";
+      });
+
+      const events = await getSwapEvents(swap.swapId);
+      expect(
+        events.some((event) => event.fromStatus === "expired" && event.toStatus === "executing")
+      ).toBe(true);
+      expect((await getSwapById(swap.swapId))?.depositAmount).toBe("100000000");
+    });
+
+    it("leaves expired swaps without a deposit alone", async () => {
+      const swap = await createExpiredSwap(60 * 60 * 1000);
+
+      await sweepLateDeposits(config, client, "refund");
+
+      expect((await getSwapById(swap.swapId))?.status).toBe("expired");
+    });
+
+    it("ignores swaps that expired before the lookback window", async () => {
+      const swap = await createExpiredSwap(8 * DAY_MS);
+      node.setTokenBalance(CBBTC, swap.vaultAddress, 100_000_000n);
+
+      await sweepLateDeposits(config, client, "refund");
+
+      expect((await getSwapById(swap.swapId))?.status).toBe("expired");
+      expect(node.methods).not.toContain("eth_call");
+    });
+  });
+
+  describe("block scanning", () => {
+    // The confirmed head the scanner moves its cursor to
+    const confirmedHead = () => Number(node.blockNumber) - config.confirmations;
+
+    it("scans logs from the cursor and advances it to the confirmed head", async () => {
+      await createPendingSwap();
+      await setChainCursor(1, confirmedHead() - 100);
+
+      await scanNewBlocks(config, client, node.blockNumber);
+
+      expect(node.methods).toContain("eth_getLogs");
+      expect(await getChainCursor(1)).toBe(confirmedHead());
+    });
+
+    it("resumes from the persisted cursor after a restart", async () => {
+      const swap = await createPendingSwap();
+      await setChainCursor(1, confirmedHead());
+
+      // Scanned before the restart: not picked up again
+      node.addTransfer(CBBTC, DEPOSITOR, swap.vaultAddress, 100_000_000n, node.blockNumber - 5n);
+      node.blockNumber += 1n;
+      await scanNewBlocks(config, client, node.blockNumber);
+      expect((await getSwapById(swap.swapId))?.depositSeenAt).toBeNull();
+
+      // New since the cursor, above the confirmation depth: seen, not executed
+      node.blockNumber += 1n;
+      node.addTransfer(CBBTC, DEPOSITOR, swap.vaultAddress, 100_000_000n, node.blockNumber);
+      await scanNewBlocks(config, client, node.blockNumber);
+
+      const seen = await getSwapById(swap.swapId);
+      expect(seen?.status).toBe("pending_deposit");
+      expect(seen?.depositSeenAt).not.toBeNull();
+      expect(await getChainCursor(1)).toBe(confirmedHead());
+    });
+
+    it("only counts transfers of a swap's own sell token into its vault", async () => {
+      const swap = await createPendingSwap();
+      // Another open swap puts USDT on the watch list too
+      const usdtSwap = await createPendingSwap(USDT);
+      await setChainCursor(1, confirmedHead() - 100);
+
+      node.addTransfer(USDT, DEPOSITOR, swap.vaultAddress, 1_000_000_000n, node.blockNumber);
+      await scanNewBlocks(config, client, node.blockNumber);
+
+      for (const { swapId } of [swap, usdtSwap]) {
+        const unchanged = await getSwapById(swapId);
+        expect(unchanged?.status).toBe("pending_deposit");
+        expect(unchanged?.depositSeenAt).toBeNull();
+      }
+    });
+
+    it("sweeps with multicall when there is no cursor yet", async () => {
+      await createPendingSwap();
+
+      await scanNewBlocks(config, client, node.blockNumber);
+
+      expect(node.methods).not.toContain("eth_getLogs");
+      expect(node.methods).toContain("eth_call");
+      expect(await getChainCursor(1)).toBe(confirmedHead());
+    });
+
+    it("only marks a balance held at the head as seen in the sweep", async () => {
+      const swap = await createPendingSwap();
+      node.addTransfer(CBBTC, DEPOSITOR, swap.vaultAddress, 100_000_000n, node.blockNumber);
+
+      // A fresh client, since viem caches the head block the sweep reads
+      await scanNewBlocks(config, createChainClient(config), node.blockNumber);
+
+      const seen = await getSwapById(swap.swapId);
+      expect(seen?.status).toBe("pending_deposit");
+      expect(seen?.depositSeenAt).not.toBeNull();
+      expect((await getSwapEvents(swap.swapId)).map((event) => event.type)).toEqual([
+        "created",
+        "deposit_seen",
+      ]);
+    });
+
+    it("executes a balance held at the confirmation depth in the sweep", async () => {
+      const swap = await createPendingSwap();
+      node.addTransfer(
+        CBBTC,
+        DEPOSITOR,
+        swap.vaultAddress,
+        100_000_000n,
+        node.blockNumber - BigInt(config.confirmations)
+      );
+
+      await scanNewBlocks(config, createChainClient(config), node.blockNumber);
+
+      // Execution runs in the background: wait for it to claim the swap and
+      // finish its attempt (the order itself isn't under test here)
+      await waitFor(async () => {
+        const current = await getSwapById(swap.swapId);
+        return current?.status !== "executing" && (current?.executionAttempts ?? 0) > 0;
+      });
+
+      const events = await getSwapEvents(swap.swapId);
+      expect(
+        events.some((event) => event.fromStatus === "pending_deposit" && event.toStatus === "executing")
+      ).toBe(true);
+    });
+
+    it("sweeps with multicall when the cursor is too far behind for one log query", async () => {
+      await createPendingSwap();
+      await setChainCursor(1, confirmedHead() - 2_001);
+
+      await scanNewBlocks(config, client, node.blockNumber);
+
+      expect(node.methods).not.toContain("eth_getLogs");
+      expect(node.methods).toContain("eth_call");
+      expect(await getChainCursor(1)).toBe(confirmedHead());
+    });
+
+    it("sweeps with multicall when the log query fails", async () => {
+      await createPendingSwap();
+      await setChainCursor(1, confirmedHead() - 100);
+      node.failGetLogs = true;
+
+      await scanNewBlocks(config, client, node.blockNumber);
+
+      const logQuery = node.methods.indexOf("eth_getLogs");
+      expect(logQuery).toBeGreaterThanOrEqual(0);
+      expect(node.methods.slice(logQuery)).toContain("eth_call");
+      expect(await getChainCursor(1)).toBe(confirmedHead());
+    });
+  });
+
+  describe("execution retries", () => {
+    const placeOrder = venue.placeOrder;
+
+    beforeEach(() => {
+      venue.placeOrder = placeOrder;
+    });
+
+    // A USDT swap on the fake venue with a confirmed deposit in its vault.
+    // USDT has no permit, so the vault approves on-chain and then orders.
+    async function createFundedSwap(overrides: Partial<Swap> = {}) {
+      const vault = createVaultWallet();
+      const swap = await createSwap({
+        swapId: Bun.randomUUIDv7(),
+        chainId: 1,
+        vaultAddress: vault.address,
+        vaultSalt: vault.salt,
+        sellToken: serializeToken({ type: "erc20", address: USDT }),
+        buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+        venue: venue.id,
+        recipientAddress: fixtures.validSwapRequest.recipientAddress,
+        expiresAt: new Date(Date.now() + DAY_MS),
+        ...overrides,
+      });
+      node.addTransfer(USDT, DEPOSITOR, swap.vaultAddress, 1_000_000_000n, node.blockNumber - 10n);
+      return swap;
+    }
+
+    // Run one multicall sweep and wait for the swap's execution attempt to finish
+    async function executeOnce(swap: Swap): Promise<Swap> {
+      await scanNewBlocks(config, createChainClient(config), node.blockNumber);
+      let current: Swap | undefined;
+      await waitFor(async () => {
+        current = await getSwapById(swap.swapId);
+        const events = await getSwapEvents(swap.swapId);
+        const settled = current?.status !== "executing" || current.cowOrderUid !== null;
+        return settled && events.some((event) => event.toStatus === "executing");
+      });
+      return current!;
+    }
+
+    it("places the order once the deposit is confirmed", async () => {
+      const swap = await createFundedSwap();
+
+      const executed = await executeOnce(swap);
+
+      expect(executed.status).toBe("executing");
+      expect(venue.orders.has(executed.cowOrderUid!)).toBe(true);
+      expect(executed.executionAttempts).toBe(0);
+    });
+
+    it("schedules a retry after a transient failure", async () => {
+      const swap = await createFundedSwap();
+      venue.placeOrder = async () => {
+        throw orderBookError(503);
+      };
+
+      const retrying = await executeOnce(swap);
+
+      expect(retrying.status).toBe("pending_deposit");
+      expect(retrying.executionAttempts).toBe(1);
+      expect(retrying.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+      expect(retrying.depositAmount).toBe("1000000000");
+    });
+
+    it("routes a permanent order book rejection to refund", async () => {
+      const swap = await createFundedSwap();
+      venue.placeOrder = async () => {
+        throw orderBookError(400, "SellAmountDoesNotCoverFee");
+      };
+
+      const refunding = await executeOnce(swap);
+
+      expect(refunding.status).toBe("refund_pending");
+      expect(refunding.executionAttempts).toBe(0);
+      expect(refunding.failureReason).toBe("SellAmountDoesNotCoverFee: test");
+    });
+
+    it("routes a swap whose market is below its floor to refund", async () => {
+      // Quoted at 0.0003 WETH per USDT, floor at 0.0004
+      const swap = await createFundedSwap({ minBuyAmountPerUnit: "400000000000000" });
+      const ordersPlaced = venue.orders.size;
+
+      const refunding = await executeOnce(swap);
+
+      expect(refunding.status).toBe("refund_pending");
+      expect(refunding.failureReason).toBe(
+        "Quoted buy amount 300000000000000000 is below the swap's minimum of 400000000000000000"
+      );
+      expect(venue.orders.size).toBe(ordersPlaced);
+    });
+
+    it("routes a swap to refund once its attempts are used up", async () => {
+      // Four failed attempts so far, with the retry now due
+      const swap = await createFundedSwap({
+        executionAttempts: 4,
+        depositConfirmedAt: new Date(),
+        depositAmount: "1000000000",
+        nextAttemptAt: new Date(Date.now() - 1000),
+      });
+      venue.placeOrder = async () => {
+        throw new Error("fetch failed");
+      };
+
+      const refunding = await executeOnce(swap);
+
+      expect(refunding.status).toBe("refund_pending");
+      expect(refunding.failureReason).toBe("Order submission failed after 5 attempts: fetch failed");
+    });
+  });
+
+  describe("execution error classification", () => {
+    it("treats order book rejections of the order itself as permanent", () => {
+      for (const errorType of ["SellAmountDoesNotCoverFee", "UnsupportedToken", "InvalidSignature"]) {
+        expect(classifyExecutionError(orderBookError(400, errorType))).toBe("permanent");
+      }
+    });
+
+    it("treats other order book errors as transient", () => {
+      expect(classifyExecutionError(orderBookError(400, "QuoteNotFound"))).toBe("transient");
+      expect(classifyExecutionError(orderBookError(429))).toBe("transient");
+      expect(classifyExecutionError(orderBookError(500))).toBe("transient");
+    });
+
+    it("treats network and RPC errors as transient", () => {
+      expect(classifyExecutionError(new Error("fetch failed"))).toBe("transient");
+      expect(classifyExecutionError("timeout")).toBe("transient");
+    });
+
+    it("treats an unreachable price floor or buy amount as permanent", () => {
+      expect(classifyExecutionError(new MinBuyAmountNotMetError(90n, 100n))).toBe("permanent");
+      expect(classifyExecutionError(new InsufficientSellAmountError(200n, 100n))).toBe("permanent");
+    });
+  });
+});
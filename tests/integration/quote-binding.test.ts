@@ -0,0 +1,41 @@
+import { describe, it, expect } from "bun:test";
+import {
+  QuoteDeviationError,
+  checkBoundQuote,
+  getQuotedBuyAmount,
+} from "../../src/services/quote-binding";
+import { classifyExecutionError } from "../../src/services/execution-errors";
+import type { Swap } from "../../src/db/schema";
+
+// A swap bound to a quote of 1000 buy units for 100 sell units
+const boundSwap = {
+  swapId: "bound-swap",
+  quotedSellAmount: "100",
+  quotedBuyAmount: "1000",
+} as Swap;
+
+describe("Quote Binding", () => {
+  it("scales the bound quote to the amount sold", () => {
+    expect(getQuotedBuyAmount(boundSwap, 250n)).toBe(2500n);
+    expect(getQuotedBuyAmount({ ...boundSwap, quotedBuyAmount: null }, 250n)).toBeUndefined();
+  });
+
+  it("accepts a fresh quote within the tolerance", () => {
+    // Default tolerance is 100 bps: 2475 is 1% below 2500
+    checkBoundQuote(boundSwap, 250n, 2475n);
+  });
+
+  it("reprices a fresh quote outside the tolerance by default", () => {
+    const error = (() => {
+      try {
+        checkBoundQuote(boundSwap, 250n, 2474n);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(QuoteDeviationError);
+    expect((error as QuoteDeviationError).policy).toBe("reprice");
+    expect(classifyExecutionError(error)).toBe("transient");
+  });
+});
@@ -25,6 +25,51 @@ describe("Quote Routes", () => {
       expect(body.error).toContain("Unsupported chain ID");
     });
 
+    it("rejects an unsupported sell token", async () => {
+      const response = await request(app, "/quote", {
+        method: "POST",
+        body: {
+          ...fixtures.validQuoteRequest,
+          sellToken: { type: "erc20", address: "0x6B175474E89094C44Da98b954EedeAC495271d0F" }, // DAI
+        },
+      });
+
+      expect(response.status).toBe(400);
+
+      const body = await parseJson<{ error: string }>(response);
+      expect(body.error).toContain("Unsupported sell token");
+    });
+
+    it("rejects a sell amount outside the token's limits", async () => {
+      const response = await request(app, "/quote", {
+        method: "POST",
+        body: {
+          ...fixtures.validQuoteRequest,
+          sellAmount: "1000", // 0.00001 CBBTC
+        },
+      });
+
+      expect(response.status).toBe(400);
+
+      const body = await parseJson<{ error: string }>(response);
+      expect(body.error).toContain("below minimum");
+    });
+
+    it("rejects a buy quote without a buy amount", async () => {
+      const response = await request(app, "/quote", {
+        method: "POST",
+        body: {
+          ...fixtures.validQuoteRequest,
+          kind: "buy",
+        },
+      });
+
+      expect(response.status).toBe(400);
+
+      const body = await parseJson<{ error: string }>(response);
+      expect(body.error).toContain("Invalid buyAmount");
+    });
+
     it("rejects request with missing fields", async () => {
       const response = await request(app, "/quote", {
         method: "POST",
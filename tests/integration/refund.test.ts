@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { createWalletClient, http } from "viem";
+import { mainnet } from "viem/chains";
+import { privateKeyToAccount } from "viem/accounts";
+import { eq } from "drizzle-orm";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps, getTestDb } from "../db";
+import { startFakeNode, type FakeNode } from "../rpc";
+import { fixtures } from "../setup";
+import {
+  createSwap,
+  getSwapById,
+  recordDeposit,
+  recordRefundTransaction,
+} from "../../src/db/queries";
+import { swaps } from "../../src/db/schema";
+import { chains } from "../../src/config/chains";
+import { processRefunds } from "../../src/services/refund";
+import { setGasWalletAccount } from "../../src/services/gas-wallet";
+import { createVaultWallet, getVaultWalletFromSalt } from "../../src/services/wallet";
+import { serializeToken } from "../../src/utils/token";
+import { NATIVE_ETH_ADDRESS } from "../../src/types";
+
+const GAS_WALLET = privateKeyToAccount(`0x${"22".repeat(32)}`);
+const REFUND_ADDRESS = "0x1111111111111111111111111111111111111111";
+const DEPOSITOR = "0x3333333333333333333333333333333333333333";
+const OTHER_SENDER = "0x4444444444444444444444444444444444444444";
+const CBBTC = fixtures.cbbtcAddress;
+
+describe("Refund Poller", () => {
+  let node: FakeNode;
+  let originalRpcUrl: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    node = startFakeNode(1);
+    originalRpcUrl = chains[1].rpcUrl;
+    chains[1].rpcUrl = node.url;
+    setGasWalletAccount(GAS_WALLET);
+  });
+
+  afterAll(async () => {
+    chains[1].rpcUrl = originalRpcUrl;
+    setGasWalletAccount(undefined);
+    node.stop();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+    node.reset();
+    node.setEthBalance(GAS_WALLET.address, 10n ** 18n);
+  });
+
+  // A failed swap whose vault is to be refunded
+  async function createRefundSwap(
+    sellToken: string = CBBTC,
+    refundAddress: string | null = REFUND_ADDRESS
+  ) {
+    const vault = createVaultWallet();
+    return createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken(
+        sellToken === NATIVE_ETH_ADDRESS
+          ? { type: "ether" }
+          : { type: "erc20", address: sellToken as `0x${string}` }
+      ),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      refundAddress,
+      status: "refund_pending",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+  }
+
+  // Send a transfer from the vault outside the refund poller, as a
+  // previous run would have
+  async function sendVaultTx(
+    vaultSalt: string,
+    nonce: number,
+    maxFeePerGas = 2_000_000_000n
+  ): Promise<`0x${string}`> {
+    const vaultClient = createWalletClient({
+      account: privateKeyToAccount(getVaultWalletFromSalt(vaultSalt as `0x${string}`).privateKey),
+      chain: mainnet,
+      transport: http(node.url),
+    });
+    return vaultClient.sendTransaction({
+      to: REFUND_ADDRESS,
+      value: 0n,
+      gas: 21_000n,
+      nonce,
+      maxFeePerGas,
+      maxPriorityFeePerGas: 1_000_000n,
+    });
+  }
+
+  it("refunds a vault's token balance, paying gas from the gas wallet", async () => {
+    const swap = await createRefundSwap();
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100_000_000n);
+
+    await processRefunds();
+
+    const refunded = await getSwapById(swap.swapId);
+    const [refundTx] = node.sent(swap.vaultAddress);
+    expect(refunded?.status).toBe("refunded");
+    expect(refunded?.refundAmount).toBe("100000000");
+    expect(refunded?.refundTxHash).toBe(refundTx!.hash);
+    expect(node.getTokenBalance(CBBTC, REFUND_ADDRESS)).toBe(100_000_000n);
+    expect(node.getTokenBalance(CBBTC, swap.vaultAddress)).toBe(0n);
+    expect(node.sent(GAS_WALLET.address)).toHaveLength(1);
+  });
+
+  it("refunds a native ETH vault less the transfer's gas", async () => {
+    const swap = await createRefundSwap(NATIVE_ETH_ADDRESS);
+    node.setEthBalance(swap.vaultAddress, 10n ** 17n);
+
+    await processRefunds();
+
+    const refunded = await getSwapById(swap.swapId);
+    const amount = BigInt(refunded?.refundAmount ?? "0");
+    expect(refunded?.status).toBe("refunded");
+    expect(amount).toBeGreaterThan(0n);
+    expect(amount).toBeLessThan(10n ** 17n);
+    expect(node.getEthBalance(REFUND_ADDRESS)).toBe(amount);
+    expect(node.sent(GAS_WALLET.address)).toHaveLength(0);
+  });
+
+  it("clears a reverted refund and sends it again", async () => {
+    const swap = await createRefundSwap();
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100_000_000n);
+    node.onSend = (tx) => (tx.from === swap.vaultAddress.toLowerCase() ? "reverted" : "success");
+
+    await processRefunds();
+
+    const reverted = await getSwapById(swap.swapId);
+    expect(reverted?.status).toBe("refund_pending");
+    expect(reverted?.refundTxHash).toBeNull();
+
+    node.onSend = () => "success";
+    await processRefunds();
+
+    const refunded = await getSwapById(swap.swapId);
+    expect(refunded?.status).toBe("refunded");
+    expect(node.sent(swap.vaultAddress)).toHaveLength(2);
+    expect(node.getTokenBalance(CBBTC, REFUND_ADDRESS)).toBe(100_000_000n);
+  });
+
+  it("waits for a refund tx that is still pending", async () => {
+    const swap = await createRefundSwap();
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100_000_000n);
+    node.onSend = () => "pending";
+    const txHash = await sendVaultTx(swap.vaultSalt, 0);
+    await recordRefundTransaction(swap.swapId, txHash, "100000000");
+
+    await processRefunds();
+
+    const waiting = await getSwapById(swap.swapId);
+    expect(waiting?.status).toBe("refund_pending");
+    expect(waiting?.refundTxHash).toBe(txHash);
+    expect(node.sent(swap.vaultAddress)).toHaveLength(1);
+  });
+
+  it("resends a refund tx the node dropped", async () => {
+    const swap = await createRefundSwap();
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100_000_000n);
+    node.onSend = () => "pending";
+    const txHash = await sendVaultTx(swap.vaultSalt, 0);
+    await recordRefundTransaction(swap.swapId, txHash, "100000000");
+    node.dropTransaction(txHash);
+
+    // Not yet past the drop timeout: the node may just not have seen it
+    await processRefunds();
+    expect((await getSwapById(swap.swapId))?.refundTxHash).toBe(txHash);
+
+    await getTestDb()
+      .update(swaps)
+      .set({ refundSentAt: new Date(Date.now() - 11 * 60 * 1000) })
+      .where(eq(swaps.swapId, swap.swapId));
+    node.onSend = () => "success";
+
+    await processRefunds();
+    expect((await getSwapById(swap.swapId))?.refundTxHash).toBeNull();
+
+    await processRefunds();
+
+    const refunded = await getSwapById(swap.swapId);
+    const [resent] = node.sent(swap.vaultAddress);
+    expect(refunded?.status).toBe("refunded");
+    expect(refunded?.refundTxHash).toBe(resent!.hash);
+    expect(resent!.nonce).toBe(0);
+  });
+
+  it("resends a refund tx whose nonce another tx used", async () => {
+    const swap = await createRefundSwap();
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100_000_000n);
+    node.onSend = () => "pending";
+    const txHash = await sendVaultTx(swap.vaultSalt, 0);
+    await recordRefundTransaction(swap.swapId, txHash, "100000000");
+
+    // A different tx at the same nonce is mined instead
+    node.onSend = () => "success";
+    await sendVaultTx(swap.vaultSalt, 0, 3_000_000_000n);
+
+    await processRefunds();
+    expect((await getSwapById(swap.swapId))?.refundTxHash).toBeNull();
+
+    await processRefunds();
+
+    const refunded = await getSwapById(swap.swapId);
+    expect(refunded?.status).toBe("refunded");
+    expect(refunded?.refundTxHash).not.toBe(txHash);
+    expect(node.getTokenBalance(CBBTC, REFUND_ADDRESS)).toBe(100_000_000n);
+  });
+
+  it("fails a swap whose vault is empty instead of polling it", async () => {
+    const swap = await createRefundSwap();
+
+    await processRefunds();
+
+    const failed = await getSwapById(swap.swapId);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.failureReason).toContain("Nothing to refund");
+    expect(node.sent()).toHaveLength(0);
+  });
+
+  it("fails a swap with no refund address and no known depositor", async () => {
+    const swap = await createRefundSwap(CBBTC, null);
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100_000_000n);
+
+    await processRefunds();
+
+    const failed = await getSwapById(swap.swapId);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.failureReason).toContain("refund vault");
+    expect(node.getTokenBalance(CBBTC, swap.vaultAddress)).toBe(100_000_000n);
+    expect(node.sent()).toHaveLength(0);
+  });
+
+  // Record confirmed deposits of 50 CBBTC units each from the given senders
+  async function recordDepositsFrom(swapId: string, senders: string[]) {
+    await recordDeposit(
+      swapId,
+      senders.map((from, i) => ({
+        txHash: `0x${(i + 1).toString(16).padStart(64, "0")}`,
+        logIndex: 0,
+        from: from as `0x${string}`,
+        amount: "50",
+        blockNumber: 100 + i,
+      })),
+      (50 * senders.length).toString()
+    );
+  }
+
+  it("refunds a sole depositor wallet when the swap has no refund address", async () => {
+    const swap = await createRefundSwap(CBBTC, null);
+    await recordDepositsFrom(swap.swapId, [DEPOSITOR, DEPOSITOR]);
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100n);
+
+    await processRefunds();
+
+    expect((await getSwapById(swap.swapId))?.status).toBe("refunded");
+    expect(node.getTokenBalance(CBBTC, DEPOSITOR)).toBe(100n);
+  });
+
+  it("fails a swap funded by several senders instead of refunding one of them", async () => {
+    const swap = await createRefundSwap(CBBTC, null);
+    // A dust transfer arrives before the real deposit
+    await recordDepositsFrom(swap.swapId, [OTHER_SENDER, DEPOSITOR]);
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 100n);
+
+    await processRefunds();
+
+    const failed = await getSwapById(swap.swapId);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.failureReason).toContain("refund vault");
+    expect(node.getTokenBalance(CBBTC, swap.vaultAddress)).toBe(100n);
+    expect(node.sent()).toHaveLength(0);
+  });
+
+  it("fails a swap deposited from a contract instead of refunding it", async () => {
+    const swap = await createRefundSwap(CBBTC, null);
+    await recordDepositsFrom(swap.swapId, [DEPOSITOR]);
+    node.setCode(DEPOSITOR, "0x6080");
+    node.setTokenBalance(CBBTC, swap.vaultAddress, 50n);
+
+    await processRefunds();
+
+    expect((await getSwapById(swap.swapId))?.status).toBe("failed");
+    expect(node.sent()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import { startFakeNode, type FakeNode } from "../rpc";
+import { fixtures } from "../setup";
+import {
+  createSwap,
+  getSwapById,
+  markSwapExecuting,
+  replaceSwapOrder,
+  saveOrderUid,
+} from "../../src/db/queries";
+import { chains } from "../../src/config/chains";
+import { repriceStaleOrder } from "../../src/services/repricing";
+import { registerVenue } from "../../src/services/venues";
+import { createFakeVenue } from "../../src/services/venues/fake";
+import { createVaultWallet } from "../../src/services/wallet";
+import { serializeToken } from "../../src/utils/token";
+import type { VenueOrderStatus } from "../../src/services/venues";
+import type { Swap } from "../../src/db/schema";
+import type { SwapKind } from "../../src/types";
+
+const venue = createFakeVenue("fake-repricing");
+
+const CBBTC = fixtures.cbbtcAddress as `0x${string}`;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Prices in WETH per CBBTC; orders below are placed at a 29 WETH limit
+const setWethPerBtc = (weth: bigint) => venue.setPrice(100_000_000n, weth * 10n ** 18n);
+
+describe("Order Repricing", () => {
+  let node: FakeNode;
+  let originalRpcUrl: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    registerVenue(venue);
+    // Replacements read the vault balance; the fake node's vaults are empty
+    node = startFakeNode(1);
+    originalRpcUrl = chains[1].rpcUrl;
+    chains[1].rpcUrl = node.url;
+  });
+
+  afterAll(async () => {
+    chains[1].rpcUrl = originalRpcUrl;
+    node.stop();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+    node.reset();
+    setWethPerBtc(30n);
+  });
+
+  // An executing CBBTC -> WETH swap with an OPEN order on the fake venue:
+  // sell 1 CBBTC for at least 29 WETH, or buy 29 WETH for at most 1 CBBTC
+  async function createExecutingSwap(
+    kind: SwapKind = "sell",
+    depositConfirmedAt = new Date()
+  ): Promise<{ swap: Swap; orderId: string }> {
+    const vault = createVaultWallet();
+    const created = await createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "erc20", address: CBBTC }),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      kind,
+      buyAmount: kind === "buy" ? "29000000000000000000" : undefined,
+      venue: venue.id,
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      depositConfirmedAt,
+      expiresAt: new Date(Date.now() + HOUR_MS),
+    });
+    await markSwapExecuting(created.swapId);
+
+    const orderId = await placeOrder(kind);
+    await saveOrderUid(created.swapId, orderId, "29000000000000000000");
+    return { swap: (await getSwapById(created.swapId))!, orderId };
+  }
+
+  async function placeOrder(kind: SwapKind = "sell"): Promise<string> {
+    return venue.placeOrder({
+      chainId: 1,
+      sellToken: CBBTC,
+      buyToken: fixtures.validSwapRequest.buyToken.address,
+      sellAmount: "100000000",
+      buyAmountMin: "29000000000000000000",
+      receiver: fixtures.validSwapRequest.recipientAddress as `0x${string}`,
+      vaultPrivateKey: `0x${"11".repeat(32)}`,
+      kind,
+      orderClass: "market",
+      partiallyFillable: false,
+      slippageBps: 50,
+      preHooks: [],
+    });
+  }
+
+  // The order's status as the settlement poller sees it, created `ageMs` ago
+  async function orderStatus(orderId: string, ageMs = HOUR_MS): Promise<VenueOrderStatus> {
+    return {
+      ...(await venue.getOrderStatus(1, orderId)),
+      creationDate: new Date(Date.now() - ageMs).toISOString(),
+    };
+  }
+
+  it("cancels a sell order the market no longer reaches", async () => {
+    const { swap, orderId } = await createExecutingSwap();
+    setWethPerBtc(28n);
+
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(true);
+
+    expect(venue.orders.get(orderId)?.status).toBe("CANCELLED");
+  });
+
+  it("leaves a sell order the market still reaches", async () => {
+    const { swap, orderId } = await createExecutingSwap();
+
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(false);
+
+    expect(venue.orders.get(orderId)?.status).toBe("OPEN");
+  });
+
+  it("cancels a buy order whose amount now costs more than its maximum", async () => {
+    const { swap, orderId } = await createExecutingSwap("buy");
+    setWethPerBtc(28n);
+
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(true);
+
+    expect(venue.orders.get(orderId)?.status).toBe("CANCELLED");
+  });
+
+  it("leaves a buy order the market still fills within its maximum", async () => {
+    const { swap, orderId } = await createExecutingSwap("buy");
+
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(false);
+
+    expect(venue.orders.get(orderId)?.status).toBe("OPEN");
+  });
+
+  it("leaves orders younger than the stale age alone", async () => {
+    const { swap, orderId } = await createExecutingSwap();
+    setWethPerBtc(28n);
+
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId, 60 * 1000))).toBe(false);
+
+    expect(venue.orders.get(orderId)?.status).toBe("OPEN");
+  });
+
+  it("checks the market for an order at most once per interval", async () => {
+    const { swap, orderId } = await createExecutingSwap();
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(false);
+
+    setWethPerBtc(28n);
+
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(false);
+    expect(venue.orders.get(orderId)?.status).toBe("OPEN");
+  });
+
+  it("leaves a stale order alone once the replacement budget is spent", async () => {
+    const { swap } = await createExecutingSwap();
+
+    // Three replacements already expired unfilled
+    let orderId = swap.cowOrderUid!;
+    for (let i = 0; i < 3; i++) {
+      const next = await placeOrder();
+      await replaceSwapOrder(swap.swapId, orderId, "EXPIRED", next);
+      orderId = next;
+    }
+    setWethPerBtc(28n);
+
+    const current = (await getSwapById(swap.swapId))!;
+    expect(await repriceStaleOrder(current, await orderStatus(orderId))).toBe(false);
+
+    expect(venue.orders.get(orderId)?.status).toBe("OPEN");
+  });
+
+  it("leaves a stale order alone after the resubmission deadline", async () => {
+    const { swap, orderId } = await createExecutingSwap("sell", new Date(Date.now() - 25 * HOUR_MS));
+    setWethPerBtc(28n);
+
+    expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(false);
+
+    expect(venue.orders.get(orderId)?.status).toBe("OPEN");
+  });
+
+  it("leaves an order filled during cancellation to the settlement poller", async () => {
+    const { swap, orderId } = await createExecutingSwap();
+    setWethPerBtc(28n);
+
+    const ordersPlaced = venue.orders.size;
+
+    // A settlement lands before the cancellation does
+    const cancelOrder = venue.cancelOrder;
+    venue.cancelOrder = async (_chainId, id) => {
+      venue.fillOrder(id);
+    };
+    try {
+      expect(await repriceStaleOrder(swap, await orderStatus(orderId))).toBe(true);
+    } finally {
+      venue.cancelOrder = cancelOrder;
+    }
+
+    expect(venue.orders.get(orderId)?.status).toBe("FULFILLED");
+    expect(venue.orders.size).toBe(ordersPlaced);
+    const unchanged = await getSwapById(swap.swapId);
+    expect(unchanged?.status).toBe("executing");
+    expect(unchanged?.cowOrderUid).toBe(orderId);
+  });
+});
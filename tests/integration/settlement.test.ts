@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { privateKeyToAccount } from "viem/accounts";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import { startFakeNode, type FakeNode } from "../rpc";
+import { fixtures } from "../setup";
+import {
+  createSwap,
+  getSwapById,
+  getSwapOrders,
+  markSwapExecuting,
+  replaceSwapOrder,
+  saveOrderUid,
+} from "../../src/db/queries";
+import { chains } from "../../src/config/chains";
+import { setGasWalletAccount } from "../../src/services/gas-wallet";
+import { pollSettlements } from "../../src/services/settlement";
+import { registerVenue } from "../../src/services/venues";
+import { createFakeVenue } from "../../src/services/venues/fake";
+import { createVaultWallet } from "../../src/services/wallet";
+import { serializeToken } from "../../src/utils/token";
+import type { Swap } from "../../src/db/schema";
+
+const venue = createFakeVenue("fake-settlement");
+
+const GAS_WALLET = privateKeyToAccount(`0x${"55".repeat(32)}`);
+// USDT: no EIP-2612 permit, so replacements approve on-chain and order
+const USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const SELL_AMOUNT = 1_000_000_000n;
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("Settlement Poller", () => {
+  let node: FakeNode;
+  let originalRpcUrl: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    registerVenue(venue);
+    venue.setPrice(1_000_000n, 300_000_000_000_000n);
+    node = startFakeNode(1);
+    originalRpcUrl = chains[1].rpcUrl;
+    chains[1].rpcUrl = node.url;
+    setGasWalletAccount(GAS_WALLET);
+  });
+
+  afterAll(async () => {
+    chains[1].rpcUrl = originalRpcUrl;
+    setGasWalletAccount(undefined);
+    node.stop();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+    node.reset();
+    node.setEthBalance(GAS_WALLET.address, 10n ** 18n);
+  });
+
+  // An executing USDT swap with an OPEN order for its whole deposit
+  async function createExecutingSwap(
+    options: { partiallyFillable?: boolean; depositConfirmedAt?: Date } = {}
+  ): Promise<Swap> {
+    const vault = createVaultWallet();
+    const created = await createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "erc20", address: USDT }),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      venue: venue.id,
+      partiallyFillable: options.partiallyFillable ?? false,
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      depositAmount: SELL_AMOUNT.toString(),
+      depositConfirmedAt: options.depositConfirmedAt ?? new Date(),
+      expiresAt: new Date(Date.now() + HOUR_MS),
+    });
+    await markSwapExecuting(created.swapId);
+    node.setTokenBalance(USDT, created.vaultAddress, SELL_AMOUNT);
+
+    const orderId = await placeOrder(options.partiallyFillable ?? false);
+    await saveOrderUid(created.swapId, orderId, "300000000000000000");
+    return (await getSwapById(created.swapId))!;
+  }
+
+  async function placeOrder(partiallyFillable = false): Promise<string> {
+    return venue.placeOrder({
+      chainId: 1,
+      sellToken: USDT,
+      buyToken: fixtures.validSwapRequest.buyToken.address,
+      sellAmount: SELL_AMOUNT.toString(),
+      buyAmountMin: "300000000000000000",
+      receiver: fixtures.validSwapRequest.recipientAddress as `0x${string}`,
+      vaultPrivateKey: `0x${"11".repeat(32)}`,
+      kind: "sell",
+      orderClass: "market",
+      partiallyFillable,
+      slippageBps: 50,
+      preHooks: [],
+    });
+  }
+
+  describe("expired and cancelled orders", () => {
+    it("replaces an expired order and records the replacement", async () => {
+      const swap = await createExecutingSwap();
+      const expiredOrderId = swap.cowOrderUid!;
+      venue.setOrderStatus(expiredOrderId, "EXPIRED");
+
+      await pollSettlements();
+
+      const replaced = (await getSwapById(swap.swapId))!;
+      const replacementId = replaced.cowOrderUid!;
+      expect(replaced.status).toBe("executing");
+      expect(replacementId).not.toBe(expiredOrderId);
+      expect(replaced.orderStatus).toBe("OPEN");
+      expect(venue.orders.get(replacementId)?.params.sellAmount).toBe(SELL_AMOUNT.toString());
+
+      const orders = await getSwapOrders(swap.swapId);
+      expect(orders.map((order) => [order.orderUid, order.status])).toEqual([
+        [expiredOrderId, "EXPIRED"],
+        [replacementId, "OPEN"],
+      ]);
+    });
+
+    it("replaces an order cancelled for repricing", async () => {
+      const swap = await createExecutingSwap();
+      venue.setOrderStatus(swap.cowOrderUid!, "CANCELLED");
+
+      await pollSettlements();
+
+      const replaced = await getSwapById(swap.swapId);
+      expect(replaced?.status).toBe("executing");
+      expect(replaced?.cowOrderUid).not.toBe(swap.cowOrderUid);
+      expect((await getSwapOrders(swap.swapId))[0]?.status).toBe("CANCELLED");
+    });
+
+    it("routes the swap to refund once the replacement budget is spent", async () => {
+      const swap = await createExecutingSwap();
+
+      // Three replacements already expired unfilled
+      let orderId = swap.cowOrderUid!;
+      for (let i = 0; i < 3; i++) {
+        const next = await placeOrder();
+        await replaceSwapOrder(swap.swapId, orderId, "EXPIRED", next);
+        orderId = next;
+      }
+      venue.setOrderStatus(orderId, "EXPIRED");
+      const ordersPlaced = venue.orders.size;
+
+      await pollSettlements();
+
+      const refunding = await getSwapById(swap.swapId);
+      expect(refunding?.status).toBe("refund_pending");
+      expect(refunding?.failureReason).toBe(
+        "COWSwap order expired without being filled (3 replacement order(s) also failed to fill)"
+      );
+      expect(venue.orders.size).toBe(ordersPlaced);
+    });
+
+    it("routes the swap to refund after the resubmission deadline", async () => {
+      const swap = await createExecutingSwap({ depositConfirmedAt: new Date(Date.now() - 25 * HOUR_MS) });
+      venue.setOrderStatus(swap.cowOrderUid!, "EXPIRED");
+      const ordersPlaced = venue.orders.size;
+
+      await pollSettlements();
+
+      const refunding = await getSwapById(swap.swapId);
+      expect(refunding?.status).toBe("refund_pending");
+      expect(refunding?.failureReason).toBe(
+        "COWSwap order expired without being filled (resubmission deadline passed)"
+      );
+      expect(venue.orders.size).toBe(ordersPlaced);
+    });
+
+    it("keeps a partially filled order's fills when refunding the remainder", async () => {
+      const swap = await createExecutingSwap({
+        partiallyFillable: true,
+        depositConfirmedAt: new Date(Date.now() - 25 * HOUR_MS),
+      });
+      const fill = venue.fillOrder(swap.cowOrderUid!, SELL_AMOUNT / 4n);
+      venue.setOrderStatus(swap.cowOrderUid!, "EXPIRED");
+
+      await pollSettlements();
+
+      const refunding = await getSwapById(swap.swapId);
+      expect(refunding?.status).toBe("refund_pending");
+      expect(refunding?.failureReason).toStartWith(
+        "Swap partially filled, refunding the unfilled remainder: "
+      );
+      expect(refunding?.executedSellAmount).toBe((SELL_AMOUNT / 4n).toString());
+      expect(refunding?.actualBuyAmount).toBe(fill.buyAmount);
+      expect(refunding?.settlementTxHash).toBe(fill.txHash);
+
+      const [order] = await getSwapOrders(swap.swapId);
+      expect(order?.status).toBe("EXPIRED");
+      expect(order?.executedSellAmount).toBe((SELL_AMOUNT / 4n).toString());
+      expect(order?.executedBuyAmount).toBe(fill.buyAmount);
+    });
+  });
+});
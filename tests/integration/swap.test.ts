@@ -1,7 +1,50 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
 import { createTestApp, request, parseJson, fixtures, type TestApp } from "../setup";
 import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
-import type { CreateSwapResponse, SwapStatusResponse } from "../../src/types";
+import {
+  createQuote,
+  getSurplusRefundSwaps,
+  markDepositSeen,
+  markSwapExecuting,
+  markSurplusRefunded,
+  markSwapFailed,
+  recordDeposit,
+  recordLimitMarketPrice,
+  recordOrderFills,
+  recordTwapPartFilled,
+  replaceSwapOrder,
+  saveOrderUid,
+  startTwap,
+  updateCowOrderStatus,
+} from "../../src/db/queries";
+import type {
+  CreateSwapResponse,
+  SwapStatusResponse,
+  SwapTimelineResponse,
+} from "../../src/types";
+
+/**
+ * Read the next SSE `status` event from a stream
+ */
+async function readStatusEvent(
+  reader: { read(): Promise<{ value?: Uint8Array; done: boolean }> },
+  buffer: { text: string }
+): Promise<SwapStatusResponse | null> {
+  const decoder = new TextDecoder();
+  while (true) {
+    const end = buffer.text.indexOf("\n\n");
+    if (end !== -1) {
+      const frame = buffer.text.slice(0, end);
+      buffer.text = buffer.text.slice(end + 2);
+      const data = frame.split("\n").find((line) => line.startsWith("data: "));
+      if (data) return JSON.parse(data.slice("data: ".length));
+      continue;
+    }
+    const { value, done } = await reader.read();
+    if (done) return null;
+    buffer.text += decoder.decode(value, { stream: true });
+  }
+}
 
 describe("Swap Routes", () => {
   let app: TestApp;
@@ -67,6 +110,86 @@ describe("Swap Routes", () => {
       expect(body.error).toContain("Invalid refund address");
     });
 
+    it("rejects an unsupported sell token", async () => {
+      const response = await request(app, "/swap", {
+        method: "POST",
+        body: {
+          ...fixtures.validSwapRequest,
+          sellToken: { type: "erc20", address: "0x6B175474E89094C44Da98b954EedeAC495271d0F" }, // DAI
+        },
+      });
+
+      expect(response.status).toBe(400);
+
+      const body = await parseJson<{ error: string }>(response);
+      expect(body.error).toContain("Unsupported sell token");
+    });
+
+    it("requires a refund address when selling native ETH", async () => {
+      const { refundAddress: _, ...requestWithoutRefund } = fixtures.validSwapRequest;
+
+      const response = await request(app, "/swap", {
+        method: "POST",
+        body: {
+          ...requestWithoutRefund,
+          sellToken: { type: "ether" },
+        },
+      });
+
+      expect(response.status).toBe(400);
+
+      const body = await parseJson<{ error: string }>(response);
+      expect(body.error).toContain("refundAddress");
+    });
+
+    it("rejects invalid price protection", async () => {
+      for (const invalid of [
+        { maxSlippageBps: 10_000 },
+        { maxSlippageBps: 12.5 },
+        { minBuyAmountPerUnit: "0" },
+        { minBuyAmountPerUnit: "1.5" },
+      ]) {
+        const response = await request(app, "/swap", {
+          method: "POST",
+          body: { ...fixtures.validSwapRequest, ...invalid },
+        });
+
+        expect(response.status).toBe(400);
+      }
+    });
+
+    it("rejects invalid buy swaps", async () => {
+      for (const invalid of [
+        { kind: "buy" },
+        { kind: "buy", buyAmount: "0" },
+        { kind: "buy", buyAmount: "1000", partiallyFillable: true },
+        { kind: "sell", buyAmount: "1000" },
+      ]) {
+        const response = await request(app, "/swap", {
+          method: "POST",
+          body: { ...fixtures.validSwapRequest, ...invalid },
+        });
+
+        expect(response.status).toBe(400);
+      }
+    });
+
+    it("rejects invalid limit swaps", async () => {
+      for (const invalid of [
+        { limitBuyAmountPerUnit: "0" },
+        { limitBuyAmountPerUnit: "abc" },
+        { limitBuyAmountPerUnit: "30000000000000000000", minBuyAmountPerUnit: "25000000000000000000" },
+        { limitBuyAmountPerUnit: "30000000000000000000", kind: "buy", buyAmount: "1000" },
+      ]) {
+        const response = await request(app, "/swap", {
+          method: "POST",
+          body: { ...fixtures.validSwapRequest, ...invalid },
+        });
+
+        expect(response.status).toBe(400);
+      }
+    });
+
     it("rejects request with missing fields", async () => {
       const response = await request(app, "/swap", {
         method: "POST",
@@ -94,13 +217,168 @@ describe("Swap Routes", () => {
       expect(body.swapId).toBeDefined();
       expect(body.vaultAddress).toMatch(/^0x[a-fA-F0-9]{40}$/);
       expect(body.chainId).toBe(fixtures.validSwapRequest.chainId);
+      expect(body.sellToken).toEqual({ type: "erc20", address: fixtures.cbbtcAddress });
       expect(body.buyToken).toEqual(fixtures.validSwapRequest.buyToken);
       expect(body.recipientAddress).toBe(fixtures.validSwapRequest.recipientAddress);
       expect(body.refundAddress).toBe(fixtures.validSwapRequest.refundAddress);
+      expect(body.venue).toBe("cow");
       expect(body.status).toBe("pending_deposit");
       expect(body.expiresAt).toBeGreaterThan(Date.now());
     });
 
+    it("creates a swap selling a registered token", async () => {
+      const response = await request(app, "/swap", {
+        method: "POST",
+        body: {
+          ...fixtures.validSwapRequest,
+          sellToken: { type: "erc20", address: fixtures.usdcAddress.toLowerCase() },
+        },
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = await parseJson<CreateSwapResponse>(response);
+      expect(body.sellToken).toEqual({ type: "erc20", address: fixtures.usdcAddress });
+
+      const status = await parseJson<SwapStatusResponse>(await request(app, `/swap/${body.swapId}`));
+      expect(status.sellToken).toEqual({ type: "erc20", address: fixtures.usdcAddress });
+    });
+
+    it("creates a swap selling native ETH", async () => {
+      const response = await request(app, "/swap", {
+        method: "POST",
+        body: {
+          ...fixtures.validSwapRequest,
+          sellToken: { type: "ether" },
+        },
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = await parseJson<CreateSwapResponse>(response);
+      expect(body.sellToken).toEqual({ type: "ether" });
+    });
+
+    it("creates a swap without a refund address", async () => {
+      const { refundAddress: _, ...requestWithoutRefund } = fixtures.validSwapRequest;
+
+      const response = await request(app, "/swap", {
+        method: "POST",
+        body: requestWithoutRefund,
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = await parseJson<CreateSwapResponse>(response);
+
+      expect(body.status).toBe("pending_deposit");
+      expect(body.refundAddress).toBeUndefined();
+    });
+
+    it("creates a swap with price protection", async () => {
+      const response = await request(app, "/swap", {
+        method: "POST",
+        body: {
+          ...fixtures.validSwapRequest,
+          maxSlippageBps: 30,
+          minBuyAmountPerUnit: "25000000000000000000",
+        },
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = await parseJson<CreateSwapResponse>(response);
+
+      expect(body.maxSlippageBps).toBe(30);
+      expect(body.minBuyAmountPerUnit).toBe("25000000000000000000");
+    });
+
+    it("creates a buy swap for an exact amount", async () => {
+      const response = await request(app, "/swap", {
+        method: "POST",
+        body: {
+          ...fixtures.validSwapRequest,
+          kind: "buy",
+          buyAmount: "30000000000000000000",
+        },
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = await parseJson<CreateSwapResponse>(response);
+
+      expect(body.kind).toBe("buy");
+      expect(body.buyAmount).toBe("30000000000000000000");
+    });
+
+    it("binds a swap to a stored quote", async () => {
+      const quote = await createQuote({
+        quoteId: Bun.randomUUIDv7(),
+        chainId: 1,
+        sellToken: fixtures.cbbtcAddress,
+        buyToken: fixtures.validSwapRequest.buyToken.address,
+        sellAmount: "100000000",
+        buyAmount: "30000000000000000000",
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+      });
+
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: { ...fixtures.validSwapRequest, quoteId: quote.quoteId },
+      });
+      expect(createResponse.status).toBe(200);
+      const created = await parseJson<CreateSwapResponse>(createResponse);
+      expect(created.quoteId).toBe(quote.quoteId);
+
+      await recordDeposit(created.swapId, [], "50000000");
+
+      const response = await request(app, `/swap/${created.swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.quote).toEqual({
+        quoteId: quote.quoteId,
+        sellAmount: "100000000",
+        buyAmountEstimate: "30000000000000000000",
+        expectedBuyAmount: "15000000000000000000",
+      });
+    });
+
+    it("rejects unknown, expired or mismatched quotes", async () => {
+      const quoteFields = {
+        chainId: 1,
+        sellToken: fixtures.cbbtcAddress,
+        buyToken: fixtures.validSwapRequest.buyToken.address,
+        sellAmount: "100000000",
+        buyAmount: "30000000000000000000",
+      };
+      const expired = await createQuote({
+        ...quoteFields,
+        quoteId: Bun.randomUUIDv7(),
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      const otherToken = await createQuote({
+        ...quoteFields,
+        quoteId: Bun.randomUUIDv7(),
+        sellToken: fixtures.usdcAddress,
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+      });
+
+      const cases: [string, string][] = [
+        ["no-such-quote", "Unknown quoteId"],
+        [expired.quoteId, "Quote has expired"],
+        [otherToken.quoteId, "Quote is for a different chain or tokens"],
+      ];
+      for (const [quoteId, error] of cases) {
+        const response = await request(app, "/swap", {
+          method: "POST",
+          body: { ...fixtures.validSwapRequest, quoteId },
+        });
+
+        expect(response.status).toBe(400);
+        expect((await parseJson<{ error: string }>(response)).error).toBe(error);
+      }
+    });
+
     it("creates unique deposit addresses for each swap", async () => {
       const response1 = await request(app, "/swap", {
         method: "POST",
@@ -145,6 +423,201 @@ describe("Swap Routes", () => {
       expect(body.expiresAt).toBeDefined();
     });
 
+    it("reports a seen but unconfirmed deposit", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: fixtures.validSwapRequest,
+      });
+      const { swapId } = await parseJson<CreateSwapResponse>(createResponse);
+
+      await markDepositSeen(swapId);
+
+      const response = await request(app, `/swap/${swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.status).toBe("pending_deposit");
+      expect(body.depositStatus).toBe("seen");
+      expect(body.depositSeenAt).toBeDefined();
+      expect(body.depositConfirmedAt).toBeUndefined();
+    });
+
+    it("returns recorded deposit transfers", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: fixtures.validSwapRequest,
+      });
+      const { swapId } = await parseJson<CreateSwapResponse>(createResponse);
+
+      const transfer = {
+        txHash: `0x${"ab".repeat(32)}` as const,
+        logIndex: 3,
+        from: "0x9999999999999999999999999999999999999999" as const,
+        amount: "100000",
+        blockNumber: 123456,
+      };
+      await recordDeposit(swapId, [transfer], transfer.amount);
+
+      const response = await request(app, `/swap/${swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.depositStatus).toBe("confirmed");
+      expect(body.depositSeenAt).toBeDefined();
+      expect(body.depositConfirmedAt).toBeDefined();
+      expect(body.depositTxHash).toBe(transfer.txHash);
+      expect(body.depositorAddress).toBe(transfer.from);
+      expect(body.depositAmount).toBe(transfer.amount);
+      expect(body.deposits).toEqual([transfer]);
+    });
+
+    it("returns every order submitted, including replaced ones", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: fixtures.validSwapRequest,
+      });
+      const { swapId } = await parseJson<CreateSwapResponse>(createResponse);
+
+      const firstUid = `0x${"01".repeat(56)}`;
+      const secondUid = `0x${"02".repeat(56)}`;
+      await markSwapExecuting(swapId);
+      await saveOrderUid(swapId, firstUid, "1000");
+
+      expect(await replaceSwapOrder(swapId, firstUid, "EXPIRED", secondUid, "990")).toBe(true);
+      // The expired order is no longer current, so it can't be replaced twice
+      expect(await replaceSwapOrder(swapId, firstUid, "EXPIRED", secondUid, "990")).toBe(false);
+
+      const response = await request(app, `/swap/${swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.status).toBe("executing");
+      expect(body.orders?.map((order) => [order.orderUid, order.status])).toEqual([
+        [firstUid, "EXPIRED"],
+        [secondUid, "OPEN"],
+      ]);
+    });
+
+    it("sums partial fills across a swap's orders", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: { ...fixtures.validSwapRequest, partiallyFillable: true },
+      });
+      const created = await parseJson<CreateSwapResponse>(createResponse);
+      expect(created.partiallyFillable).toBe(true);
+      const { swapId } = created;
+
+      const firstUid = `0x${"03".repeat(56)}`;
+      const secondUid = `0x${"04".repeat(56)}`;
+      await markSwapExecuting(swapId);
+      await saveOrderUid(swapId, firstUid, "1000");
+
+      expect(await recordOrderFills(swapId, firstUid, "400", "390")).toEqual({
+        executedSellAmount: "400",
+        actualBuyAmount: "390",
+      });
+      // The same fill seen again is not recorded twice
+      expect(await recordOrderFills(swapId, firstUid, "400", "390")).toBeNull();
+
+      await replaceSwapOrder(swapId, firstUid, "EXPIRED", secondUid, "590");
+      expect(await recordOrderFills(swapId, secondUid, "600", "585")).toEqual({
+        executedSellAmount: "1000",
+        actualBuyAmount: "975",
+      });
+
+      const response = await request(app, `/swap/${swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.partiallyFillable).toBe(true);
+      expect(body.executedSellAmount).toBe("1000");
+      expect(body.actualBuyAmount).toBe("975");
+      expect(body.orders?.map((order) => [order.executedSellAmount, order.executedBuyAmount])).toEqual([
+        ["400", "390"],
+        ["600", "585"],
+      ]);
+    });
+
+    it("reports TWAP parts filled against the total", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: fixtures.validSwapRequest,
+      });
+      const { swapId } = await parseJson<CreateSwapResponse>(createResponse);
+
+      const firstUid = `0x${"05".repeat(56)}`;
+      const endsAt = new Date(Date.now() + 60 * 60 * 1000);
+      const nextPartAt = new Date(Date.now() + 15 * 60 * 1000);
+      await markSwapExecuting(swapId);
+      const planned = await startTwap(swapId, 4, endsAt);
+      expect(planned?.twapParts).toBe(4);
+      await saveOrderUid(swapId, firstUid, "250");
+
+      expect(await recordTwapPartFilled(swapId, firstUid, nextPartAt)).toBe(true);
+      // A part is only counted once
+      expect(await recordTwapPartFilled(swapId, firstUid, nextPartAt)).toBe(false);
+
+      const response = await request(app, `/swap/${swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.status).toBe("executing");
+      expect(body.twap).toEqual({
+        parts: 4,
+        partsFilled: 1,
+        nextPartAt: nextPartAt.getTime(),
+        endsAt: endsAt.getTime(),
+      });
+      expect(body.orders?.map((order) => order.status)).toEqual(["FULFILLED"]);
+    });
+
+    it("reports a limit swap's distance from the market", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: { ...fixtures.validSwapRequest, limitBuyAmountPerUnit: "30000000000000000000" },
+      });
+      expect(createResponse.status).toBe(200);
+      const created = await parseJson<CreateSwapResponse>(createResponse);
+      expect(created.limitBuyAmountPerUnit).toBe("30000000000000000000");
+
+      await markSwapExecuting(created.swapId);
+      await recordLimitMarketPrice(created.swapId, "27000000000000000000");
+
+      const response = await request(app, `/swap/${created.swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.limit?.buyAmountPerUnit).toBe("30000000000000000000");
+      expect(body.limit?.marketBuyAmountPerUnit).toBe("27000000000000000000");
+      expect(body.limit?.distanceBps).toBe(1000);
+      expect(body.limit?.checkedAt).toBeGreaterThan(0);
+    });
+
+    it("refunds a completed buy swap's unspent deposit", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: { ...fixtures.validSwapRequest, kind: "buy", buyAmount: "30000000000000000000" },
+      });
+      const { swapId } = await parseJson<CreateSwapResponse>(createResponse);
+
+      await markSwapExecuting(swapId);
+      await saveOrderUid(swapId, `0x${"06".repeat(56)}`, "30000000000000000000");
+      expect(
+        await updateCowOrderStatus(swapId, "FULFILLED", "0xabc", "30000000000000000000", undefined, true)
+      ).toBe(true);
+
+      const pending = await getSurplusRefundSwaps(1);
+      expect(pending.map((swap) => swap.swapId)).toEqual([swapId]);
+
+      expect(await markSurplusRefunded(swapId, "0xdef", "1500000")).toBe(true);
+      // The surplus is only refunded once
+      expect(await markSurplusRefunded(swapId, "0xdef", "1500000")).toBe(false);
+      expect(await getSurplusRefundSwaps(1)).toEqual([]);
+
+      const response = await request(app, `/swap/${swapId}`);
+      const body = await parseJson<SwapStatusResponse>(response);
+
+      expect(body.status).toBe("complete");
+      expect(body.kind).toBe("buy");
+      expect(body.actualBuyAmount).toBe("30000000000000000000");
+      expect(body.refundTxHash).toBe("0xdef");
+      expect(body.refundAmount).toBe("1500000");
+    });
+
     it("returns 404 for non-existent swap", async () => {
       const response = await request(app, "/swap/non-existent-id-12345");
 
@@ -154,4 +627,76 @@ describe("Swap Routes", () => {
       expect(body.error).toBe("Swap not found");
     });
   });
+
+  describe("GET /swap/:id/timeline", () => {
+    it("returns the swap's events in order", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: fixtures.validSwapRequest,
+      });
+      const { swapId } = await parseJson<CreateSwapResponse>(createResponse);
+
+      await markDepositSeen(swapId);
+      await markDepositSeen(swapId); // Already seen: no second event
+      await markSwapExecuting(swapId);
+
+      const response = await request(app, `/swap/${swapId}/timeline`);
+      expect(response.status).toBe(200);
+
+      const body = await parseJson<SwapTimelineResponse>(response);
+      expect(body.swapId).toBe(swapId);
+      expect(body.events.map((event) => event.type)).toEqual([
+        "created",
+        "deposit_seen",
+        "status_changed",
+      ]);
+      expect(body.events[2]).toMatchObject({
+        fromStatus: "pending_deposit",
+        toStatus: "executing",
+      });
+      expect(body.events[0]!.timestamp).toBeGreaterThan(0);
+    });
+
+    it("returns 404 for non-existent swap", async () => {
+      const response = await request(app, "/swap/non-existent-id-12345/timeline");
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /swap/:id/events", () => {
+    it("streams status changes until a terminal status", async () => {
+      const createResponse = await request(app, "/swap", {
+        method: "POST",
+        body: fixtures.validSwapRequest,
+      });
+      const { swapId } = await parseJson<CreateSwapResponse>(createResponse);
+
+      const response = await request(app, `/swap/${swapId}/events`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+      const reader = response.body!.getReader();
+      const buffer = { text: "" };
+
+      expect((await readStatusEvent(reader, buffer))?.status).toBe("pending_deposit");
+
+      await markSwapExecuting(swapId);
+      expect((await readStatusEvent(reader, buffer))?.status).toBe("executing");
+
+      await markSwapFailed(swapId, "boom");
+      const failed = await readStatusEvent(reader, buffer);
+      expect(failed?.status).toBe("failed");
+      expect(failed?.failureReason).toBe("boom");
+
+      // Terminal status closes the stream
+      expect(await readStatusEvent(reader, buffer)).toBeNull();
+    });
+
+    it("returns 404 for non-existent swap", async () => {
+      const response = await request(app, "/swap/non-existent-id-12345/events");
+
+      expect(response.status).toBe(404);
+    });
+  });
 });
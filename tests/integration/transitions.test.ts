@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import {
+  createSwap,
+  getPendingSwaps,
+  getSwapById,
+  markExpiredSwaps,
+  markSwapExecuting,
+  markSwapFailed,
+  recordDeposit,
+  scheduleExecutionRetry,
+  transitionSwap,
+} from "../../src/db/queries";
+import { IllegalTransitionError } from "../../src/db/transitions";
+import { createVaultWallet } from "../../src/services/wallet";
+
+/**
+ * Insert a pending swap directly (bypassing the API)
+ */
+async function insertPendingSwap(expiresAt = new Date(Date.now() + 60_000)): Promise<string> {
+  const vaultWallet = createVaultWallet();
+  const swap = await createSwap({
+    swapId: Bun.randomUUIDv7(),
+    chainId: 8453,
+    vaultAddress: vaultWallet.address,
+    vaultSalt: vaultWallet.salt,
+    sellToken: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf",
+    buyToken: "0x4200000000000000000000000000000000000006",
+    recipientAddress: "0x1234567890123456789012345678901234567890",
+    refundAddress: "0x1234567890123456789012345678901234567890",
+    expiresAt,
+  });
+  return swap.swapId;
+}
+
+describe("Swap status transitions", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+  });
+
+  it("lets only one worker claim a swap for execution", async () => {
+    const swapId = await insertPendingSwap();
+
+    const results = await Promise.all([
+      markSwapExecuting(swapId),
+      markSwapExecuting(swapId),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect((await getSwapById(swapId))?.status).toBe("executing");
+  });
+
+  it("rejects a transition when the swap is not in the expected status", async () => {
+    const swapId = await insertPendingSwap();
+
+    // pending_deposit -> failed requires the swap to be executing
+    const applied = await markSwapFailed(swapId, "boom");
+
+    expect(applied).toBe(false);
+    const swap = await getSwapById(swapId);
+    expect(swap?.status).toBe("pending_deposit");
+    expect(swap?.failureReason).toBeNull();
+  });
+
+  it("throws on transitions the state machine forbids", async () => {
+    const swapId = await insertPendingSwap();
+
+    await expect(
+      transitionSwap(swapId, "pending_deposit", "refunded")
+    ).rejects.toBeInstanceOf(IllegalTransitionError);
+  });
+
+  describe("execution retries", () => {
+    async function failTransiently(swapId: string, nextAttemptAt: Date): Promise<boolean> {
+      await markSwapExecuting(swapId);
+      await recordDeposit(swapId, [], "100000");
+      return scheduleExecutionRetry(swapId, 1, nextAttemptAt, "HTTP 503");
+    }
+
+    it("returns the swap to pending_deposit until the retry is due", async () => {
+      const swapId = await insertPendingSwap();
+
+      expect(await failTransiently(swapId, new Date(Date.now() + 60_000))).toBe(true);
+
+      const swap = await getSwapById(swapId);
+      expect(swap?.status).toBe("pending_deposit");
+      expect(swap?.executionAttempts).toBe(1);
+      expect(swap?.failureReason).toBe("HTTP 503");
+
+      const pending = await getPendingSwaps(8453);
+      expect(pending.map((s) => s.swapId)).not.toContain(swapId);
+    });
+
+    it("keeps retrying a funded swap past its expiry", async () => {
+      const swapId = await insertPendingSwap(new Date(Date.now() - 1_000));
+      await failTransiently(swapId, new Date(Date.now() - 1_000));
+
+      expect(await markExpiredSwaps()).toBe(0);
+
+      const pending = await getPendingSwaps(8453);
+      expect(pending.map((s) => s.swapId)).toContain(swapId);
+    });
+  });
+});
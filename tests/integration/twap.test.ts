@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { OrderBookApiError } from "@cowprotocol/cow-sdk";
+import { privateKeyToAccount } from "viem/accounts";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import { startFakeNode, type FakeNode } from "../rpc";
+import { fixtures } from "../setup";
+import {
+  createSwap,
+  getSwapById,
+  getSwapOrders,
+  markSwapExecuting,
+  saveOrderUid,
+} from "../../src/db/queries";
+import { chains } from "../../src/config/chains";
+import { setGasWalletAccount } from "../../src/services/gas-wallet";
+import { pollSettlements } from "../../src/services/settlement";
+import { getTwapNextPartAt, getTwapPartAmount } from "../../src/services/twap";
+import { registerVenue } from "../../src/services/venues";
+import { createFakeVenue } from "../../src/services/venues/fake";
+import { createVaultWallet } from "../../src/services/wallet";
+import { serializeToken } from "../../src/utils/token";
+import type { Swap } from "../../src/db/schema";
+
+const venue = createFakeVenue("fake-twap");
+
+const GAS_WALLET = privateKeyToAccount(`0x${"66".repeat(32)}`);
+// USDT: no EIP-2612 permit, so parts approve on-chain and order
+const USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const DEPOSIT = 400_000_000_000n;
+const MINUTE_MS = 60 * 1000;
+// Default TWAP_PART_INTERVAL_MINUTES
+const INTERVAL_MS = 30 * MINUTE_MS;
+
+describe("TWAP Execution", () => {
+  describe("part schedule", () => {
+    // A 4 part TWAP with `twapPartsFilled` parts filled
+    const twapSwap = (twapPartsFilled: number, twapEndsAt: Date) =>
+      ({ twapParts: 4, twapPartsFilled, twapEndsAt }) as Swap;
+
+    it("sells an equal share of the vault over the parts left", () => {
+      const endsAt = new Date(Date.now() + 4 * INTERVAL_MS);
+      expect(getTwapPartAmount(twapSwap(0, endsAt), 1_000n)).toBe(250n);
+      expect(getTwapPartAmount(twapSwap(2, endsAt), 1_001n)).toBe(500n);
+    });
+
+    it("sells the rest of the vault with the last part", () => {
+      const endsAt = new Date(Date.now() + INTERVAL_MS);
+      expect(getTwapPartAmount(twapSwap(3, endsAt), 1_003n)).toBe(1_003n);
+    });
+
+    it("sells the whole balance for swaps that aren't TWAPs", () => {
+      expect(getTwapPartAmount({ twapParts: null } as Swap, 1_003n)).toBe(1_003n);
+    });
+
+    it("spaces parts one interval apart, ending with the window", () => {
+      const endsAt = new Date(Date.now() + 4 * INTERVAL_MS);
+      expect(getTwapNextPartAt(twapSwap(0, endsAt)).getTime()).toBe(endsAt.getTime() - 3 * INTERVAL_MS);
+      expect(getTwapNextPartAt(twapSwap(2, endsAt)).getTime()).toBe(endsAt.getTime() - INTERVAL_MS);
+    });
+
+    it("makes an overdue part due now", () => {
+      const before = Date.now();
+      const nextPartAt = getTwapNextPartAt(twapSwap(0, new Date(before - INTERVAL_MS)));
+      expect(nextPartAt.getTime()).toBeGreaterThanOrEqual(before);
+      expect(nextPartAt.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+  });
+
+  describe("settlement", () => {
+    let node: FakeNode;
+    let originalRpcUrl: string;
+    const placeOrder = venue.placeOrder;
+
+    beforeAll(async () => {
+      await setupTestDatabase();
+      registerVenue(venue);
+      venue.setPrice(1_000_000n, 300_000_000_000_000n);
+      node = startFakeNode(1);
+      originalRpcUrl = chains[1].rpcUrl;
+      chains[1].rpcUrl = node.url;
+      setGasWalletAccount(GAS_WALLET);
+    });
+
+    afterAll(async () => {
+      chains[1].rpcUrl = originalRpcUrl;
+      setGasWalletAccount(undefined);
+      node.stop();
+      await teardownTestDatabase();
+    });
+
+    beforeEach(async () => {
+      await cleanupSwaps();
+      node.reset();
+      node.setEthBalance(GAS_WALLET.address, 10n ** 18n);
+      venue.placeOrder = placeOrder;
+    });
+
+    // A 4 part USDT TWAP whose first child order has just filled, leaving
+    // three quarters of the deposit in the vault
+    async function createTwapSwap(twapEndsAt: Date): Promise<Swap> {
+      const vault = createVaultWallet();
+      const created = await createSwap({
+        swapId: Bun.randomUUIDv7(),
+        chainId: 1,
+        vaultAddress: vault.address,
+        vaultSalt: vault.salt,
+        sellToken: serializeToken({ type: "erc20", address: USDT }),
+        buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+        venue: venue.id,
+        recipientAddress: fixtures.validSwapRequest.recipientAddress,
+        depositAmount: DEPOSIT.toString(),
+        depositConfirmedAt: new Date(),
+        twapParts: 4,
+        twapEndsAt,
+        expiresAt: new Date(Date.now() + 60 * MINUTE_MS),
+      });
+      await markSwapExecuting(created.swapId);
+
+      const orderId = await venue.placeOrder({
+        chainId: 1,
+        sellToken: USDT,
+        buyToken: fixtures.validSwapRequest.buyToken.address,
+        sellAmount: (DEPOSIT / 4n).toString(),
+        buyAmountMin: "1",
+        receiver: fixtures.validSwapRequest.recipientAddress as `0x${string}`,
+        vaultPrivateKey: `0x${"11".repeat(32)}`,
+        kind: "sell",
+        orderClass: "market",
+        partiallyFillable: false,
+        slippageBps: 50,
+        preHooks: [],
+      });
+      await saveOrderUid(created.swapId, orderId, "1");
+      venue.fillOrder(orderId);
+      node.setTokenBalance(USDT, created.vaultAddress, (DEPOSIT * 3n) / 4n);
+      return (await getSwapById(created.swapId))!;
+    }
+
+    it("records a filled part and waits for the next one", async () => {
+      const swap = await createTwapSwap(new Date(Date.now() + 4 * INTERVAL_MS));
+      const ordersPlaced = venue.orders.size;
+
+      await pollSettlements();
+
+      const waiting = await getSwapById(swap.swapId);
+      expect(waiting?.status).toBe("executing");
+      expect(waiting?.orderStatus).toBe("FULFILLED");
+      expect(waiting?.twapPartsFilled).toBe(1);
+      expect(waiting?.twapNextPartAt?.getTime()).toBe(swap.twapEndsAt!.getTime() - 3 * INTERVAL_MS);
+
+      // Not before twapNextPartAt
+      await pollSettlements();
+      expect(venue.orders.size).toBe(ordersPlaced);
+      expect((await getSwapById(swap.swapId))?.cowOrderUid).toBe(swap.cowOrderUid);
+    });
+
+    it("submits the next part for its share of the vault once due", async () => {
+      // The second part is due as soon as the first fills
+      const swap = await createTwapSwap(new Date(Date.now() + 3 * INTERVAL_MS - MINUTE_MS));
+      const firstOrderId = swap.cowOrderUid!;
+
+      await pollSettlements();
+      await pollSettlements();
+
+      const next = (await getSwapById(swap.swapId))!;
+      const nextOrderId = next.cowOrderUid!;
+      expect(next.status).toBe("executing");
+      expect(next.orderStatus).toBe("OPEN");
+      expect(nextOrderId).not.toBe(firstOrderId);
+      expect(venue.orders.get(nextOrderId)?.params.sellAmount).toBe((DEPOSIT / 4n).toString());
+
+      const orders = await getSwapOrders(swap.swapId);
+      expect(orders.map((order) => [order.orderUid, order.status])).toEqual([
+        [firstOrderId, "FULFILLED"],
+        [nextOrderId, "OPEN"],
+      ]);
+    });
+
+    it("refunds the remainder once the window has ended", async () => {
+      const swap = await createTwapSwap(new Date(Date.now() - MINUTE_MS));
+      const ordersPlaced = venue.orders.size;
+
+      await pollSettlements();
+      await pollSettlements();
+
+      const refunding = await getSwapById(swap.swapId);
+      expect(refunding?.status).toBe("refund_pending");
+      expect(refunding?.failureReason).toBe(
+        "TWAP window ended with 1 of 4 parts filled, refunding the unfilled remainder"
+      );
+      expect(refunding?.executedSellAmount).toBe((DEPOSIT / 4n).toString());
+      expect(venue.orders.size).toBe(ordersPlaced);
+    });
+
+    it("refunds the remainder when a part is rejected permanently", async () => {
+      const swap = await createTwapSwap(new Date(Date.now() + 3 * INTERVAL_MS - MINUTE_MS));
+      venue.placeOrder = async () => {
+        throw new OrderBookApiError(new Response(null, { status: 400 }), {
+          errorType: "SellAmountDoesNotCoverFee",
+          description: "test",
+        });
+      };
+
+      await pollSettlements();
+      await pollSettlements();
+
+      const refunding = await getSwapById(swap.swapId);
+      expect(refunding?.status).toBe("refund_pending");
+      expect(refunding?.failureReason).toBe(
+        "TWAP part rejected with 1 of 4 parts filled, refunding the unfilled remainder: " +
+          "SellAmountDoesNotCoverFee: test"
+      );
+    });
+  });
+});
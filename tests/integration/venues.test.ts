@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, spyOn } from "bun:test";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import { fixtures } from "../setup";
+import {
+  createSwap,
+  getSwapById,
+  getSwapOrders,
+  markSwapExecuting,
+  saveOrderUid,
+} from "../../src/db/queries";
+import { createVaultWallet } from "../../src/services/wallet";
+import { pollSettlements } from "../../src/services/settlement";
+import { classifyExecutionError } from "../../src/services/execution-errors";
+import { submitVaultOrder } from "../../src/services/flows/order";
+import * as slippage from "../../src/services/slippage";
+import { getSwapVenue, getVenue, registerVenue } from "../../src/services/venues";
+import { createFakeVenue } from "../../src/services/venues/fake";
+import { serializeToken } from "../../src/utils/token";
+import type { VenueOrderParams } from "../../src/services/venues";
+import type { NewSwap, Swap } from "../../src/db/schema";
+
+const venue = createFakeVenue();
+
+const CBBTC = { type: "erc20", address: fixtures.cbbtcAddress as `0x${string}` } as const;
+
+// A CBBTC -> WETH sell order placed on the fake venue
+function orderParams(overrides: Partial<VenueOrderParams> = {}): VenueOrderParams {
+  return {
+    chainId: 1,
+    sellToken: fixtures.cbbtcAddress as `0x${string}`,
+    buyToken: fixtures.validSwapRequest.buyToken.address,
+    sellAmount: "100000000",
+    buyAmountMin: "29000000000000000000",
+    receiver: fixtures.validSwapRequest.recipientAddress as `0x${string}`,
+    vaultPrivateKey: `0x${"11".repeat(32)}`,
+    kind: "sell",
+    orderClass: "market",
+    partiallyFillable: false,
+    slippageBps: 50,
+    preHooks: [],
+    ...overrides,
+  };
+}
+
+describe("Swap Venues", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+    registerVenue(venue);
+    // 30 WETH per CBBTC
+    venue.setPrice(100_000_000n, 30_000_000_000_000_000_000n);
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+  });
+
+  it("resolves a swap's venue by ID", () => {
+    expect(getVenue("cow").id).toBe("cow");
+    expect(getSwapVenue({ venue: "fake" } as Swap)).toBe(venue);
+    expect(() => getVenue("unknown")).toThrow("Unknown swap venue");
+  });
+
+  it("quotes at the fake venue's price", async () => {
+    const from = fixtures.validSwapRequest.recipientAddress as `0x${string}`;
+    const sellToken = { type: "erc20" as const, address: fixtures.cbbtcAddress as `0x${string}` };
+    const buyToken = fixtures.validSwapRequest.buyToken;
+
+    const sell = await venue.getQuote({ chainId: 1, sellToken, buyToken, sellAmount: "50000000", from });
+    expect(sell.buyAmount).toBe("15000000000000000000");
+
+    const buy = await venue.getQuote({
+      chainId: 1,
+      sellToken,
+      buyToken,
+      kind: "buy",
+      buyAmount: "15000000000000000000",
+      from,
+    });
+    expect(buy.sellAmount).toBe("50000000");
+  });
+
+  it("fills, reports and cancels orders in memory", async () => {
+    const orderId = await venue.placeOrder(orderParams({ partiallyFillable: true }));
+    expect((await venue.getOrderStatus(1, orderId)).status).toBe("OPEN");
+
+    venue.fillOrder(orderId, 40_000_000n);
+    const partial = await venue.getOrderStatus(1, orderId);
+    expect(partial.status).toBe("OPEN");
+    expect(partial.executedSellAmount).toBe("40000000");
+
+    venue.fillOrder(orderId);
+    const filled = await venue.getOrderStatus(1, orderId);
+    expect(filled.status).toBe("FULFILLED");
+    expect(filled.executedBuyAmount).toBe("30000000000000000000");
+    expect(await venue.getOrderFills(1, orderId)).toHaveLength(2);
+
+    const openId = await venue.placeOrder(orderParams());
+    await venue.cancelOrder(1, openId, `0x${"11".repeat(32)}`);
+    expect((await venue.getOrderStatus(1, openId)).status).toBe("CANCELLED");
+  });
+
+  it("settles a swap through its venue", async () => {
+    const vault = createVaultWallet();
+    const swap = await createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "erc20", address: fixtures.cbbtcAddress as `0x${string}` }),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      venue: venue.id,
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      status: "pending_deposit",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+    await markSwapExecuting(swap.swapId);
+    const orderId = await venue.placeOrder(orderParams());
+    await saveOrderUid(swap.swapId, orderId, "30000000000000000000");
+    const fill = venue.fillOrder(orderId);
+
+    await pollSettlements();
+
+    const settled = await getSwapById(swap.swapId);
+    expect(settled?.status).toBe("complete");
+    expect(settled?.settlementTxHash).toBe(fill.txHash);
+    expect(settled?.actualBuyAmount).toBe("30000000000000000000");
+
+    const orders = await getSwapOrders(swap.swapId);
+    expect(orders.map((order) => order.status)).toEqual(["FULFILLED"]);
+  });
+
+  it("places a limit swap's order at its target price without a slippage tolerance", async () => {
+    const vault = createVaultWallet();
+    const swap = await createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "erc20", address: fixtures.cbbtcAddress as `0x${string}` }),
+      buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+      venue: venue.id,
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      limitBuyAmountPerUnit: "32000000000000000000",
+      status: "executing",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    const getSlippageTolerance = spyOn(slippage, "getSlippageTolerance");
+
+    try {
+      const { orderId } = await submitVaultOrder(
+        swap,
+        { type: "erc20", address: fixtures.cbbtcAddress as `0x${string}` },
+        50_000_000n,
+        `0x${"11".repeat(32)}`,
+        [],
+        "Test"
+      );
+
+      expect(getSlippageTolerance).not.toHaveBeenCalled();
+      const order = venue.orders.get(orderId)!;
+      expect(order.params.orderClass).toBe("limit");
+      expect(order.params.slippageBps).toBe(0);
+      expect(order.params.buyAmountMin).toBe("16000000000000000000");
+    } finally {
+      getSlippageTolerance.mockRestore();
+    }
+  });
+
+  describe("market sell orders", () => {
+    // An executing CBBTC -> WETH market sell swap on the fake venue
+    async function createSellSwap(overrides: Partial<NewSwap> = {}): Promise<Swap> {
+      const vault = createVaultWallet();
+      return createSwap({
+        swapId: Bun.randomUUIDv7(),
+        chainId: 1,
+        vaultAddress: vault.address,
+        vaultSalt: vault.salt,
+        sellToken: serializeToken(CBBTC),
+        buyToken: serializeToken(fixtures.validSwapRequest.buyToken),
+        venue: venue.id,
+        recipientAddress: fixtures.validSwapRequest.recipientAddress,
+        status: "executing",
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        ...overrides,
+      });
+    }
+
+    // Submit an order selling 1 CBBTC (quoted at 30 WETH) at a recommended tolerance
+    async function submitOrder(swap: Swap, recommendedSlippageBps = 50) {
+      const getSlippageTolerance = spyOn(slippage, "getSlippageTolerance").mockResolvedValue(
+        recommendedSlippageBps
+      );
+      try {
+        const { orderId } = await submitVaultOrder(
+          swap,
+          CBBTC,
+          100_000_000n,
+          `0x${"11".repeat(32)}`,
+          [],
+          "Test"
+        );
+        return venue.orders.get(orderId)!.params;
+      } finally {
+        getSlippageTolerance.mockRestore();
+      }
+    }
+
+    it("caps the recommended slippage tolerance at the swap's maximum", async () => {
+      const params = await submitOrder(await createSellSwap({ maxSlippageBps: 30 }), 200);
+
+      expect(params.slippageBps).toBe(30);
+      expect(params.buyAmountMin).toBe("29910000000000000000");
+    });
+
+    it("uses a recommended tolerance below the swap's maximum", async () => {
+      const params = await submitOrder(await createSellSwap({ maxSlippageBps: 300 }), 200);
+
+      expect(params.slippageBps).toBe(200);
+      expect(params.buyAmountMin).toBe("29400000000000000000");
+    });
+
+    it("raises the minimum buy amount to the swap's floor", async () => {
+      // 30 WETH quoted, 29.85 after 0.5% slippage, floor at 29.99
+      const swap = await createSellSwap({ minBuyAmountPerUnit: "29990000000000000000" });
+
+      const params = await submitOrder(swap);
+
+      expect(params.slippageBps).toBe(50);
+      expect(params.buyAmountMin).toBe("29990000000000000000");
+    });
+
+    it("refuses to sign when the market is below the swap's floor", async () => {
+      const swap = await createSellSwap({ minBuyAmountPerUnit: "31000000000000000000" });
+      const ordersPlaced = venue.orders.size;
+
+      const error = await submitOrder(swap).catch((err) => err);
+
+      expect(error).toBeInstanceOf(slippage.MinBuyAmountNotMetError);
+      expect(classifyExecutionError(error)).toBe("permanent");
+      expect(venue.orders.size).toBe(ordersPlaced);
+    });
+  });
+});
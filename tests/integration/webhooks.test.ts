@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { createTestApp, request, parseJson, fixtures, type TestApp } from "../setup";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import { markSwapExecuting, markWebhookAttemptFailed } from "../../src/db/queries";
+import {
+  processWebhookDeliveries,
+  setAllowInsecureWebhookUrls,
+  signWebhookPayload,
+} from "../../src/services/webhooks";
+import type {
+  CreateSwapResponse,
+  WebhookDeliveriesResponse,
+  WebhookDeliveryResponse,
+} from "../../src/types";
+
+const WEBHOOK_SECRET = "test-webhook-secret-0123456789";
+const AUTH = { "X-Webhook-Secret": WEBHOOK_SECRET };
+
+describe("Swap Webhooks", () => {
+  let app: TestApp;
+  let receiver: ReturnType<typeof Bun.serve>;
+  let received: Request[] = [];
+  let receivedBodies: string[] = [];
+  let receiverStatus = 200;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    app = createTestApp();
+    // The receiver below is plain http on localhost
+    setAllowInsecureWebhookUrls(true);
+
+    // Local webhook receiver that records requests
+    receiver = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        received.push(req);
+        receivedBodies.push(await req.text());
+        return new Response(null, { status: receiverStatus });
+      },
+    });
+  });
+
+  afterAll(async () => {
+    setAllowInsecureWebhookUrls(false);
+    receiver.stop(true);
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+    received = [];
+    receivedBodies = [];
+    receiverStatus = 200;
+  });
+
+  async function createSwapWithWebhook(): Promise<string> {
+    const response = await request(app, "/swap", {
+      method: "POST",
+      body: {
+        ...fixtures.validSwapRequest,
+        webhookUrl: `http://localhost:${receiver.port}/hook`,
+        webhookSecret: WEBHOOK_SECRET,
+      },
+    });
+    expect(response.status).toBe(200);
+    const { swapId } = await parseJson<CreateSwapResponse>(response);
+    return swapId;
+  }
+
+  async function getDeliveries(swapId: string): Promise<WebhookDeliveryResponse[]> {
+    const response = await request(app, `/swap/${swapId}/webhooks`, { headers: AUTH });
+    const body = await parseJson<WebhookDeliveriesResponse>(response);
+    return body.deliveries;
+  }
+
+  it("rejects a webhook URL without a secret", async () => {
+    const response = await request(app, "/swap", {
+      method: "POST",
+      body: {
+        ...fixtures.validSwapRequest,
+        webhookUrl: "https://example.com/hook",
+      },
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects an invalid webhook URL", async () => {
+    const response = await request(app, "/swap", {
+      method: "POST",
+      body: {
+        ...fixtures.validSwapRequest,
+        webhookUrl: "ftp://example.com/hook",
+        webhookSecret: WEBHOOK_SECRET,
+      },
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects webhook URLs that are not https or point to private addresses", async () => {
+    setAllowInsecureWebhookUrls(false);
+    try {
+      for (const webhookUrl of [
+        "http://example.com/hook",
+        "https://127.0.0.1/hook",
+        "https://10.0.0.5/hook",
+        "https://169.254.169.254/latest/meta-data",
+        "https://[::1]/hook",
+        "https://[::ffff:192.168.1.1]/hook",
+      ]) {
+        const response = await request(app, "/swap", {
+          method: "POST",
+          body: { ...fixtures.validSwapRequest, webhookUrl, webhookSecret: WEBHOOK_SECRET },
+        });
+        expect(response.status).toBe(400);
+      }
+    } finally {
+      setAllowInsecureWebhookUrls(true);
+    }
+  });
+
+  it("fails a delivery whose URL is no longer allowed instead of sending it", async () => {
+    const swapId = await createSwapWithWebhook();
+    await markSwapExecuting(swapId);
+
+    setAllowInsecureWebhookUrls(false);
+    try {
+      await processWebhookDeliveries();
+    } finally {
+      setAllowInsecureWebhookUrls(true);
+    }
+
+    expect(received).toHaveLength(0);
+    const [delivery] = await getDeliveries(swapId);
+    expect(delivery?.status).toBe("failed");
+    expect(delivery?.lastError).toBe("Webhook URL must use https");
+  });
+
+  it("requires the webhook secret to list deliveries", async () => {
+    const swapId = await createSwapWithWebhook();
+
+    const missing = await request(app, `/swap/${swapId}/webhooks`);
+    const wrong = await request(app, `/swap/${swapId}/webhooks`, {
+      headers: { "X-Webhook-Secret": "not-the-webhook-secret" },
+    });
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+  });
+
+  it("delivers a signed payload for each status change", async () => {
+    const swapId = await createSwapWithWebhook();
+    await markSwapExecuting(swapId);
+
+    await processWebhookDeliveries();
+
+    expect(received).toHaveLength(1);
+    const req = received[0]!;
+    const body = receivedBodies[0]!;
+    const timestamp = Number(req.headers.get("X-Webhook-Timestamp"));
+
+    expect(req.headers.get("X-Webhook-Signature")).toBe(
+      signWebhookPayload(WEBHOOK_SECRET, timestamp, body)
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      event: "swap.status_changed",
+      swapId,
+      fromStatus: "pending_deposit",
+      toStatus: "executing",
+    });
+
+    const [delivery] = await getDeliveries(swapId);
+    expect(delivery?.status).toBe("delivered");
+    expect(delivery?.attempts).toBe(1);
+    expect(delivery?.responseStatus).toBe(200);
+  });
+
+  it("schedules a retry when the receiver fails", async () => {
+    const swapId = await createSwapWithWebhook();
+    await markSwapExecuting(swapId);
+    receiverStatus = 500;
+
+    await processWebhookDeliveries();
+
+    const [delivery] = await getDeliveries(swapId);
+    expect(delivery?.status).toBe("pending");
+    expect(delivery?.attempts).toBe(1);
+    expect(delivery?.lastError).toBe("HTTP 500");
+    expect(delivery?.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    // Not due yet - nothing is sent
+    await processWebhookDeliveries();
+    expect(received).toHaveLength(1);
+  });
+
+  it("replays a delivery immediately", async () => {
+    const swapId = await createSwapWithWebhook();
+    await markSwapExecuting(swapId);
+    receiverStatus = 500;
+    await processWebhookDeliveries();
+
+    // Exhaust the retry budget
+    const [failed] = await getDeliveries(swapId);
+    await markWebhookAttemptFailed(failed!.id, "HTTP 500", 500, null);
+
+    const response = await request(
+      app,
+      `/swap/${swapId}/webhooks/${failed!.id}/replay`,
+      { method: "POST", headers: AUTH }
+    );
+    expect(response.status).toBe(200);
+
+    receiverStatus = 200;
+    await processWebhookDeliveries();
+
+    expect(received).toHaveLength(2);
+    const [delivery] = await getDeliveries(swapId);
+    expect(delivery?.status).toBe("delivered");
+  });
+
+  it("returns 404 when replaying another swap's delivery", async () => {
+    const swapId = await createSwapWithWebhook();
+    await markSwapExecuting(swapId);
+    const [delivery] = await getDeliveries(swapId);
+
+    const response = await request(
+      app,
+      `/swap/non-existent-id-12345/webhooks/${delivery!.id}/replay`,
+      { method: "POST", headers: AUTH }
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("only replays failed deliveries", async () => {
+    const swapId = await createSwapWithWebhook();
+    await markSwapExecuting(swapId);
+    await processWebhookDeliveries();
+    const [delivered] = await getDeliveries(swapId);
+
+    const response = await request(
+      app,
+      `/swap/${swapId}/webhooks/${delivered!.id}/replay`,
+      { method: "POST", headers: AUTH }
+    );
+
+    expect(response.status).toBe(409);
+    const [delivery] = await getDeliveries(swapId);
+    expect(delivery?.status).toBe("delivered");
+    expect(received).toHaveLength(1);
+  });
+
+  it("requires the webhook secret to replay a delivery", async () => {
+    const swapId = await createSwapWithWebhook();
+    await markSwapExecuting(swapId);
+    const [delivery] = await getDeliveries(swapId);
+    await markWebhookAttemptFailed(delivery!.id, "HTTP 500", 500, null);
+
+    const response = await request(
+      app,
+      `/swap/${swapId}/webhooks/${delivery!.id}/replay`,
+      { method: "POST" }
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { setupTestDatabase, teardownTestDatabase, cleanupSwaps } from "../db";
+import { startFakeNode, type FakeNode } from "../rpc";
+import { fixtures } from "../setup";
+import { createSwap } from "../../src/db/queries";
+import { chains } from "../../src/config/chains";
+import { createChainClient } from "../../src/services/chain-client";
+import { classifyExecutionError } from "../../src/services/execution-errors";
+import { executeWrapFlow, InsufficientGasReserveError } from "../../src/services/flows/wrap";
+import { createVaultWallet } from "../../src/services/wallet";
+import { serializeToken } from "../../src/utils/token";
+
+describe("Wrap Flow", () => {
+  let node: FakeNode;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    node = startFakeNode(1);
+  });
+
+  afterAll(async () => {
+    node.stop();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupSwaps();
+    node.reset();
+  });
+
+  it("fails permanently when the deposit doesn't cover the gas reserve", async () => {
+    const vault = createVaultWallet();
+    const swap = await createSwap({
+      swapId: Bun.randomUUIDv7(),
+      chainId: 1,
+      vaultAddress: vault.address,
+      vaultSalt: vault.salt,
+      sellToken: serializeToken({ type: "ether" }),
+      buyToken: serializeToken({ type: "erc20", address: fixtures.cbbtcAddress as `0x${string}` }),
+      recipientAddress: fixtures.validSwapRequest.recipientAddress,
+      refundAddress: fixtures.validSwapRequest.recipientAddress,
+      status: "executing",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    // Less than 250k gas at twice the ~2 gwei max fee
+    node.setEthBalance(swap.vaultAddress, 500_000_000_000_000n);
+
+    const client = createChainClient({ ...chains[1], rpcUrl: node.url });
+    const error = await executeWrapFlow(swap, 500_000_000_000_000n, client).catch((err) => err);
+
+    expect(error).toBeInstanceOf(InsufficientGasReserveError);
+    expect(classifyExecutionError(error)).toBe("permanent");
+    expect(node.sent()).toHaveLength(0);
+  });
+});
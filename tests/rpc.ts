@@ -0,0 +1,448 @@
+/**
+ * Fake JSON-RPC node for tests (Bun.serve, no real chain needed).
+ *
+ * Keeps native and ERC20 balances, allowances and Transfer logs in memory
+ * and answers the calls the pollers and vault flows make: balances (also
+ * through Multicall3), logs, fees, nonces, code, and raw transactions. Token
+ * balances read at a past block leave out later `addTransfer` logs. Sent
+ * transactions are mined immediately unless `onSend` says otherwise, and
+ * ERC20 transfer/approve calls and native transfers take effect when mined.
+ */
+
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  erc20Abi,
+  keccak256,
+  multicall3Abi,
+  numberToHex,
+  pad,
+  parseAbi,
+  parseTransaction,
+  recoverTransactionAddress,
+  type Hex,
+} from "viem";
+
+const MULTICALL3_ADDRESS = "0xca11bde05977b3631167028862be2a173976ca11";
+
+const MULTICALL3_ABI = [
+  ...multicall3Abi,
+  ...parseAbi(["function getEthBalance(address addr) view returns (uint256 balance)"]),
+];
+
+// Blocks the chain advances past each mined transaction, so receipts are
+// already confirmed when they are first read
+const BLOCKS_PER_TX = 3n;
+
+/**
+ * What happens to a sent transaction:
+ * mined successfully, mined and reverted, or left unmined in the mempool
+ */
+export type FakeTxOutcome = "success" | "reverted" | "pending";
+
+export interface FakeTransaction {
+  hash: Hex;
+  from: string;
+  to: string;
+  nonce: number;
+  value: bigint;
+  data: Hex;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  gas: bigint;
+  blockNumber: bigint | null;  // Null while pending
+  status: "success" | "reverted" | null;
+}
+
+export interface FakeTransferLog {
+  token: string;
+  from: string;
+  to: string;
+  value: bigint;
+  blockNumber: bigint;
+  txHash: Hex;
+  logIndex: number;
+}
+
+export interface FakeNode {
+  url: string;
+  blockNumber: bigint;
+  baseFeePerGas: bigint;
+  transactions: Map<string, FakeTransaction>;
+  logs: FakeTransferLog[];
+  methods: string[];              // Every RPC method called, in order
+  failGetLogs: boolean;           // Answer eth_getLogs with an error
+  onSend: (tx: FakeTransaction) => FakeTxOutcome;
+
+  setEthBalance(address: string, amount: bigint): void;
+  getEthBalance(address: string): bigint;
+  setTokenBalance(token: string, owner: string, amount: bigint): void;
+  getTokenBalance(token: string, owner: string): bigint;
+  setAllowance(token: string, owner: string, spender: string, amount: bigint): void;
+  getAllowance(token: string, owner: string, spender: string): bigint;
+  getNonce(address: string): number;
+  setCode(address: string, code: Hex): void;  // Mark an address as a contract
+
+  /**
+   * Record a token Transfer log (and move the balance) at a block
+   */
+  addTransfer(token: string, from: string, to: string, value: bigint, blockNumber: bigint): FakeTransferLog;
+
+  /**
+   * Forget a pending transaction, as a node does when it drops one
+   */
+  dropTransaction(hash: string): void;
+
+  /**
+   * Sent transactions, optionally only those from one address
+   */
+  sent(from?: string): FakeTransaction[];
+
+  reset(): void;
+  stop(): void;
+}
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+const TRANSFER_EVENT = erc20Abi.find((item) => item.type === "event" && item.name === "Transfer")!;
+
+/**
+ * Start a fake node on a free local port
+ *
+ * @param chainId - Chain ID the node reports
+ */
+export function startFakeNode(chainId = 1): FakeNode {
+  const ethBalances = new Map<string, bigint>();
+  const tokenBalances = new Map<string, bigint>();
+  const allowances = new Map<string, bigint>();
+  const nonces = new Map<string, number>();
+  const codes = new Map<string, Hex>();
+
+  const key = (...parts: string[]) => parts.map((part) => part.toLowerCase()).join(":");
+  const hex = (value: bigint | number) => numberToHex(value);
+
+  const node: FakeNode = {
+    url: "",
+    blockNumber: 20_000_000n, // Past Multicall3's deployment block
+    baseFeePerGas: 1_000_000_000n,
+    transactions: new Map(),
+    logs: [],
+    methods: [],
+    failGetLogs: false,
+    onSend: () => "success",
+
+    setEthBalance: (address, amount) => void ethBalances.set(key(address), amount),
+    getEthBalance: (address) => ethBalances.get(key(address)) ?? 0n,
+    setTokenBalance: (token, owner, amount) => void tokenBalances.set(key(token, owner), amount),
+    getTokenBalance: (token, owner) => tokenBalances.get(key(token, owner)) ?? 0n,
+    setAllowance: (token, owner, spender, amount) =>
+      void allowances.set(key(token, owner, spender), amount),
+    getAllowance: (token, owner, spender) => allowances.get(key(token, owner, spender)) ?? 0n,
+    getNonce: (address) => nonces.get(key(address)) ?? 0,
+    setCode: (address, code) => void codes.set(key(address), code),
+
+    addTransfer(token, from, to, value, blockNumber) {
+      node.setTokenBalance(token, to, node.getTokenBalance(token, to) + value);
+      const log: FakeTransferLog = {
+        token: token.toLowerCase(),
+        from: from.toLowerCase(),
+        to: to.toLowerCase(),
+        value,
+        blockNumber,
+        txHash: keccak256(hex(node.logs.length + 1)),
+        logIndex: 0,
+      };
+      node.logs.push(log);
+      return log;
+    },
+
+    dropTransaction(hash) {
+      node.transactions.delete(hash.toLowerCase());
+    },
+
+    sent(from) {
+      return [...node.transactions.values()].filter(
+        (tx) => from === undefined || tx.from === from.toLowerCase()
+      );
+    },
+
+    reset() {
+      ethBalances.clear();
+      tokenBalances.clear();
+      allowances.clear();
+      nonces.clear();
+      codes.clear();
+      node.transactions.clear();
+      node.logs = [];
+      node.methods = [];
+      node.failGetLogs = false;
+      node.onSend = () => "success";
+    },
+
+    stop() {
+      server.stop(true);
+    },
+  };
+
+  /**
+   * An ERC20 balance as of a block, undoing Transfer logs recorded after it
+   */
+  function getTokenBalanceAt(token: string, owner: string, blockNumber: bigint): bigint {
+    let balance = node.getTokenBalance(token, owner);
+    for (const log of node.logs) {
+      if (log.token !== token.toLowerCase() || log.blockNumber <= blockNumber) continue;
+      if (log.to === owner.toLowerCase()) balance -= log.value;
+      if (log.from === owner.toLowerCase()) balance += log.value;
+    }
+    return balance;
+  }
+
+  /**
+   * Answer a contract read (balanceOf, allowance, Multicall3) at a block
+   */
+  function call(to: string, data: Hex, blockNumber: bigint): Hex {
+    if (to.toLowerCase() === MULTICALL3_ADDRESS) {
+      const decoded = decodeFunctionData({ abi: MULTICALL3_ABI, data });
+      if (decoded.functionName === "getEthBalance") {
+        return encodeAbiParameters([{ type: "uint256" }], [node.getEthBalance(decoded.args[0])]);
+      }
+      if (decoded.functionName === "aggregate3") {
+        const results = decoded.args[0].map((inner) => ({
+          success: true,
+          returnData: call(inner.target, inner.callData, blockNumber),
+        }));
+        return encodeFunctionResult({ abi: multicall3Abi, functionName: "aggregate3", result: results });
+      }
+      const { functionName } = decoded;
+      throw new Error(`Fake node: unsupported Multicall3 call ${functionName}`);
+    }
+
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data });
+    if (functionName === "balanceOf") {
+      return encodeAbiParameters([{ type: "uint256" }], [getTokenBalanceAt(to, args[0], blockNumber)]);
+    }
+    if (functionName === "allowance") {
+      return encodeAbiParameters([{ type: "uint256" }], [node.getAllowance(to, args[0], args[1])]);
+    }
+    throw new Error(`Fake node: unsupported ERC20 call ${functionName}`);
+  }
+
+  /**
+   * Apply a mined transaction's effects; returns false if it reverts
+   */
+  function execute(tx: FakeTransaction): boolean {
+    if (tx.value > 0n) {
+      if (node.getEthBalance(tx.from) < tx.value) return false;
+      node.setEthBalance(tx.from, node.getEthBalance(tx.from) - tx.value);
+      node.setEthBalance(tx.to, node.getEthBalance(tx.to) + tx.value);
+    }
+    if (tx.data === "0x") {
+      return true;
+    }
+
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: tx.data });
+    if (functionName === "transfer") {
+      const [recipient, amount] = args;
+      if (node.getTokenBalance(tx.to, tx.from) < amount) return false;
+      node.setTokenBalance(tx.to, tx.from, node.getTokenBalance(tx.to, tx.from) - amount);
+      node.setTokenBalance(tx.to, recipient, node.getTokenBalance(tx.to, recipient) + amount);
+      return true;
+    }
+    if (functionName === "approve") {
+      node.setAllowance(tx.to, tx.from, args[0], args[1]);
+      return true;
+    }
+    return false;
+  }
+
+  async function sendRawTransaction(raw: Hex): Promise<Hex> {
+    const parsed = parseTransaction(raw);
+    const from = (await recoverTransactionAddress({ serializedTransaction: raw as never })).toLowerCase();
+    const hash = keccak256(raw);
+
+    // A transaction at a nonce already used can never be mined
+    if ((parsed.nonce ?? 0) < node.getNonce(from)) {
+      throw new Error("nonce too low");
+    }
+
+    const tx: FakeTransaction = {
+      hash,
+      from,
+      to: (parsed.to ?? "").toLowerCase(),
+      nonce: parsed.nonce ?? 0,
+      value: parsed.value ?? 0n,
+      data: parsed.data ?? "0x",
+      maxFeePerGas: parsed.maxFeePerGas ?? 0n,
+      maxPriorityFeePerGas: parsed.maxPriorityFeePerGas ?? 0n,
+      gas: parsed.gas ?? 0n,
+      blockNumber: null,
+      status: null,
+    };
+    node.transactions.set(hash, tx);
+
+    const outcome = node.onSend(tx);
+    if (outcome !== "pending") {
+      tx.blockNumber = node.blockNumber + 1n;
+      tx.status = outcome === "success" && execute(tx) ? "success" : "reverted";
+      nonces.set(from, tx.nonce + 1);
+      node.blockNumber += BLOCKS_PER_TX;
+    }
+    return hash;
+  }
+
+  function formatTransaction(tx: FakeTransaction) {
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      nonce: hex(tx.nonce),
+      value: hex(tx.value),
+      input: tx.data,
+      gas: hex(tx.gas),
+      maxFeePerGas: hex(tx.maxFeePerGas),
+      maxPriorityFeePerGas: hex(tx.maxPriorityFeePerGas),
+      type: "0x2",
+      chainId: hex(chainId),
+      blockNumber: tx.blockNumber === null ? null : hex(tx.blockNumber),
+      blockHash: tx.blockNumber === null ? null : pad(hex(tx.blockNumber)),
+      transactionIndex: tx.blockNumber === null ? null : "0x0",
+      v: "0x0",
+      r: pad("0x1"),
+      s: pad("0x1"),
+      yParity: "0x0",
+      accessList: [],
+    };
+  }
+
+  function getLogs(filter: { address?: string; fromBlock?: Hex; toBlock?: Hex; topics?: (Hex | Hex[] | null)[] }) {
+    if (node.failGetLogs) {
+      throw new Error("query exceeds max block range");
+    }
+    const fromBlock = filter.fromBlock ? BigInt(filter.fromBlock) : 0n;
+    const toBlock = filter.toBlock ? BigInt(filter.toBlock) : node.blockNumber;
+    // A topic position holds one value or a list of alternatives (OR)
+    const toTopic = filter.topics?.[2] ?? null;
+    const toTopics = toTopic === null ? null : [toTopic].flat().map((topic) => topic.toLowerCase());
+
+    return node.logs
+      .filter((log) => !filter.address || log.token === filter.address.toLowerCase())
+      .filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .map((log) => ({
+        address: log.token,
+        topics: encodeEventTopics({
+          abi: [TRANSFER_EVENT],
+          eventName: "Transfer",
+          args: { from: log.from as Hex, to: log.to as Hex },
+        }),
+        data: encodeAbiParameters([{ type: "uint256" }], [log.value]),
+        blockNumber: hex(log.blockNumber),
+        blockHash: pad(hex(log.blockNumber)),
+        transactionHash: log.txHash,
+        transactionIndex: "0x0",
+        logIndex: hex(log.logIndex),
+        removed: false,
+      }))
+      .filter((log) => toTopics === null || toTopics.includes((log.topics[2] as Hex).toLowerCase()));
+  }
+
+  async function handle({ method, params }: RpcRequest): Promise<unknown> {
+    node.methods.push(method);
+
+    switch (method) {
+      case "eth_chainId":
+        return hex(chainId);
+      case "eth_blockNumber":
+        return hex(node.blockNumber);
+      case "eth_getBlockByNumber":
+        return {
+          number: hex(node.blockNumber),
+          hash: pad(hex(node.blockNumber)),
+          parentHash: pad(hex(node.blockNumber - 1n)),
+          timestamp: hex(Math.floor(Date.now() / 1000)),
+          baseFeePerGas: hex(node.baseFeePerGas),
+          gasLimit: hex(30_000_000),
+          gasUsed: "0x0",
+          transactions: [],
+        };
+      case "eth_maxPriorityFeePerGas":
+        return hex(1_000_000n);
+      case "eth_gasPrice":
+        return hex(node.baseFeePerGas);
+      case "eth_estimateGas":
+        return hex(21_000);
+      case "eth_getBalance":
+        return hex(node.getEthBalance(params[0] as string));
+      case "eth_getCode":
+        return codes.get(key(params[0] as string)) ?? "0x";
+      case "eth_getTransactionCount": {
+        const address = params[0] as string;
+        const confirmed = node.getNonce(address);
+        if (params[1] !== "pending") {
+          return hex(confirmed);
+        }
+        const pending = node.sent(address).filter((tx) => tx.blockNumber === null && tx.nonce >= confirmed);
+        return hex(confirmed + pending.length);
+      }
+      case "eth_call": {
+        const { to, data, input } = params[0] as { to: string; data?: Hex; input?: Hex };
+        const block = params[1] as string | undefined;
+        return call(to, (data ?? input)!, block?.startsWith("0x") ? BigInt(block) : node.blockNumber);
+      }
+      case "eth_getLogs":
+        return getLogs(params[0] as Parameters<typeof getLogs>[0]);
+      case "eth_sendRawTransaction":
+        return sendRawTransaction(params[0] as Hex);
+      case "eth_getTransactionByHash": {
+        const tx = node.transactions.get((params[0] as string).toLowerCase());
+        return tx ? formatTransaction(tx) : null;
+      }
+      case "eth_getTransactionReceipt": {
+        const tx = node.transactions.get((params[0] as string).toLowerCase());
+        if (!tx || tx.blockNumber === null) {
+          return null;
+        }
+        return {
+          transactionHash: tx.hash,
+          transactionIndex: "0x0",
+          blockHash: pad(hex(tx.blockNumber)),
+          blockNumber: hex(tx.blockNumber),
+          from: tx.from,
+          to: tx.to,
+          contractAddress: null,
+          cumulativeGasUsed: hex(tx.gas),
+          gasUsed: hex(tx.gas),
+          effectiveGasPrice: hex(node.baseFeePerGas),
+          logs: [],
+          logsBloom: pad("0x0", { size: 256 }),
+          status: tx.status === "success" ? "0x1" : "0x0",
+          type: "0x2",
+        };
+      }
+      default:
+        throw new Error(`Fake node: unsupported method ${method}`);
+    }
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = (await req.json()) as RpcRequest;
+      try {
+        const result = await handle(body);
+        return Response.json({ jsonrpc: "2.0", id: body.id, result });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return Response.json({ jsonrpc: "2.0", id: body.id, error: { code: -32000, message } });
+      }
+    },
+  });
+
+  node.url = `http://localhost:${server.port}`;
+  return node;
+}
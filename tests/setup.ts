@@ -50,7 +50,7 @@ export async function parseJson<T>(response: Response): Promise<T> {
 
 /**
  * Test fixtures
- * Note: sellToken is always CBBTC - not specified in API requests
+ * Note: sellToken defaults to CBBTC when not specified in API requests
  * Note: sellAmount is determined by the actual deposit, not specified in swap requests
  */
 export const fixtures = {
@@ -67,6 +67,9 @@ export const fixtures = {
     sellAmount: "100000000", // 1 CBBTC (8 decimals)
   },
 
+  cbbtcAddress: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf",
+  usdcAddress: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", // Mainnet USDC
+
   invalidAddress: "0xinvalid",
   unsupportedChainId: 999,
 } as const;